@@ -1,6 +1,7 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { UserRole, Project, Judge, Criterion, Score, Track } from './types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { UserRole, Project, Judge, Criterion, Score, Track, TrlBand, SessionUser, HackathonEvent, Assignment, Conflict, EventPhase, ResultSnapshot, RankingOptions, WeightSet } from './types';
 import * as dbService from './services/dbService';
+import * as offlineService from './services/offlineService';
 import LoginScreen from './components/LoginScreen';
 import AdminDashboard from './components/AdminDashboard';
 import JudgeDashboard from './components/JudgeDashboard';
@@ -14,133 +15,597 @@ const BackendErrorBanner = () => (
     </div>
 );
 
+// Shown to judges instead of the connection error; they can keep scoring on the cached data.
+const OfflineBanner = () => (
+    <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 m-4" role="alert">
+        <p className="font-bold">You're Offline</p>
+        <p>You can keep scoring. Your evaluations are saved on this device and will be sent as soon as the connection returns.</p>
+    </div>
+);
+
+// Remembers which event an admin was last working on across reloads.
+const CURRENT_EVENT_KEY = 'hah-current-event';
+
+// How often a judge's unsynced scores are retried while the server cannot be reached.
+const SYNC_RETRY_MS = 15000;
+
+// Inserts or replaces by id. A user's own change arrives both as the API response and over the live stream,
+// in either order, so applying it twice must not duplicate it.
+const upsertById = <T extends { id: string },>(items: T[], item: T) =>
+  items.some(i => i.id === item.id) ? items.map(i => (i.id === item.id ? item : i)) : [...items, item];
+
+// Scores are matched by project and judge: a score saved offline has a stand-in id until the server assigns one.
+const upsertScore = (scores: Score[], score: Score) =>
+  scores.some(s => s.projectId === score.projectId && s.judgeId === score.judgeId)
+    ? scores.map(s => (s.projectId === score.projectId && s.judgeId === score.judgeId ? score : s))
+    : [...scores, score];
+
+const sortTracks = (tracks: Track[]) => [...tracks].sort((a, b) => a.name.localeCompare(b.name));
+const sortBands = (bands: TrlBand[]) => [...bands].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+
 function App() {
-  const [user, setUser] = useState<{ role: UserRole; id?: string } | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isBackendError, setIsBackendError] = useState(false);
+
+  const [events, setEvents] = useState<HackathonEvent[]>([]);
+  const [currentEventId, setCurrentEventId] = useState<string | null>(null);
   
   const [projects, setProjects] = useState<Project[]>([]);
   const [judges, setJudges] = useState<Judge[]>([]);
   const [criteria, setCriteria] = useState<Criterion[]>([]);
   const [scores, setScores] = useState<Score[]>([]);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [trlBands, setTrlBands] = useState<TrlBand[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [resultSnapshot, setResultSnapshot] = useState<ResultSnapshot | null>(null);
+  const [weightSets, setWeightSets] = useState<WeightSet[]>([]);
+  const [queuedScores, setQueuedScores] = useState<offlineService.QueuedScore[]>([]);
+  const isSyncing = useRef(false);
+
+  // Reads the current event's offline score queue into state. Without IndexedDB the app still works online.
+  const readScoreQueue = async () => {
+    const eventId = dbService.getCurrentEvent();
+    try {
+      const queue = eventId ? await offlineService.getQueuedScores(eventId) : [];
+      setQueuedScores(queue);
+      return queue;
+    } catch (error) {
+      console.error("Offline storage is unavailable:", error);
+      return [];
+    }
+  };
+
+  const setEventData = (data: dbService.DBState, queue: offlineService.QueuedScore[]) => {
+    setProjects(data.projects);
+    setJudges(data.judges);
+    setCriteria(data.criteria);
+    setScores(offlineService.applyQueuedScores(data.scores, queue));
+    setTracks(data.tracks);
+    setTrlBands(data.trlBands);
+    setAssignments(data.assignments);
+    setConflicts(data.conflicts);
+    setResultSnapshot(data.resultSnapshot);
+    setWeightSets(data.weightSets);
+  };
+
+  const loadData = async () => {
+    const data = await dbService.getAllData();
+    setEventData(data, await readScoreQueue());
+  };
+
+  const clearEventData = () => {
+    setProjects([]);
+    setJudges([]);
+    setCriteria([]);
+    setScores([]);
+    setTracks([]);
+    setTrlBands([]);
+    setAssignments([]);
+    setConflicts([]);
+    setResultSnapshot(null);
+    setWeightSets([]);
+    setQueuedScores([]);
+  };
+
+  const switchEvent = async (eventId: string | null) => {
+    dbService.setCurrentEvent(eventId);
+    setCurrentEventId(eventId);
+    if (eventId) {
+      localStorage.setItem(CURRENT_EVENT_KEY, eventId);
+      await loadData();
+    } else {
+      clearEventData();
+    }
+  };
+
+  // Loads the events visible to the signed-in user and opens the last used one, falling back to the newest.
+  const loadEvents = async () => {
+    const visibleEvents = await dbService.getEvents();
+    setEvents(visibleEvents);
+    const storedEventId = localStorage.getItem(CURRENT_EVENT_KEY);
+    const initialEvent = visibleEvents.find(e => e.id === storedEventId) ?? visibleEvents[0];
+    await switchEvent(initialEvent?.id ?? null);
+  };
+
+  const clearSession = () => {
+    setUser(null);
+    setEvents([]);
+    setCurrentEventId(null);
+    dbService.setCurrentEvent(null);
+    clearEventData();
+  };
+
+  // Opens a judge's cached data when the server cannot be reached at startup.
+  const restoreOfflineSnapshot = async () => {
+    const snapshot = await offlineService.loadSnapshot().catch(() => null);
+    if (!snapshot) return false;
+    dbService.setCurrentEvent(snapshot.eventId);
+    setCurrentEventId(snapshot.eventId);
+    setEvents(snapshot.events);
+    setEventData(snapshot.data, await readScoreQueue());
+    setUser(snapshot.user);
+    return true;
+  };
 
   useEffect(() => {
-    // Load initial data from the backend when the app starts
-    const fetchData = async () => {
+    // Restore a stored session and load its data when the app starts
+    const restoreSession = async () => {
         try {
-            const data = await dbService.getAllData();
-            setProjects(data.projects);
-            setJudges(data.judges);
-            setCriteria(data.criteria);
-            setScores(data.scores);
+            const sessionUser = await dbService.getSessionUser();
+            if (sessionUser) {
+                await loadEvents();
+                setUser(sessionUser);
+            }
             setIsBackendError(false);
         } catch (error) {
             console.error("Failed to connect to backend:", error);
+            if (dbService.isNetworkError(error) && dbService.hasSessionToken()) await restoreOfflineSnapshot();
             setIsBackendError(true);
         } finally {
             setIsLoading(false);
         }
     };
-    fetchData();
+    restoreSession();
   }, []);
 
-  const handleApiCall = async <T,>(apiCall: () => Promise<T>): Promise<T | null> => {
+  // Forms pass `throwFormErrors` so they can catch a rejected body or an edit conflict and show it in place.
+  // `onVersionConflict` receives the server's current copy when an update was based on a stale one.
+  // Background saves pass `quiet` and report a failure (a null result) themselves instead of interrupting the user.
+  const handleApiCall = async <T,>(
+    apiCall: () => Promise<T>,
+    options: { throwFormErrors?: boolean; onVersionConflict?: (current: T) => void; quiet?: boolean } = {}
+  ): Promise<T | null> => {
     try {
         const result = await apiCall();
         setIsBackendError(false);
         return result;
     } catch (error) {
         console.error("API call failed:", error);
+        if (error instanceof dbService.ApiError && error.status === 401) {
+            // The session expired or was revoked; send the user back to the login screen.
+            clearSession();
+            return null;
+        }
+        if (error instanceof dbService.VersionConflictError) {
+            options.onVersionConflict?.(error.current as T);
+        }
+        if ((error instanceof dbService.ValidationError || error instanceof dbService.VersionConflictError) && options.throwFormErrors) {
+            throw error;
+        }
+        if (options.quiet) return null;
+        if (error instanceof dbService.ApiError && error.status < 500) {
+            // The server understood the request but refused it; tell the user why.
+            alert(error.message);
+            return null;
+        }
         setIsBackendError(true);
         return null;
     }
   };
 
 
+  // --- State Updates ---
+  // Shared by the handlers below and by live updates, so a change looks the same whoever made it.
+  const removeProject = (projectId: string) => {
+    setProjects(prev => prev.filter(p => p.id !== projectId));
+    setScores(prev => prev.filter(s => s.projectId !== projectId));
+    setAssignments(prev => prev.filter(a => a.projectId !== projectId));
+    setConflicts(prev => prev.filter(c => c.projectId !== projectId));
+  };
+  const removeJudge = (judgeId: string) => {
+    setJudges(prev => prev.filter(j => j.id !== judgeId));
+    setScores(prev => prev.filter(s => s.judgeId !== judgeId));
+    setAssignments(prev => prev.filter(a => a.judgeId !== judgeId));
+    setConflicts(prev => prev.filter(c => c.judgeId !== judgeId));
+  };
+  const removeTrack = (trackId: string) => {
+    setTracks(prev => prev.filter(t => t.id !== trackId));
+    setJudges(prev => prev.map(j => ({ ...j, tracks: j.tracks.filter(t => t !== trackId) })));
+  };
+  const removeTrlBand = (bandId: string) => {
+    setTrlBands(prev => prev.filter(b => b.id !== bandId));
+    setCriteria(prev => prev.map(c => {
+      const { [bandId]: _removed, ...weight } = c.weight;
+      return { ...c, weight };
+    }));
+    setWeightSets(prev => prev.map(ws => {
+      const weights: WeightSet['weights'] = {};
+      Object.keys(ws.weights).forEach(criterionId => {
+        const { [bandId]: _removed, ...weight } = ws.weights[criterionId];
+        weights[criterionId] = weight;
+      });
+      return { ...ws, weights };
+    }));
+    setScores(prev => prev.map(s => s.juryTrl === bandId ? { ...s, juryTrl: undefined } : s));
+  };
+  // The server removes the recused judge's assignment to the project.
+  const addConflict = (conflict: Conflict) => {
+    setConflicts(prev => upsertById(prev, conflict));
+    setAssignments(prev => prev.filter(a => !(a.judgeId === conflict.judgeId && a.projectId === conflict.projectId)));
+  };
+
+  // Applies a change pushed by the server, made by another user or by this one in another tab.
+  const applyChange = (change: dbService.EntityChange) => {
+    switch (change.entity) {
+      case 'events':
+        setEvents(prev => upsertById(prev, change.data));
+        break;
+      case 'projects':
+        if (change.action === 'delete') removeProject(change.data.id);
+        else setProjects(prev => upsertById(prev, change.data));
+        break;
+      case 'judges':
+        if (change.action === 'delete') removeJudge(change.data.id);
+        else setJudges(prev => upsertById(prev, change.data));
+        break;
+      case 'criteria':
+        if (change.action === 'delete') setCriteria(prev => prev.filter(c => c.id !== change.data.id));
+        else setCriteria(prev => upsertById(prev, change.data));
+        break;
+      case 'tracks':
+        if (change.action === 'delete') removeTrack(change.data.id);
+        else setTracks(prev => sortTracks(upsertById(prev, change.data)));
+        break;
+      case 'trlBands':
+        if (change.action === 'delete') removeTrlBand(change.data.id);
+        else setTrlBands(prev => sortBands(upsertById(prev, change.data)));
+        break;
+      case 'assignments':
+        if (change.action === 'replace') setAssignments(change.data);
+        else if (change.action === 'delete') setAssignments(prev => prev.filter(a => a.id !== change.data.id));
+        else setAssignments(prev => upsertById(prev, change.data));
+        break;
+      case 'conflicts':
+        if (change.action === 'delete') setConflicts(prev => prev.filter(c => c.id !== change.data.id));
+        else addConflict(change.data);
+        break;
+      case 'scores':
+        if (change.action === 'delete') setScores(prev => prev.filter(s => s.id !== change.data.id));
+        else setScores(prev => upsertScore(prev, change.data));
+        break;
+      case 'resultSnapshots':
+        setResultSnapshot(change.data);
+        break;
+      case 'weightSets':
+        setWeightSets(prev => upsertById(prev, change.data));
+        break;
+    }
+  };
+
+  // Keeps the open event in sync while the dashboard is open. Changes made while the stream was down are
+  // not replayed, so a reconnect reloads everything.
+  useEffect(() => {
+    if (!user || !currentEventId) return;
+    return dbService.subscribeToChanges(currentEventId, applyChange, () => {
+      handleApiCall(loadData);
+    });
+  }, [user, currentEventId]);
+
+  // --- Event Handlers ---
+  const selectEvent = async (eventId: string) => {
+    await handleApiCall(() => switchEvent(eventId));
+  };
+  const createEvent = async (name: string, cloneFromEventId?: string) => {
+    const newEvent = await handleApiCall(() => dbService.createEvent(name, cloneFromEventId), { throwFormErrors: true });
+    if (newEvent) {
+      setEvents(prev => [newEvent, ...prev]);
+      await selectEvent(newEvent.id);
+    }
+  };
+  const updateEvent = async (updatedEvent: HackathonEvent) => {
+    const savedEvent = await handleApiCall(() => dbService.updateEvent(updatedEvent), {
+      throwFormErrors: true,
+      onVersionConflict: current => setEvents(prev => prev.map(e => e.id === current.id ? current : e)),
+    });
+    if (savedEvent) setEvents(prev => prev.map(e => e.id === savedEvent.id ? savedEvent : e));
+  };
+  // A phase change also locks every unlocked judge and may publish results, so the event's data is reloaded.
+  const changeEventPhase = async (event: HackathonEvent, phase: EventPhase, options?: RankingOptions) => {
+    const savedEvent = await handleApiCall(() => dbService.changeEventPhase(event, phase, options), {
+      onVersionConflict: current => setEvents(prev => prev.map(e => e.id === current.id ? current : e)),
+    });
+    if (savedEvent) {
+      setEvents(prev => prev.map(e => e.id === savedEvent.id ? savedEvent : e));
+      await handleApiCall(loadData);
+    }
+  };
+
   // --- Admin Handlers ---
-  const addProjects = async (newProjectsData: Omit<Project, 'id'>[]) => {
-      const createdProjects = await handleApiCall(() => dbService.createProjects(newProjectsData));
-      if(createdProjects) setProjects(prev => [...prev, ...createdProjects]);
+  const addProjects = async (newProjectsData: Omit<Project, 'id'>[], mode?: dbService.BulkMode) => {
+      const result = await handleApiCall(() => dbService.createProjects(newProjectsData, mode));
+      if(result) setProjects(prev => result.created.reduce(upsertById, prev));
+      return result;
   };
   const editProject = async (updatedProject: Project) => {
-      const savedProject = await handleApiCall(() => dbService.updateProject(updatedProject));
+      const savedProject = await handleApiCall(() => dbService.updateProject(updatedProject), {
+        throwFormErrors: true,
+        onVersionConflict: current => setProjects(prev => prev.map(p => p.id === current.id ? current : p)),
+      });
       if(savedProject) setProjects(prev => prev.map(p => p.id === savedProject.id ? savedProject : p));
+      return savedProject;
   };
   const deleteProject = async (projectId: string) => {
     const result = await handleApiCall(() => dbService.deleteProject(projectId));
-    if (result?.success) {
-      setProjects(prev => prev.filter(p => p.id !== projectId));
-      setScores(prev => prev.filter(s => s.projectId !== projectId));
-    }
+    if (result?.success) removeProject(projectId);
   };
 
   const addJudge = async (newJudgeData: Omit<Judge, 'id'>) => {
-    const newJudge = await handleApiCall(() => dbService.createJudge(newJudgeData));
-    if (newJudge) setJudges(prev => [...prev, newJudge]);
+    const newJudge = await handleApiCall(() => dbService.createJudge(newJudgeData), { throwFormErrors: true });
+    if (newJudge) setJudges(prev => upsertById(prev, newJudge));
     return newJudge;
   };
   const editJudge = async (updatedJudge: Judge) => {
-      const savedJudge = await handleApiCall(() => dbService.updateJudge(updatedJudge));
+      const savedJudge = await handleApiCall(() => dbService.updateJudge(updatedJudge), {
+        throwFormErrors: true,
+        onVersionConflict: current => setJudges(prev => prev.map(j => j.id === current.id ? current : j)),
+      });
       if(savedJudge) setJudges(prev => prev.map(j => j.id === savedJudge.id ? savedJudge : j));
+      return savedJudge;
+  };
+  const createJudgeInvite = async (judgeId: string) => {
+    const result = await handleApiCall(() => dbService.createJudgeInvite(judgeId));
+    return result?.inviteCode ?? null;
+  };
+  const setJudgeScoringUnlocked = async (judgeId: string, unlocked: boolean) => {
+    const savedJudge = await handleApiCall(() => dbService.setJudgeScoringUnlocked(judgeId, unlocked));
+    if (savedJudge) setJudges(prev => prev.map(j => j.id === savedJudge.id ? savedJudge : j));
   };
   const deleteJudge = async (judgeId: string) => {
     const result = await handleApiCall(() => dbService.deleteJudge(judgeId));
-    if(result?.success) {
-      setJudges(prev => prev.filter(j => j.id !== judgeId));
-      setScores(prev => prev.filter(s => s.judgeId !== judgeId));
-    }
+    if(result?.success) removeJudge(judgeId);
   };
 
   const addCriterion = async (newCriterionData: Omit<Criterion, 'id'>) => {
-      const newCriterion = await handleApiCall(() => dbService.createCriterion(newCriterionData));
-      if(newCriterion) setCriteria(prev => [...prev, newCriterion]);
+      const newCriterion = await handleApiCall(() => dbService.createCriterion(newCriterionData), { throwFormErrors: true });
+      if(newCriterion) setCriteria(prev => upsertById(prev, newCriterion));
+      return newCriterion;
   };
   const editCriterion = async (updatedCriterion: Criterion) => {
-      const savedCriterion = await handleApiCall(() => dbService.updateCriterion(updatedCriterion));
+      const savedCriterion = await handleApiCall(() => dbService.updateCriterion(updatedCriterion), {
+        throwFormErrors: true,
+        onVersionConflict: current => setCriteria(prev => prev.map(c => c.id === current.id ? current : c)),
+      });
       if(savedCriterion) setCriteria(prev => prev.map(c => c.id === savedCriterion.id ? savedCriterion : c));
+      return savedCriterion;
   };
   const deleteCriterion = async (criterionId: string) => {
     const result = await handleApiCall(() => dbService.deleteCriterion(criterionId));
     if(result?.success) setCriteria(prev => prev.filter(c => c.id !== criterionId));
   };
 
-  // --- Judge Handler ---
-  const addOrUpdateScore = async (newScore: Score) => {
-    const savedScore = await handleApiCall(() => dbService.createOrUpdateScore(newScore));
-    if (savedScore) {
-      setScores(prev => {
-          const index = prev.findIndex(s => s.id === savedScore.id);
-          if (index > -1) {
-              const updatedScores = [...prev];
-              updatedScores[index] = savedScore;
-              return updatedScores;
-          }
-          return [...prev, savedScore];
+  // Only one weight set is active at a time; the server deactivates the others in the same change.
+  const showActiveWeightSet = (active: WeightSet) =>
+    setWeightSets(prev => upsertById(prev.map(w => ({ ...w, isActive: false })), active));
+  const addWeightSet = async (name: string) => {
+    const savedSet = await handleApiCall(() => dbService.createWeightSet(name), { throwFormErrors: true });
+    if (savedSet) showActiveWeightSet(savedSet);
+  };
+  const activateWeightSet = async (weightSetId: string) => {
+    const activeSet = await handleApiCall(() => dbService.activateWeightSet(weightSetId));
+    if (activeSet) showActiveWeightSet(activeSet);
+  };
+
+  const addTrack = async (newTrackData: Omit<Track, 'id'>) => {
+      const newTrack = await handleApiCall(() => dbService.createTrack(newTrackData));
+      if(newTrack) setTracks(prev => sortTracks(upsertById(prev, newTrack)));
+  };
+  const editTrack = async (updatedTrack: Track) => {
+      const savedTrack = await handleApiCall(() => dbService.updateTrack(updatedTrack), {
+        onVersionConflict: current => setTracks(prev => prev.map(t => t.id === current.id ? current : t)),
       });
+      if(savedTrack) setTracks(prev => prev.map(t => t.id === savedTrack.id ? savedTrack : t));
+  };
+  const deleteTrack = async (trackId: string) => {
+    const result = await handleApiCall(() => dbService.deleteTrack(trackId));
+    if(result?.success) removeTrack(trackId);
+  };
+
+  const addTrlBand = async (newBandData: Omit<TrlBand, 'id'>) => {
+      const newBand = await handleApiCall(() => dbService.createTrlBand(newBandData));
+      if(newBand) setTrlBands(prev => sortBands(upsertById(prev, newBand)));
+  };
+  const editTrlBand = async (updatedBand: TrlBand) => {
+      const savedBand = await handleApiCall(() => dbService.updateTrlBand(updatedBand), {
+        onVersionConflict: current => setTrlBands(prev => sortBands(prev.map(b => b.id === current.id ? current : b))),
+      });
+      if(savedBand) setTrlBands(prev => sortBands(prev.map(b => b.id === savedBand.id ? savedBand : b)));
+  };
+  const deleteTrlBand = async (bandId: string) => {
+    const result = await handleApiCall(() => dbService.deleteTrlBand(bandId));
+    if(result?.success) removeTrlBand(bandId);
+  };
+
+  const addAssignment = async (pair: Omit<Assignment, 'id'>) => {
+    const newAssignment = await handleApiCall(() => dbService.createAssignment(pair));
+    if (newAssignment) setAssignments(prev => upsertById(prev, newAssignment));
+  };
+  const replaceAssignments = async (pairs: Omit<Assignment, 'id'>[]) => {
+    const savedAssignments = await handleApiCall(() => dbService.replaceAssignments(pairs));
+    if (savedAssignments) setAssignments(savedAssignments);
+    return savedAssignments !== null;
+  };
+  const deleteAssignment = async (assignmentId: string) => {
+    const result = await handleApiCall(() => dbService.deleteAssignment(assignmentId));
+    if (result?.success) setAssignments(prev => prev.filter(a => a.id !== assignmentId));
+  };
+
+  // Used by both admins and judges.
+  const declareConflict = async (conflict: Pick<Conflict, 'judgeId' | 'projectId' | 'reason'>) => {
+    const newConflict = await handleApiCall(() => dbService.declareConflict(conflict));
+    if (newConflict) addConflict(newConflict);
+  };
+  const deleteConflict = async (conflictId: string) => {
+    const result = await handleApiCall(() => dbService.deleteConflict(conflictId));
+    if (result?.success) setConflicts(prev => prev.filter(c => c.id !== conflictId));
+  };
+
+  // The Activity tab loads the audit log itself whenever its filters change.
+  const loadAuditLog = (filters: dbService.AuditFilters) => handleApiCall(() => dbService.getAuditLog(filters));
+
+  // --- Judge Handler ---
+  // A save that cannot reach the server is queued on the device and shown as saved; it is sent once the
+  // connection returns. A save that does reach it replaces anything still queued for the same project.
+  const saveScoreOrQueue = async (score: Omit<Score, 'id'>): Promise<Score> => {
+    try {
+      const savedScore = await dbService.saveScore(score);
+      if (currentEventId) {
+        await offlineService.discardQueuedScore(currentEventId, score).catch(error => console.error("Could not update the offline queue:", error));
+        await readScoreQueue();
+      }
+      return savedScore;
+    } catch (error) {
+      if (!dbService.isNetworkError(error) || !currentEventId) throw error;
+      const existing = scores.find(s => s.projectId === score.projectId && s.judgeId === score.judgeId);
+      try {
+        await offlineService.queueScore(currentEventId, score, existing);
+      } catch (storageError) {
+        console.error("Could not queue the score offline:", storageError);
+        throw error;
+      }
+      await readScoreQueue();
+      return offlineService.toLocalScore(score, existing);
+    }
+  };
+
+  const addOrUpdateScore = async (newScore: Omit<Score, 'id'>) => {
+    const savedScore = await handleApiCall(() => saveScoreOrQueue(newScore), { throwFormErrors: true });
+    if (savedScore) setScores(prev => upsertScore(prev, savedScore));
+  };
+  // Autosave from the scoring form; it shows its own saved or failed state.
+  const saveScoreDraft = async (draft: Omit<Score, 'id'>) => {
+    const savedScore = await handleApiCall(() => saveScoreOrQueue(draft), { quiet: true });
+    if (savedScore) setScores(prev => upsertScore(prev, savedScore));
+    return savedScore !== null;
+  };
+
+  // Sends the queued scores, then reloads everything if the app was running on cached data.
+  const syncScoreQueue = async () => {
+    if (isSyncing.current || !currentEventId) return;
+    isSyncing.current = true;
+    try {
+      const eventId = currentEventId;
+      const syncedScores = await handleApiCall(() => offlineService.replayScoreQueue(eventId, readScoreQueue), { quiet: true });
+      if (!syncedScores) return;
+      setScores(prev => syncedScores.reduce(upsertScore, prev));
+      if (isBackendError) await handleApiCall(loadData, { quiet: true });
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  // While a judge has scores waiting or the server is unreachable, retry now and then, and right away when the
+  // browser reports that it is back online.
+  useEffect(() => {
+    if (user?.role !== UserRole.JUDGE || !currentEventId) return;
+    const hasWaiting = queuedScores.some(item => item.status === 'pending' || item.status === 'syncing');
+    if (!hasWaiting && !isBackendError) return;
+    const timer = setInterval(syncScoreQueue, SYNC_RETRY_MS);
+    window.addEventListener('online', syncScoreQueue);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', syncScoreQueue);
+    };
+  }, [user, currentEventId, queuedScores, isBackendError]);
+
+  // Keeps the judge's last loaded data on the device so the app can open without a connection.
+  useEffect(() => {
+    if (user?.role !== UserRole.JUDGE || !currentEventId) return;
+    offlineService.saveSnapshot({
+      user,
+      events,
+      eventId: currentEventId,
+      data: { projects, judges, criteria, scores, tracks, trlBands, assignments, conflicts, resultSnapshot, weightSets },
+      savedAt: new Date().toISOString(),
+    }).catch(error => console.error("Could not cache data for offline use:", error));
+  }, [user, events, currentEventId, projects, judges, criteria, scores, tracks, trlBands, assignments, conflicts, resultSnapshot, weightSets]);
+
+  // A conflicting save is sent again over the server's copy; a refused one is simply retried.
+  const retryQueuedScore = async (item: offlineService.QueuedScore) => {
+    await (item.status === 'conflict' ? offlineService.overwriteServerScore(item) : offlineService.retryQueuedScore(item));
+    await readScoreQueue();
+    await syncScoreQueue();
+  };
+  // Drops a queued save and goes back to the server's copy.
+  const discardQueuedScore = async (item: offlineService.QueuedScore) => {
+    await offlineService.deleteQueuedScore(item.key);
+    if (item.serverScore) {
+      await readScoreQueue();
+      setScores(prev => upsertScore(prev, item.serverScore!));
+    } else {
+      await handleApiCall(loadData);
     }
   };
   
+  // A save still queued for the score is dropped too, or the replay would bring the score back. A score that never
+  // reached the server only exists in the queue, so there is nothing to delete there.
   const deleteScore = async (scoreId: string) => {
-    const result = await handleApiCall(() => dbService.deleteScore(scoreId));
-    if(result?.success) setScores(prev => prev.filter(s => s.id !== scoreId));
+    const score = scores.find(s => s.id === scoreId);
+    const queued = score && queuedScores.find(item => item.score.projectId === score.projectId && item.score.judgeId === score.judgeId);
+    if (!score || !offlineService.isLocalOnly(score)) {
+      const result = await handleApiCall(() => dbService.deleteScore(scoreId));
+      if (!result?.success) return;
+    }
+    if (queued) {
+      await offlineService.deleteQueuedScore(queued.key).catch(error => console.error("Could not update the offline queue:", error));
+      await readScoreQueue();
+    }
+    setScores(prev => prev.filter(s => s.id !== scoreId));
   };
 
-  const handleAdminLogin = () => setUser({ role: UserRole.ADMIN });
+  // Login handlers throw on failure so LoginScreen can show the reason next to the form.
+  const completeLogin = async (sessionUser: SessionUser) => {
+    await loadEvents();
+    setIsBackendError(false);
+    setUser(sessionUser);
+  };
 
-  const handleJuryLogin = async (judgeId: string, newJudgeData?: Omit<Judge, 'id'>) => {
-    let finalJudgeId = judgeId;
-    if (judgeId === 'new' && newJudgeData) {
-      const newJudge = await addJudge(newJudgeData);
-      if (newJudge) {
-        finalJudgeId = newJudge.id;
-      } else {
-        return; // Don't log in if judge creation failed
-      }
-    }
-    setUser({ role: UserRole.JUDGE, id: finalJudgeId });
+  const handleAdminLogin = async (username: string, password: string) => {
+    await completeLogin(await dbService.loginAdmin(username, password));
+  };
+
+  const handleJuryLogin = async (inviteCode: string) => {
+    await completeLogin(await dbService.loginJudge(inviteCode));
   };
   
-  const handleLogout = () => setUser(null);
+  // `keepScoreQueue` is for logouts the user did not ask for: their unsynced scores stay on the device.
+  const handleLogout = (options: { keepScoreQueue?: boolean } = {}) => {
+    dbService.logout().catch(error => console.error("Logout failed:", error));
+    Promise.all([offlineService.clearSnapshot(), options.keepScoreQueue ? undefined : offlineService.clearScoreQueue()])
+      .catch(error => console.error("Could not clear offline data:", error));
+    clearSession();
+  };
+
+  // Unsynced scores only exist on this device, so logging out would lose them.
+  const confirmLogout = () => {
+    if (queuedScores.length > 0 && !window.confirm(`${queuedScores.length} evaluation${queuedScores.length === 1 ? ' has' : 's have'} not been sent to the server yet and will be lost if you log out. Log out anyway?`)) {
+      return;
+    }
+    handleLogout();
+  };
+
+  const currentEvent = events.find(e => e.id === currentEventId);
 
   const judgeData = useMemo(() => {
     if (user?.role !== UserRole.JUDGE || !user.id) {
@@ -148,16 +613,22 @@ function App() {
     }
     const currentJudge = judges.find(j => j.id === user.id);
     if (!currentJudge) {
-        // This could happen if a judge was deleted while they were logged in.
-        // Log them out gracefully.
-        handleLogout();
         return null;
     }
-    const judgeProjects = projects.filter(p => currentJudge.tracks.includes(p.track as Track));
+    const assignedProjectIds = new Set(assignments.filter(a => a.judgeId === currentJudge.id).map(a => a.projectId));
+    const judgeProjects = projects.filter(p => assignedProjectIds.has(p.id));
     const judgeScores = scores.filter(s => s.judgeId === currentJudge.id);
+    const judgeConflicts = conflicts.filter(c => c.judgeId === currentJudge.id);
     
-    return { currentJudge, judgeProjects, judgeScores };
-  }, [user, judges, projects, scores]);
+    return { currentJudge, judgeProjects, judgeScores, judgeConflicts };
+  }, [user, judges, projects, scores, assignments, conflicts]);
+
+  // This could happen if a judge was deleted while they were logged in. Log them out gracefully.
+  useEffect(() => {
+    if (user?.role === UserRole.JUDGE && !judges.some(j => j.id === user.id)) {
+      handleLogout({ keepScoreQueue: true });
+    }
+  }, [user, judges]);
 
   const renderContent = () => {
     if (isLoading) {
@@ -169,12 +640,20 @@ function App() {
     }
 
     if (!user) {
-      return <LoginScreen onAdminLogin={handleAdminLogin} onJuryLogin={handleJuryLogin} judges={judges} />;
+      return <LoginScreen onAdminLogin={handleAdminLogin} onJuryLogin={handleJuryLogin} />;
+    }
+
+    if (!currentEvent) {
+        return (
+            <p className="p-8 text-center text-gray-500">
+                {user.role === UserRole.ADMIN ? 'No events yet. Create one with "New Event" above.' : 'You are not assigned to any event.'}
+            </p>
+        );
     }
 
     return (
         <>
-            {isBackendError && <BackendErrorBanner />}
+            {isBackendError && (user.role === UserRole.JUDGE ? <OfflineBanner /> : <BackendErrorBanner />)}
             {(() => {
                 switch (user.role) {
                 case UserRole.ADMIN:
@@ -183,15 +662,40 @@ function App() {
                         judges={judges} 
                         criteria={criteria} 
                         scores={scores}
+                        tracks={tracks}
+                        trlBands={trlBands}
                         addProjects={addProjects}
                         editProject={editProject}
                         deleteProject={deleteProject}
                         addJudge={addJudge}
                         editJudge={editJudge}
                         deleteJudge={deleteJudge}
+                        createJudgeInvite={createJudgeInvite}
                         addCriterion={addCriterion}
                         editCriterion={editCriterion}
                         deleteCriterion={deleteCriterion}
+                        addTrack={addTrack}
+                        editTrack={editTrack}
+                        deleteTrack={deleteTrack}
+                        addTrlBand={addTrlBand}
+                        editTrlBand={editTrlBand}
+                        deleteTrlBand={deleteTrlBand}
+                        currentEvent={currentEvent}
+                        updateEvent={updateEvent}
+                        changeEventPhase={changeEventPhase}
+                        resultSnapshot={resultSnapshot}
+                        weightSets={weightSets}
+                        addWeightSet={addWeightSet}
+                        activateWeightSet={activateWeightSet}
+                        setJudgeScoringUnlocked={setJudgeScoringUnlocked}
+                        assignments={assignments}
+                        conflicts={conflicts}
+                        addAssignment={addAssignment}
+                        replaceAssignments={replaceAssignments}
+                        deleteAssignment={deleteAssignment}
+                        declareConflict={declareConflict}
+                        deleteConflict={deleteConflict}
+                        loadAuditLog={loadAuditLog}
                     />;
                 case UserRole.JUDGE:
                     if (!judgeData) {
@@ -199,12 +703,22 @@ function App() {
                     }
                     
                     return <JudgeDashboard
+                        event={currentEvent}
                         judge={judgeData.currentJudge}
                         projects={judgeData.judgeProjects}
                         criteria={criteria}
+                        tracks={tracks}
+                        trlBands={trlBands}
                         scores={judgeData.judgeScores}
                         onScoreSubmit={addOrUpdateScore}
+                        onScoreDraftSave={saveScoreDraft}
                         onScoreDelete={deleteScore}
+                        queuedScores={queuedScores}
+                        onRetryQueuedScore={retryQueuedScore}
+                        onDiscardQueuedScore={discardQueuedScore}
+                        allProjects={projects}
+                        conflicts={judgeData.judgeConflicts}
+                        onDeclareConflict={declareConflict}
                     />;
                 default:
                     return null;
@@ -216,7 +730,15 @@ function App() {
 
   return (
     <div className="bg-gray-50 min-h-screen font-sans">
-      <Header user={user} onLogout={handleLogout} judges={judges} />
+      <Header
+        user={user}
+        onLogout={confirmLogout}
+        judges={judges}
+        events={events}
+        currentEventId={currentEventId}
+        onEventChange={selectEvent}
+        onCreateEvent={createEvent}
+      />
       <main className="max-w-screen-xl mx-auto">
         {renderContent()}
       </main>
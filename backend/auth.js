@@ -0,0 +1,110 @@
+// backend/auth.js
+const crypto = require('crypto');
+const query = require('./db');
+
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+
+// --- Hashing Helpers ---
+// Passwords are hashed with scrypt and a per-user salt, stored as `salt:hash`.
+const hashPassword = (password) => new Promise((resolve, reject) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  crypto.scrypt(password, salt, 64, (error, key) => {
+    if (error) return reject(error);
+    resolve(`${salt}:${key.toString('hex')}`);
+  });
+});
+
+const verifyPassword = (password, storedHash) => new Promise((resolve, reject) => {
+  const [salt, hash] = (storedHash || '').split(':');
+  if (!salt || !hash) return resolve(false);
+  crypto.scrypt(password, salt, 64, (error, key) => {
+    if (error) return reject(error);
+    const expected = Buffer.from(hash, 'hex');
+    resolve(expected.length === key.length && crypto.timingSafeEqual(expected, key));
+  });
+});
+
+// Session tokens and invite codes are random secrets; only their SHA-256 digest is persisted.
+const generateToken = () => crypto.randomBytes(32).toString('base64url');
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// --- Sessions ---
+const createSession = async (role, userId) => {
+  const token = generateToken();
+  await query(
+    `INSERT INTO sessions ("tokenHash", role, "userId", "expiresAt") VALUES ($1, $2, $3, NOW() + make_interval(hours => $4))`,
+    [hashToken(token), role, userId, SESSION_TTL_HOURS]
+  );
+  return token;
+};
+
+const destroySession = async (token) => {
+  await query('DELETE FROM sessions WHERE "tokenHash" = $1', [hashToken(token)]);
+};
+
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+// --- Middleware ---
+// Resolves the bearer token to `req.user = { role, id }` or rejects the request with 401.
+const authenticate = async (req, res, next) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) return res.status(401).json({ message: 'Authentication required' });
+    const result = await query(
+      'SELECT role, "userId", "expiresAt" FROM sessions WHERE "tokenHash" = $1 AND "expiresAt" > NOW()',
+      [hashToken(token)]
+    );
+    if (result.rows.length === 0) return res.status(401).json({ message: 'Session expired or invalid' });
+    req.user = { role: result.rows[0].role, id: result.rows[0].userId };
+    req.sessionToken = token;
+    req.sessionExpiresAt = result.rows[0].expiresAt ? new Date(result.rows[0].expiresAt).getTime() : null;
+    next();
+  } catch (error) {
+    console.error('Error in authenticating request:', error);
+    res.status(500).json({ message: 'An error occurred in authenticating request.', error: error.message });
+  }
+};
+
+const requireRole = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ message: 'You do not have permission to perform this action' });
+  }
+  next();
+};
+
+const requireAdmin = requireRole('admin');
+
+// --- Bootstrap ---
+// Creates the initial admin account from ADMIN_USERNAME / ADMIN_PASSWORD if it does not exist yet.
+const ensureAdminAccount = async () => {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
+    console.warn('ADMIN_USERNAME / ADMIN_PASSWORD not set; no admin account will be created.');
+    return;
+  }
+  const existing = await query('SELECT id FROM admins WHERE username = $1', [ADMIN_USERNAME]);
+  if (existing.rows.length > 0) return;
+  const passwordHash = await hashPassword(ADMIN_PASSWORD);
+  await query(
+    'INSERT INTO admins (id, username, "passwordHash") VALUES ($1, $2, $3)',
+    [`a_${crypto.randomUUID()}`, ADMIN_USERNAME, passwordHash]
+  );
+  console.log(`Created admin account "${ADMIN_USERNAME}".`);
+};
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  generateToken,
+  hashToken,
+  createSession,
+  destroySession,
+  authenticate,
+  requireRole,
+  requireAdmin,
+  ensureAdminAccount,
+};
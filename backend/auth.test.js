@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashPassword } from './auth';
+import { hashToken, startTestServer } from './testServer';
+
+let api;
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('admin login', () => {
+  beforeEach(async () => {
+    const passwordHash = await hashPassword('correct horse');
+    api.db.on(/FROM admins WHERE username/, ([username]) => (username === 'admin' ? [{ id: 'a1', passwordHash }] : []));
+  });
+
+  it('opens a session for the right password', async () => {
+    const { status, body } = await api.request('POST', '/auth/admin', { body: { username: 'admin', password: 'correct horse' } });
+    expect(status).toBe(200);
+    expect(body.user).toEqual({ role: 'admin', id: 'a1' });
+    // Only the digest of the token is stored.
+    const [insert] = api.db.callsTo(/INSERT INTO sessions/);
+    expect(insert.params.slice(0, 3)).toEqual([hashToken(body.token), 'admin', 'a1']);
+  });
+
+  it('rejects a wrong password or an unknown user the same way', async () => {
+    const wrongPassword = await api.request('POST', '/auth/admin', { body: { username: 'admin', password: 'battery staple' } });
+    const unknownUser = await api.request('POST', '/auth/admin', { body: { username: 'root', password: 'correct horse' } });
+    expect(wrongPassword).toEqual({ status: 401, body: { message: 'Invalid username or password' } });
+    expect(unknownUser).toEqual(wrongPassword);
+    expect(api.db.callsTo(/INSERT INTO sessions/)).toHaveLength(0);
+  });
+});
+
+describe('judge login', () => {
+  beforeEach(() => {
+    api.db.on(/FROM judge_invites WHERE "tokenHash"/, ([tokenHash]) => (tokenHash === hashToken('invite-1') ? [{ judgeId: 'j1' }] : []));
+  });
+
+  it('opens a session for a valid invite code', async () => {
+    const { status, body } = await api.request('POST', '/auth/judge', { body: { inviteCode: 'invite-1' } });
+    expect(status).toBe(200);
+    expect(body.user).toEqual({ role: 'judge', id: 'j1' });
+  });
+
+  it('rejects a missing or revoked invite code', async () => {
+    expect((await api.request('POST', '/auth/judge', { body: {} })).status).toBe(401);
+    expect((await api.request('POST', '/auth/judge', { body: { inviteCode: 'invite-0' } })).status).toBe(401);
+  });
+});
+
+describe('sessions', () => {
+  it('are required by every other route', async () => {
+    expect(await api.request('GET', '/events')).toEqual({ status: 401, body: { message: 'Authentication required' } });
+    expect((await api.request('GET', '/events', { token: 'made-up' })).status).toBe(401);
+  });
+
+  it('identify the user', async () => {
+    const token = api.signIn('judge', 'j1');
+    expect(await api.request('GET', '/auth/me', { token })).toEqual({ status: 200, body: { user: { role: 'judge', id: 'j1' } } });
+  });
+
+  it('end on logout', async () => {
+    const token = api.signIn('admin', 'a1');
+    expect((await api.request('POST', '/auth/logout', { token })).status).toBe(200);
+    const [deletion] = api.db.callsTo(/DELETE FROM sessions WHERE "tokenHash"/);
+    expect(deletion.params).toEqual([hashToken(token)]);
+  });
+});
+
+describe('roles', () => {
+  it('keep judges out of admin routes', async () => {
+    const token = api.signIn('judge', 'j1');
+    const { status } = await api.request('POST', '/events', { token, body: { name: 'Side Event' } });
+    expect(status).toBe(403);
+    expect(api.db.callsTo(/INSERT INTO events/)).toHaveLength(0);
+  });
+
+  it('keep judges out of other events', async () => {
+    api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Other', phase: 'judging' }]);
+    const token = api.signIn('judge', 'j1');
+    const { status } = await api.request('GET', '/events/e2/data', { token });
+    expect(status).toBe(403);
+  });
+
+  it('show judges only their own event', async () => {
+    api.db.on(/FROM events e JOIN judges j/, ([judgeId]) => (judgeId === 'j1' ? [{ id: 'e1', name: 'Hack' }] : []));
+    const token = api.signIn('judge', 'j1');
+    expect(await api.request('GET', '/events', { token })).toEqual({ status: 200, body: [{ id: 'e1', name: 'Hack' }] });
+  });
+});
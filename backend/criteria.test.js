@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+// The submitted values the fake scores table holds for the criterion.
+let submitted;
+
+// Criterion c1 of event e1, scored 0-10 in whole points.
+const stored = { id: 'c1', eventId: 'e1', name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, isGate: false, trackIds: [], version: 1 };
+const edit = (changes) => ({ name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [], ...changes });
+
+const updateCriterion = (changes) => api.request('PUT', '/events/e1/criteria/c1', { token, body: edit(changes) });
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('admin', 'a1');
+  submitted = [7, 4];
+  api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Hack', phase: 'judging', version: 1 }]);
+  api.db.on(/SELECT id FROM tracks WHERE "eventId"/, () => [{ id: 't1' }]);
+  api.db.on(/SELECT id FROM trl_bands/, () => [{ id: 'b1' }]);
+  api.db.on(/SELECT id FROM criteria WHERE "eventId"/, () => [{ id: 'c1' }]);
+  api.db.on(/SELECT \* FROM criteria WHERE id/, () => [stored]);
+  api.db.on(/FROM scores WHERE "eventId" = \$1 AND status = 'submitted'/, () => submitted.map(value => ({ value })));
+  api.db.on(/UPDATE criteria SET/, (params) => [{ ...stored, scaleMin: params[3], scaleMax: params[4], scaleStep: params[5], isGate: params[7], version: 2 }]);
+});
+
+describe('changing the scale of a criterion', () => {
+  it('is allowed while every submitted score still fits', async () => {
+    const { status, body } = await updateCriterion({ scaleMax: 20 });
+    expect(status).toBe(200);
+    expect(body.scaleMax).toBe(20);
+  });
+
+  it('is refused when a submitted score would fall off the new scale', async () => {
+    const { status, body } = await updateCriterion({ scaleMax: 5 });
+    expect(status).toBe(409);
+    expect(body.message).toMatch(/^1 submitted score is not between 0 and 5/);
+    expect(api.db.callsTo(/UPDATE criteria SET/)).toHaveLength(0);
+  });
+
+  it('is refused when turning a scored criterion into a gate', async () => {
+    submitted = [1, 0, 4];
+    const { status } = await updateCriterion({ weight: { b1: 0 }, scaleMax: 1, isGate: true });
+    expect(status).toBe(409);
+  });
+
+  it('does not look at the scores when the scale stays the same', async () => {
+    submitted = [42];
+    expect((await updateCriterion({ name: 'Reach' })).status).toBe(200);
+    expect(api.db.callsTo(/FROM scores/)).toHaveLength(0);
+  });
+});
@@ -12,4 +12,24 @@ const pool = new Pool({
 });
 
 // Export a query function that will be used throughout the app
-module.exports = (text, params) => pool.query(text, params);
+const query = (text, params) => pool.query(text, params);
+
+// Runs `work` inside one transaction on a dedicated client. `work` receives a query function bound to
+// that client; the transaction commits if `work` resolves and rolls back if it throws.
+const transaction = async (work) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work((text, params) => client.query(text, params));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+module.exports = query;
+module.exports.transaction = transaction;
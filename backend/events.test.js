@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('admin', 'a1');
+  api.db.on(/INSERT INTO events/, ([id, name]) => [{ id, name, reviewsPerProject: 3 }]);
+  api.db.on(/UPDATE events e SET/, ([id]) => [{ id, name: 'Copy', reviewsPerProject: 5 }]);
+  api.db.on(/SELECT \* FROM tracks WHERE "eventId"/, () => [{ id: 't1', name: 'Health' }]);
+  api.db.on(/SELECT \* FROM criteria WHERE "eventId"/, () => [
+    { id: 'c1', name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, rubric: null, isGate: false, trackIds: ['t1'] },
+  ]);
+  api.db.on(/INSERT INTO tracks/, ([id, eventId, name]) => [{ id, eventId, name }]);
+  api.db.on(/INSERT INTO criteria/, ([id, eventId, name]) => [{ id, eventId, name }]);
+});
+
+describe('cloning an event', () => {
+  it('copies the settings, tracks and criteria in one transaction', async () => {
+    const { status, body } = await api.request('POST', '/events', { token, body: { name: 'Copy', cloneFromEventId: 'e1' } });
+    expect(status).toBe(201);
+    expect(body.reviewsPerProject).toBe(5);
+    const [statements] = api.db.transactions();
+    expect(statements.filter(text => /INSERT|UPDATE/.test(text))).toEqual([
+      expect.stringMatching(/INSERT INTO events/),
+      expect.stringMatching(/UPDATE events e SET/),
+      expect.stringMatching(/INSERT INTO tracks/),
+      expect.stringMatching(/INSERT INTO criteria/),
+    ]);
+    // The copied criterion targets the copied track.
+    const [track] = api.db.callsTo(/INSERT INTO tracks/);
+    const [criterion] = api.db.callsTo(/INSERT INTO criteria/);
+    expect(criterion.params[10]).toEqual([track.params[0]]);
+    expect(api.db.callsTo(/INSERT INTO audit_log/)).toHaveLength(4);
+  });
+
+  it('rolls everything back when a copy fails', async () => {
+    api.db.on(/INSERT INTO criteria/, () => {
+      throw new Error('connection lost');
+    });
+    const { status } = await api.request('POST', '/events', { token, body: { name: 'Copy', cloneFromEventId: 'e1' } });
+    expect(status).toBe(500);
+    expect(api.db.calls.map(call => call.text)).toContain('ROLLBACK');
+    expect(api.db.callsTo(/INSERT INTO audit_log/)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+// backend/liveUpdates.js
+// Live updates over Server-Sent Events. Each signed-in client keeps one stream open for the event it is viewing
+// and receives every change other users make there, so dashboards stay current without reloading.
+
+const HEARTBEAT_MS = 25000; // Keeps proxies from closing idle streams
+const RETRY_MS = 3000;      // How long the browser waits before reconnecting a dropped stream
+const MAX_TIMEOUT_MS = 2 ** 31 - 1; // Longer timeouts fire at once
+
+// Judges only ever see their own rows of these tables, the same as in GET /data, and none of the admin-only ones.
+const JUDGE_PRIVATE_ENTITIES = new Set(['scores', 'assignments', 'conflicts']);
+const ADMIN_ONLY_ENTITIES = new Set(['resultSnapshots', 'weightSets']);
+
+// eventId -> Set of { res, user }
+const clients = new Map();
+
+const canSee = (user, entity, row) =>
+  user.role === 'admin' || (!ADMIN_ONLY_ENTITIES.has(entity) && (!JUDGE_PRIVATE_ENTITIES.has(entity) || row.judgeId === user.id));
+
+const send = (client, change) => {
+  client.res.write(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+};
+
+// Route handler for GET /api/events/:eventId/stream; `loadEvent` has already checked access to the event.
+const openStream = (req, res) => {
+  const { eventId } = req.params;
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  // The stream ends with the session that opened it; the browser's reconnect is then refused.
+  const expiry = req.sessionExpiresAt
+    ? setTimeout(() => client.end(), Math.min(Math.max(0, req.sessionExpiresAt - Date.now()), MAX_TIMEOUT_MS))
+    : null;
+  const remove = () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    const eventClients = clients.get(eventId);
+    if (!eventClients) return;
+    eventClients.delete(client);
+    if (eventClients.size === 0) clients.delete(eventId);
+  };
+  const client = {
+    res,
+    user: req.user,
+    sessionToken: req.sessionToken,
+    end: () => {
+      remove();
+      res.end();
+    },
+  };
+  if (!clients.has(eventId)) clients.set(eventId, new Set());
+  clients.get(eventId).add(client);
+  req.on('close', remove);
+};
+
+// Ends the streams opened with a session that no longer exists: `{ sessionToken }` after a logout, or
+// `{ role, userId }` once all of a user's sessions are deleted.
+const closeStreams = ({ sessionToken, role, userId }) => {
+  clients.forEach(eventClients => [...eventClients].forEach(client => {
+    const matches = sessionToken
+      ? client.sessionToken === sessionToken
+      : client.user.role === role && client.user.id === userId;
+    if (matches) client.end();
+  }));
+};
+
+/**
+ * Pushes `{ entity, action, data }` to the clients of an event, or of every event when `eventId` is null
+ * (TRL bands are shared). `action` is `upsert` or `delete` with the affected row as `data`, or `replace`
+ * with the full list of rows. Judges are sent only the private rows that belong to them.
+ */
+const broadcast = (eventId, entity, action, data) => {
+  const targets = eventId ? [clients.get(eventId) || new Set()] : [...clients.values()];
+  targets.forEach(eventClients => eventClients.forEach(client => {
+    if (action === 'replace') {
+      send(client, { entity, action, data: data.filter(row => canSee(client.user, entity, row)) });
+    } else if (canSee(client.user, entity, data)) {
+      send(client, { entity, action, data });
+    }
+  }));
+};
+
+module.exports = {
+  openStream,
+  broadcast,
+  closeStreams,
+};
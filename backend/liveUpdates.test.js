@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+const streams = [];
+
+// Opens the live update stream of event e1 and reads it as text, chunk by chunk.
+const openStream = async (token) => {
+  const controller = new AbortController();
+  const response = await fetch(`${api.baseUrl}/events/e1/stream?token=${token}`, { signal: controller.signal });
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const stream = {
+    status: response.status,
+    read: async () => {
+      const { done, value } = await reader.read();
+      return done ? null : decoder.decode(value);
+    },
+    // Resolves once the server ends the stream.
+    readToEnd: async () => {
+      while ((await stream.read()) !== null);
+    },
+    close: () => controller.abort(),
+  };
+  streams.push(stream);
+  await stream.read(); // The retry interval
+  return stream;
+};
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+const closeStreams = () => streams.splice(0).forEach(stream => stream.close());
+
+afterAll(() => {
+  closeStreams();
+  return api.close();
+});
+
+beforeEach(() => {
+  closeStreams();
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Hack', phase: 'judging', version: 1 }]);
+  api.db.on(/SELECT id FROM judges WHERE id = \$1 AND "eventId"/, ([id]) => [{ id }]);
+  api.db.on(/DELETE FROM judges/, ([id]) => [{ id, name: 'Ada', tracks: [] }]);
+});
+
+describe('live update streams', () => {
+  it('send changes to the clients of the event', async () => {
+    const adminToken = api.signIn('admin', 'a1');
+    const stream = await openStream(adminToken);
+    await api.request('DELETE', '/events/e1/judges/j1', { token: api.signIn('admin', 'a1') });
+    const chunk = await stream.read();
+    expect(chunk).toContain('event: change');
+    expect(JSON.parse(chunk.split('data: ')[1])).toMatchObject({ entity: 'judges', action: 'delete', data: { id: 'j1' } });
+  });
+
+  it('end on logout, leaving the other sessions of the user open', async () => {
+    const token = api.signIn('admin', 'a1');
+    const otherToken = api.signIn('admin', 'a1');
+    const stream = await openStream(token);
+    const otherStream = await openStream(otherToken);
+    await api.request('POST', '/auth/logout', { token });
+    expect(await stream.read()).toBeNull();
+    await api.request('DELETE', '/events/e1/judges/j1', { token: otherToken });
+    expect(await otherStream.read()).toContain('event: change');
+  });
+
+  it('end when the judge is deleted or their invite is revoked', async () => {
+    const adminToken = api.signIn('admin', 'a1');
+    const deletedJudgeStream = await openStream(api.signIn('judge', 'j1'));
+    const revokedJudgeStream = await openStream(api.signIn('judge', 'j2'));
+    await api.request('DELETE', '/events/e1/judges/j1', { token: adminToken });
+    expect(await deletedJudgeStream.read()).toBeNull();
+    await api.request('POST', '/events/e1/judges/j2/invite', { token: adminToken });
+    // The other judge first hears of the deletion.
+    await revokedJudgeStream.readToEnd();
+  });
+});
@@ -0,0 +1,20 @@
+-- Adds admin accounts, judge invite codes and session tokens.
+
+CREATE TABLE IF NOT EXISTS admins (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    "passwordHash" TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS judge_invites (
+    "judgeId" TEXT PRIMARY KEY REFERENCES judges(id) ON DELETE CASCADE,
+    "tokenHash" TEXT NOT NULL UNIQUE,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+    "tokenHash" TEXT PRIMARY KEY,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'judge')),
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMPTZ NOT NULL
+);
@@ -0,0 +1,45 @@
+-- Moves tracks and TRL bands from compile-time constants into the database.
+-- Projects, judges, scores and criterion weights switch from display names to ids.
+
+CREATE TABLE IF NOT EXISTS tracks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS trl_bands (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    position INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO tracks (id, name) VALUES
+    ('t_ai_depin', 'AI and Depin'),
+    ('t_onchain_finance_rwa', 'Onchain Finance & RWA'),
+    ('t_dlt_operations', 'DLT for Operations'),
+    ('t_immersive', 'Immersive Experiences'),
+    ('t_cross_chain', 'Cross-Chain Track')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO trl_bands (id, name, position) VALUES
+    ('ideation', 'Ideation (TRL 1-3)', 1),
+    ('prototype', 'Prototype (TRL 4-6)', 2)
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE projects p SET track = t.id FROM tracks t WHERE p.track = t.name;
+
+UPDATE judges SET tracks = ARRAY(
+    SELECT COALESCE(t.id, jt.name)
+    FROM unnest(judges.tracks) WITH ORDINALITY AS jt(name, ord)
+    LEFT JOIN tracks t ON t.name = jt.name
+    ORDER BY jt.ord
+);
+
+UPDATE projects p SET trl = b.id FROM trl_bands b WHERE p.trl = b.name;
+
+UPDATE scores s SET "juryTrl" = b.id FROM trl_bands b WHERE s."juryTrl" = b.name;
+
+UPDATE criteria c SET weight = (
+    SELECT COALESCE(jsonb_object_agg(COALESCE(b.id, w.key), w.value), '{}'::jsonb)
+    FROM jsonb_each(c.weight) w
+    LEFT JOIN trl_bands b ON b.name = w.key
+);
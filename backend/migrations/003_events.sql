@@ -0,0 +1,34 @@
+-- Adds events so one deployment can host many hackathons.
+-- Existing rows are moved into a default event; TRL bands stay shared by every event.
+
+CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO events (id, name) VALUES
+    ('e_default', 'Hedera Africa Hackathon')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE tracks ADD COLUMN IF NOT EXISTS "eventId" TEXT REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS "eventId" TEXT REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE judges ADD COLUMN IF NOT EXISTS "eventId" TEXT REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "eventId" TEXT REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS "eventId" TEXT REFERENCES events(id) ON DELETE CASCADE;
+
+UPDATE tracks SET "eventId" = 'e_default' WHERE "eventId" IS NULL;
+UPDATE projects SET "eventId" = 'e_default' WHERE "eventId" IS NULL;
+UPDATE judges SET "eventId" = 'e_default' WHERE "eventId" IS NULL;
+UPDATE criteria SET "eventId" = 'e_default' WHERE "eventId" IS NULL;
+UPDATE scores SET "eventId" = 'e_default' WHERE "eventId" IS NULL;
+
+ALTER TABLE tracks ALTER COLUMN "eventId" SET NOT NULL;
+ALTER TABLE projects ALTER COLUMN "eventId" SET NOT NULL;
+ALTER TABLE judges ALTER COLUMN "eventId" SET NOT NULL;
+ALTER TABLE criteria ALTER COLUMN "eventId" SET NOT NULL;
+ALTER TABLE scores ALTER COLUMN "eventId" SET NOT NULL;
+
+-- Track names only need to be unique within their event.
+ALTER TABLE tracks DROP CONSTRAINT IF EXISTS tracks_name_key;
+ALTER TABLE tracks ADD CONSTRAINT tracks_eventId_name_key UNIQUE ("eventId", name);
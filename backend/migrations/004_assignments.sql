@@ -0,0 +1,31 @@
+-- Adds explicit judge-to-project assignments with per-event coverage targets,
+-- and the conflict-of-interest declarations that auto-assign avoids.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS "reviewsPerProject" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS "maxLoadPerJudge" INTEGER;
+
+CREATE TABLE IF NOT EXISTS assignments (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    "judgeId" TEXT NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+    "projectId" TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    UNIQUE ("judgeId", "projectId")
+);
+
+CREATE TABLE IF NOT EXISTS conflicts (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    "judgeId" TEXT NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+    "projectId" TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    reason TEXT,
+    "declaredBy" TEXT NOT NULL CHECK ("declaredBy" IN ('admin', 'judge')),
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE ("judgeId", "projectId")
+);
+
+-- Keep today's behaviour for existing events: every judge stays assigned to every project in their tracks.
+INSERT INTO assignments (id, "eventId", "judgeId", "projectId")
+SELECT 'as_' || j.id || '_' || p.id, p."eventId", j.id, p.id
+FROM judges j
+JOIN projects p ON p."eventId" = j."eventId" AND p.track = ANY(j.tracks)
+ON CONFLICT ("judgeId", "projectId") DO NOTHING;
@@ -0,0 +1,3 @@
+-- Lets imports match projects on the organiser's own team or project id instead of the name.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS "externalKey" TEXT;
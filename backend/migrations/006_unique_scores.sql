@@ -0,0 +1,12 @@
+-- One score per judge and project. Score ids used to be generated by the browser, so a double submit or a
+-- second tab could store two scores for the same pair and both were counted in the rankings.
+
+-- Keep the newest score of each pair. The old ids end in the submit time in milliseconds, so within a pair
+-- the largest id is the most recent one.
+DELETE FROM scores s
+USING scores newer
+WHERE newer."projectId" = s."projectId"
+  AND newer."judgeId" = s."judgeId"
+  AND newer.id > s.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "scores_projectId_judgeId_key" ON scores ("projectId", "judgeId");
@@ -0,0 +1,10 @@
+-- Adds a version to every editable row. Each update increments it, and clients send the version they edited
+-- in `If-Match` so a save based on a stale copy is refused instead of silently overwriting someone else's edit.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tracks ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE trl_bands ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE judges ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
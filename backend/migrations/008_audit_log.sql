@@ -0,0 +1,31 @@
+-- An append-only record of every change made through the API, so disputes can be settled after results are
+-- announced. Entries keep the actor's name and the row as JSON, and have no foreign keys, so they outlive
+-- the judges and rows they describe.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT,              -- NULL for TRL bands, which are shared by every event
+    "actorRole" TEXT NOT NULL CHECK ("actorRole" IN ('admin', 'judge')),
+    "actorId" TEXT NOT NULL,
+    "actorName" TEXT,
+    entity TEXT NOT NULL,        -- e.g. 'scores' or 'criteria'
+    "entityId" TEXT,             -- NULL when a whole list is replaced
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'replace', 'invite')),
+    before JSONB,
+    after JSONB,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_eventId_createdAt_idx" ON audit_log ("eventId", "createdAt");
+
+-- Entries can be added but never changed or removed.
+CREATE OR REPLACE FUNCTION reject_audit_log_change() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION reject_audit_log_change();
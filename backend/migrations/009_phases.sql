@@ -0,0 +1,37 @@
+-- Evaluation phases. An event moves through setup -> judging -> deliberation -> published, and scores can
+-- only be written while judging, or during deliberation by a judge the admin has unlocked.
+
+-- Existing events are mid-judging, so they start there; new events start in setup.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS phase TEXT NOT NULL DEFAULT 'judging'
+    CHECK (phase IN ('setup', 'judging', 'deliberation', 'published'));
+ALTER TABLE events ALTER COLUMN phase SET DEFAULT 'setup';
+
+ALTER TABLE judges ADD COLUMN IF NOT EXISTS "scoringUnlocked" BOOLEAN NOT NULL DEFAULT false;
+
+-- The rankings as they were when an event's results were published. Like the audit log, never changed or removed.
+CREATE TABLE IF NOT EXISTS result_snapshots (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id),
+    results JSONB NOT NULL,  -- ProjectResult[] from the frontend's ranking
+    options JSONB NOT NULL,  -- the RankingOptions that produced them
+    "publishedBy" TEXT NOT NULL,
+    "publishedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One trigger function now guards both append-only tables and names the table in its error.
+CREATE OR REPLACE FUNCTION reject_append_only_change() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION reject_append_only_change();
+DROP FUNCTION IF EXISTS reject_audit_log_change();
+
+DROP TRIGGER IF EXISTS result_snapshots_append_only ON result_snapshots;
+CREATE TRIGGER result_snapshots_append_only
+    BEFORE UPDATE OR DELETE ON result_snapshots
+    FOR EACH ROW EXECUTE FUNCTION reject_append_only_change();
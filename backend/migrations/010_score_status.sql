@@ -0,0 +1,5 @@
+-- Scores are autosaved as drafts while a judge works on them and only count once submitted.
+-- Every existing score was saved through an explicit submit, so they all start out submitted.
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'submitted'
+    CHECK (status IN ('draft', 'submitted'));
+ALTER TABLE scores ALTER COLUMN status SET DEFAULT 'draft';
@@ -0,0 +1,29 @@
+-- Named, numbered copies of an event's criteria weights. The active set is stamped on every score as it is
+-- submitted, so results can use the weights that applied at the time even after the criteria are edited.
+CREATE TABLE IF NOT EXISTS weight_sets (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,  -- 1, 2, 3... within the event
+    name TEXT NOT NULL,
+    weights JSONB NOT NULL,   -- { [criteria.id]: { [trl_bands.id]: percentage } }
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT,         -- the admin who saved it; NULL for the sets created below
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE ("eventId", number)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "weight_sets_eventId_active_idx" ON weight_sets ("eventId") WHERE "isActive";
+
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS "weightSetId" TEXT REFERENCES weight_sets(id) ON DELETE SET NULL;
+
+-- Every event with criteria starts with its current weights as set 1, and the scores submitted so far are
+-- pinned to it, so existing rankings do not change.
+INSERT INTO weight_sets (id, "eventId", number, name, weights, "isActive")
+SELECT 'ws_' || c."eventId", c."eventId", 1, 'Initial weights', jsonb_object_agg(c.id, c.weight), true
+FROM criteria c
+GROUP BY c."eventId"
+ON CONFLICT DO NOTHING;
+
+UPDATE scores s SET "weightSetId" = w.id
+FROM weight_sets w
+WHERE w."eventId" = s."eventId" AND w.number = 1 AND s.status = 'submitted' AND s."weightSetId" IS NULL;
@@ -0,0 +1,9 @@
+-- Richer criterion definitions: a description, a scoring scale of its own, rubric anchors describing what
+-- particular scores mean, and pass/fail gates. Existing criteria keep the 0-10 scale they were scored on.
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "scaleMin" DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "scaleMax" DOUBLE PRECISION NOT NULL DEFAULT 10;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "scaleStep" DOUBLE PRECISION NOT NULL DEFAULT 1;
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS rubric JSONB NOT NULL DEFAULT '[]';
+-- A gate is scored 0 (fail) or 1 (pass), carries no weight, and disqualifies a project most of its judges fail.
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "isGate" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- A criterion can target some tracks only, e.g. a sponsor track's extra criteria. Existing criteria keep applying
+-- to every track.
+ALTER TABLE criteria ADD COLUMN IF NOT EXISTS "trackIds" TEXT[] NOT NULL DEFAULT '{}'; -- tracks.id values; empty means every track
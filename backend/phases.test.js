@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+// The event phase the fake events table reports.
+let phase;
+
+const changePhase = (body) => api.request('PUT', '/events/e1/phase', { token, body });
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('admin', 'a1');
+  phase = 'judging';
+  api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Hack', phase, version: 1 }]);
+  api.db.on(/UPDATE events SET phase/, ([next, id]) => [{ id, name: 'Hack', phase: next, version: 2 }]);
+});
+
+describe('phase changes', () => {
+  it('follow setup, judging, deliberation, published', async () => {
+    const { status, body } = await changePhase({ phase: 'deliberation' });
+    expect(status).toBe(200);
+    expect(body.phase).toBe('deliberation');
+  });
+
+  it('cannot skip a phase or leave published', async () => {
+    expect((await changePhase({ phase: 'published' })).status).toBe(409);
+    phase = 'published';
+    expect((await changePhase({ phase: 'judging' })).status).toBe(409);
+    expect(api.db.callsTo(/UPDATE events SET phase/)).toHaveLength(0);
+  });
+
+  it('lock every unlocked judge again', async () => {
+    phase = 'deliberation';
+    api.db.on(/UPDATE judges SET "scoringUnlocked" = false/, () => [{ id: 'j1', scoringUnlocked: false }]);
+    expect((await changePhase({ phase: 'judging' })).status).toBe(200);
+    const [statements] = api.db.transactions();
+    expect(statements).toContainEqual(expect.stringMatching(/UPDATE judges SET "scoringUnlocked" = false/));
+  });
+});
+
+describe('publishing', () => {
+  const options = { trlPolicy: 'admin', normalization: 'raw', normalizationScope: 'judge', weighting: 'current', tieBreakers: [] };
+
+  beforeEach(() => {
+    phase = 'deliberation';
+    api.db.on(/SELECT \* FROM projects WHERE "eventId"/, () => [
+      { id: 'p1', name: 'Pulse', description: '', track: 't1', trl: 'b1' },
+      { id: 'p2', name: 'Grid', description: '', track: 't1', trl: 'b1' },
+    ]);
+    api.db.on(/SELECT \* FROM criteria WHERE "eventId"/, () => [
+      { id: 'c1', name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, isGate: false, trackIds: [] },
+    ]);
+    api.db.on(/SELECT \* FROM scores WHERE "eventId"/, () => [
+      { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 4 }, status: 'submitted' },
+      { id: 's2', projectId: 'p2', judgeId: 'j1', criteriaScores: { c1: 9 }, status: 'submitted' },
+      { id: 's3', projectId: 'p1', judgeId: 'j2', criteriaScores: { c1: 10 }, status: 'draft' },
+    ]);
+    api.db.on(/INSERT INTO result_snapshots/, ([id, eventId, results, storedOptions]) =>
+      [{ id, eventId, results: JSON.parse(results), options: JSON.parse(storedOptions) }]);
+  });
+
+  it('ranks the stored scores on the server', async () => {
+    // Whatever else the client sends is ignored.
+    const { status } = await changePhase({ phase: 'published', options, snapshot: { results: [{ rank: 1, project: { id: 'p1' } }] } });
+    expect(status).toBe(200);
+    const [insert] = api.db.callsTo(/INSERT INTO result_snapshots/);
+    const results = JSON.parse(insert.params[2]);
+    expect(results.map(r => [r.project.id, r.rank, r.finalScore])).toEqual([['p2', 1, 90], ['p1', 2, 40]]);
+    expect(JSON.parse(insert.params[3])).toEqual(options);
+    // The snapshot is written in the same transaction as the phase change.
+    const [statements] = api.db.transactions();
+    expect(statements).toContainEqual(expect.stringMatching(/INSERT INTO result_snapshots/));
+  });
+
+  it('requires valid ranking options', async () => {
+    expect((await changePhase({ phase: 'published' })).status).toBe(400);
+    expect((await changePhase({ phase: 'published', options: { ...options, normalization: 'median' } })).status).toBe(400);
+    expect(api.db.callsTo(/UPDATE events SET phase/)).toHaveLength(0);
+  });
+});
+
+describe('published results', () => {
+  it('freeze the projects, judges and criteria', async () => {
+    phase = 'published';
+    const writes = [
+      ['POST', '/events/e1/projects', []],
+      ['PUT', '/events/e1/projects/p1', { name: 'Pulse', track: 't1', trl: 'b1' }],
+      ['DELETE', '/events/e1/projects/p1'],
+      ['POST', '/events/e1/judges', { name: 'Ada', tracks: [] }],
+      ['PUT', '/events/e1/judges/j1', { name: 'Ada', tracks: [] }],
+      ['DELETE', '/events/e1/judges/j1'],
+      ['POST', '/events/e1/criteria', { name: 'Impact', weight: {} }],
+      ['PUT', '/events/e1/criteria/c1', { name: 'Impact', weight: {} }],
+      ['DELETE', '/events/e1/criteria/c1'],
+    ];
+    for (const [method, path, body] of writes) {
+      const { status, body: response } = await api.request(method, path, { token, body });
+      expect(status, `${method} ${path}`).toBe(409);
+      expect(response.message).toMatch(/published/);
+    }
+    expect(api.db.callsTo(/INSERT|UPDATE|DELETE/)).toHaveLength(0);
+  });
+});
@@ -1 +1,210 @@
-��뢛ZnW���a{'���m��Z�
\ No newline at end of file
+-- backend/schema.sql
+-- Full schema for a fresh database. Existing databases should apply the files in `migrations/` instead.
+
+-- Each event is one hackathon; everything except TRL bands belongs to exactly one event.
+-- Editable rows carry a `version` that every update increments, so concurrent edits can be detected.
+-- An event moves through setup -> judging -> deliberation -> published; scores can only be written while judging.
+CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    phase TEXT NOT NULL DEFAULT 'setup' CHECK (phase IN ('setup', 'judging', 'deliberation', 'published')),
+    "reviewsPerProject" INTEGER NOT NULL DEFAULT 2, -- target number of judges per project
+    "maxLoadPerJudge" INTEGER,                      -- NULL means no limit
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS tracks (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    UNIQUE ("eventId", name)
+);
+
+CREATE TABLE IF NOT EXISTS trl_bands (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    position INTEGER NOT NULL DEFAULT 0,
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    track TEXT NOT NULL, -- tracks.id
+    trl TEXT NOT NULL,   -- trl_bands.id
+    links JSONB,
+    "externalKey" TEXT,  -- organiser's team or project id, used to match re-imports
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS judges (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    tracks TEXT[] NOT NULL DEFAULT '{}', -- tracks.id values
+    "scoringUnlocked" BOOLEAN NOT NULL DEFAULT false, -- lets the judge score during deliberation; cleared on every phase change
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS criteria (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    weight JSONB NOT NULL, -- { [trl_bands.id]: percentage }
+    "scaleMin" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "scaleMax" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "scaleStep" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    rubric JSONB NOT NULL DEFAULT '[]', -- [{ score, description }], anchors on the scale
+    "isGate" BOOLEAN NOT NULL DEFAULT false, -- scored 0 (fail) or 1 (pass), with no weight
+    "trackIds" TEXT[] NOT NULL DEFAULT '{}', -- tracks.id values the criterion applies to; empty means every track
+    version INTEGER NOT NULL DEFAULT 1
+);
+
+-- Named, numbered copies of an event's criteria weights. The active set is stamped on every score as it is
+-- submitted, so results can use the weights that applied at the time even after the criteria are edited.
+CREATE TABLE IF NOT EXISTS weight_sets (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,  -- 1, 2, 3... within the event
+    name TEXT NOT NULL,
+    weights JSONB NOT NULL,   -- { [criteria.id]: { [trl_bands.id]: percentage } }
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT,         -- the admin who saved it; NULL for sets created by a migration or the seed data
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE ("eventId", number)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "weight_sets_eventId_active_idx" ON weight_sets ("eventId") WHERE "isActive";
+
+CREATE TABLE IF NOT EXISTS scores (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    "projectId" TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    "judgeId" TEXT NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+    "criteriaScores" JSONB NOT NULL DEFAULT '{}',
+    "juryTrl" TEXT,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted')), -- only submitted scores are ranked
+    "weightSetId" TEXT REFERENCES weight_sets(id) ON DELETE SET NULL, -- the active weight set when it was submitted
+    version INTEGER NOT NULL DEFAULT 1,
+    UNIQUE ("projectId", "judgeId") -- One score per judge and project
+);
+
+-- Which judge reviews which project; judges can only score projects assigned to them.
+CREATE TABLE IF NOT EXISTS assignments (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    "judgeId" TEXT NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+    "projectId" TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    UNIQUE ("judgeId", "projectId")
+);
+
+-- Declared conflicts of interest; a conflicted judge is never assigned to the project.
+CREATE TABLE IF NOT EXISTS conflicts (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    "judgeId" TEXT NOT NULL REFERENCES judges(id) ON DELETE CASCADE,
+    "projectId" TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    reason TEXT,
+    "declaredBy" TEXT NOT NULL CHECK ("declaredBy" IN ('admin', 'judge')),
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE ("judgeId", "projectId")
+);
+
+-- Append-only record of every change made through the API. No foreign keys, so entries outlive what they describe.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT,              -- NULL for TRL bands, which are shared by every event
+    "actorRole" TEXT NOT NULL CHECK ("actorRole" IN ('admin', 'judge')),
+    "actorId" TEXT NOT NULL,
+    "actorName" TEXT,
+    entity TEXT NOT NULL,        -- e.g. 'scores' or 'criteria'
+    "entityId" TEXT,             -- NULL when a whole list is replaced
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'replace', 'invite')),
+    before JSONB,
+    after JSONB,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_eventId_createdAt_idx" ON audit_log ("eventId", "createdAt");
+
+-- The rankings as they were when an event's results were published. Like the audit log, never changed or removed.
+CREATE TABLE IF NOT EXISTS result_snapshots (
+    id TEXT PRIMARY KEY,
+    "eventId" TEXT NOT NULL REFERENCES events(id),
+    results JSONB NOT NULL,  -- ProjectResult[], ranked by the server from the scores when published
+    options JSONB NOT NULL,  -- the RankingOptions that produced them
+    "publishedBy" TEXT NOT NULL,
+    "publishedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION reject_append_only_change() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION reject_append_only_change();
+
+DROP TRIGGER IF EXISTS result_snapshots_append_only ON result_snapshots;
+CREATE TRIGGER result_snapshots_append_only
+    BEFORE UPDATE OR DELETE ON result_snapshots
+    FOR EACH ROW EXECUTE FUNCTION reject_append_only_change();
+
+-- Authentication
+CREATE TABLE IF NOT EXISTS admins (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    "passwordHash" TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS judge_invites (
+    "judgeId" TEXT PRIMARY KEY REFERENCES judges(id) ON DELETE CASCADE,
+    "tokenHash" TEXT NOT NULL UNIQUE,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+    "tokenHash" TEXT PRIMARY KEY,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'judge')),
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMPTZ NOT NULL
+);
+
+-- Seed data
+INSERT INTO events (id, name) VALUES
+    ('e_default', 'Hedera Africa Hackathon')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO tracks (id, "eventId", name) VALUES
+    ('t_ai_depin', 'e_default', 'AI and Depin'),
+    ('t_onchain_finance_rwa', 'e_default', 'Onchain Finance & RWA'),
+    ('t_dlt_operations', 'e_default', 'DLT for Operations'),
+    ('t_immersive', 'e_default', 'Immersive Experiences'),
+    ('t_cross_chain', 'e_default', 'Cross-Chain Track')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO trl_bands (id, name, position) VALUES
+    ('ideation', 'Ideation (TRL 1-3)', 1),
+    ('prototype', 'Prototype (TRL 4-6)', 2)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO criteria (id, "eventId", name, weight) VALUES
+    ('c1', 'e_default', 'Technical Innovation & Complexity', '{"ideation": 25, "prototype": 30}'),
+    ('c2', 'e_default', 'Hedera Integration & Use Case', '{"ideation": 30, "prototype": 30}'),
+    ('c3', 'e_default', 'Feasibility & Business Potential', '{"ideation": 25, "prototype": 20}'),
+    ('c4', 'e_default', 'Presentation & Pitch Quality', '{"ideation": 20, "prototype": 20}')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO weight_sets (id, "eventId", number, name, weights, "isActive") VALUES
+    ('ws_e_default', 'e_default', 1, 'Initial weights',
+     '{"c1": {"ideation": 25, "prototype": 30}, "c2": {"ideation": 30, "prototype": 30}, "c3": {"ideation": 25, "prototype": 20}, "c4": {"ideation": 20, "prototype": 20}}', true)
+ON CONFLICT (id) DO NOTHING;
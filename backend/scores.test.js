@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+// The event phase the fake events table reports.
+let phase;
+
+const criteria = [
+  { id: 'c1', name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] },
+];
+
+// Judge j1 saves a score for project p1, which is assigned to them.
+const saveScore = (body, headers) => api.request('PUT', '/events/e1/projects/p1/scores/j1', { token, body, headers });
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('judge', 'j1');
+  phase = 'judging';
+  api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Hack', phase, version: 1 }]);
+  api.db.on(/SELECT id FROM judges WHERE id = \$1 AND "eventId"/, ([id]) => [{ id }]);
+  api.db.on(/SELECT id FROM tracks WHERE "eventId"/, () => [{ id: 't1' }]);
+  api.db.on(/SELECT id FROM trl_bands/, () => [{ id: 'b1' }]);
+  api.db.on(/SELECT id FROM criteria WHERE "eventId"/, () => criteria.map(c => ({ id: c.id })));
+  api.db.on(/SELECT \* FROM criteria WHERE "eventId"/, () => criteria);
+  api.db.on(/SELECT id, track FROM projects/, ([id]) => [{ id, track: 't1' }]);
+  api.db.on(/SELECT id FROM assignments WHERE "judgeId"/, () => [{ id: 'a1' }]);
+  api.db.on(/INSERT INTO scores/, ([id, eventId, projectId, judgeId, criteriaScores, juryTrl, notes, status]) =>
+    [{ id, eventId, projectId, judgeId, criteriaScores, juryTrl, notes, status, version: 1 }]);
+});
+
+describe('conflicts of interest', () => {
+  it('keep a judge from scoring the project', async () => {
+    api.db.on(/SELECT id FROM conflicts WHERE "judgeId"/, () => [{ id: 'coi1' }]);
+    const { status, body } = await saveScore({ status: 'submitted', criteriaScores: { c1: 7 } });
+    expect(status).toBe(409);
+    expect(body.message).toMatch(/conflict of interest/);
+    expect(api.db.callsTo(/INSERT INTO scores/)).toHaveLength(0);
+  });
+});
+
+describe('validation', () => {
+  it('rejects a body that breaks the shared schema with field errors', async () => {
+    const { status, body } = await saveScore({ status: 'final', criteriaScores: { c9: 7 } });
+    expect(status).toBe(400);
+    expect(body.errors.map(e => e.field).sort()).toEqual(['criteriaScores.c9', 'status']);
+    expect(api.db.callsTo(/INSERT INTO scores/)).toHaveLength(0);
+  });
+});
+
+describe('saving a score', () => {
+  it('upserts the one score of the judge and project', async () => {
+    const { status, body } = await saveScore({ status: 'submitted', criteriaScores: { c1: 7 } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 7 }, status: 'submitted' });
+    const [upsert] = api.db.callsTo(/INSERT INTO scores/);
+    expect(upsert.text).toMatch(/ON CONFLICT \("projectId", "judgeId"\) DO UPDATE/);
+    expect(api.db.callsTo(/INSERT INTO audit_log/)[0].params).toContain('create');
+  });
+
+  it('records a save over an existing score as an update', async () => {
+    api.db.on(/SELECT \* FROM scores WHERE "projectId"/, () => [{ id: 's1', projectId: 'p1', judgeId: 'j1', status: 'draft', version: 3 }]);
+    expect((await saveScore({ status: 'draft', criteriaScores: { c1: 7 } })).status).toBe(200);
+    expect(api.db.callsTo(/INSERT INTO audit_log/)[0].params).toContain('update');
+  });
+
+  it("is refused for another judge's score", async () => {
+    const { status } = await api.request('PUT', '/events/e1/projects/p1/scores/j2', { token, body: { status: 'draft', criteriaScores: {} } });
+    expect(status).toBe(403);
+    expect(api.db.callsTo(/INSERT INTO scores/)).toHaveLength(0);
+  });
+
+  it('is refused for a project that is not assigned to the judge', async () => {
+    api.db.on(/SELECT id FROM assignments WHERE "judgeId"/, () => []);
+    const { status, body } = await saveScore({ status: 'draft', criteriaScores: { c1: 7 } });
+    expect(status).toBe(403);
+    expect(body.message).toMatch(/not assigned/);
+  });
+
+  it('is refused for an unknown project', async () => {
+    api.db.on(/SELECT id, track FROM projects/, () => []);
+    expect((await saveScore({ status: 'draft', criteriaScores: { c1: 7 } })).status).toBe(404);
+  });
+});
+
+describe('saves replayed from the offline queue', () => {
+  const onServer = { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 9 }, status: 'draft', version: 3 };
+  beforeEach(() => {
+    api.db.on(/SELECT \* FROM scores WHERE "projectId"/, () => [onServer]);
+  });
+
+  it('go through when the score is still the version they were edited from', async () => {
+    expect((await saveScore({ status: 'draft', criteriaScores: { c1: 4 } }, { 'If-Match': '"3"' })).status).toBe(200);
+  });
+
+  it('are refused with the current score when it changed on another device', async () => {
+    const { status, body } = await saveScore({ status: 'draft', criteriaScores: { c1: 4 } }, { 'If-Match': '"2"' });
+    expect(status).toBe(409);
+    expect(body.current).toEqual(onServer);
+    expect(api.db.callsTo(/INSERT INTO scores/)).toHaveLength(0);
+  });
+
+  it('are refused when a score was created since they were queued', async () => {
+    const { status } = await saveScore({ status: 'draft', criteriaScores: { c1: 4 } }, { 'If-Match': '"0"' });
+    expect(status).toBe(409);
+  });
+});
+
+describe('draft and submitted scores', () => {
+  it('may leave criteria unscored only as a draft', async () => {
+    expect((await saveScore({ status: 'draft', criteriaScores: {} })).status).toBe(200);
+    const { status, body } = await saveScore({ status: 'submitted', criteriaScores: {} });
+    expect(status).toBe(400);
+    expect(body.errors).toEqual([{ field: 'criteriaScores.c1', message: 'Score this criterion before submitting.' }]);
+  });
+
+  it('keep a late draft from replacing a submitted score', async () => {
+    const submitted = { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 7 }, status: 'submitted', version: 2 };
+    api.db.on(/SELECT \* FROM scores WHERE "projectId"/, () => [submitted]);
+    // The upsert's WHERE clause leaves a submitted row alone when a draft arrives, so nothing is returned.
+    api.db.on(/INSERT INTO scores/, () => []);
+    const { status, body } = await saveScore({ status: 'draft', criteriaScores: { c1: 3 } });
+    expect(status).toBe(409);
+    expect(body.current).toEqual(submitted);
+    const [upsert] = api.db.callsTo(/INSERT INTO scores/);
+    expect(upsert.text).toMatch(/WHERE scores.status = 'draft' OR EXCLUDED.status = 'submitted'/);
+  });
+});
+
+describe('the phase lock', () => {
+  const draft = { status: 'draft', criteriaScores: { c1: 7 } };
+
+  it('keeps scores closed before judging opens and after results are published', async () => {
+    for (const closedPhase of ['setup', 'published']) {
+      phase = closedPhase;
+      const { status } = await saveScore(draft);
+      expect(status).toBe(409);
+    }
+    expect(api.db.callsTo(/INSERT INTO scores/)).toHaveLength(0);
+  });
+
+  it('closes scoring during deliberation unless the judge was unlocked', async () => {
+    phase = 'deliberation';
+    let unlocked = false;
+    api.db.on(/SELECT "scoringUnlocked" FROM judges/, () => [{ scoringUnlocked: unlocked }]);
+    const locked = await saveScore(draft);
+    expect(locked.status).toBe(409);
+    expect(locked.body.message).toMatch(/unlock/);
+    unlocked = true;
+    expect((await saveScore(draft)).status).toBe(200);
+  });
+
+  it('also keeps judges from deleting their scores', async () => {
+    phase = 'published';
+    const { status } = await api.request('DELETE', '/events/e1/scores/s1', { token });
+    expect(status).toBe(409);
+    expect(api.db.callsTo(/DELETE FROM scores/)).toHaveLength(0);
+  });
+});
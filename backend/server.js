@@ -1,8 +1,24 @@
 // backend/server.js
 require('dotenv').config();
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 const query = require('./db');
+const { transaction } = require('./db');
+const {
+  verifyPassword,
+  generateToken,
+  hashToken,
+  createSession,
+  destroySession,
+  authenticate,
+  requireRole,
+  requireAdmin,
+  ensureAdminAccount,
+} = require('./auth');
+const { validate, sendValidationErrors, validateBody } = require('./validation');
+const { openStream, broadcast, closeStreams } = require('./liveUpdates');
+const { calculateFinalRankings } = require('../shared/ranking.js');
 
 const app = express();
 const PORT = 3001;
@@ -12,89 +28,588 @@ const PORT = 3001;
 // 1. Ensure you have a `.env` file in this `backend` directory with the `DATABASE_URL`.
 //    (You can copy `.env.example` to create it).
 // 2. Run the SQL commands in `schema.sql` on your database to create the necessary tables and seed initial data.
-// 3. Navigate to the `backend` directory in your terminal.
-// 4. Run `npm install` to install dependencies.
-// 5. Run `node server.js` to start the server.
+//    Existing databases should instead apply the files in `migrations/` in order.
+// 3. Set `ADMIN_USERNAME` and `ADMIN_PASSWORD` in `.env`; the admin account is created on first start.
+// 4. Navigate to the `backend` directory in your terminal.
+// 5. Run `npm install` to install dependencies.
+// 6. Run `node server.js` to start the server.
 // The server will run on http://localhost:3001.
 
 // --- Middleware ---
 app.use(cors());
 app.use(express.json());
 
+// --- IDs ---
+// Random ids cannot collide across concurrent requests the way timestamp-based ones could.
+const createId = (prefix) => `${prefix}_${crypto.randomUUID()}`;
+
 // --- General Error Handler ---
 const handleError = (res, error, context) => {
   console.error(`Error in ${context}:`, error);
   res.status(500).json({ message: `An error occurred in ${context}.`, error: error.message });
 };
 
+// --- Optimistic Concurrency ---
+// Editable rows carry a `version` that every UPDATE increments. Clients send the version they edited as
+// `If-Match: "<version>"`, and the UPDATE only matches while the row is still at that version.
+// Requests without If-Match update unconditionally.
+const readIfMatch = (req, res, next) => {
+  const header = req.get('If-Match');
+  req.expectedVersion = null;
+  if (header && header !== '*') {
+    const version = Number(header.replace(/^W\//, '').replace(/"/g, ''));
+    if (!Number.isInteger(version)) return res.status(400).json({ message: 'If-Match must be a row version such as "3"' });
+    req.expectedVersion = version;
+  }
+  next();
+};
+
+// Returns a row by id, scoped to the event when `eventId` is given, or null.
+const loadRow = async (table, id, eventId) => {
+  const result = eventId
+    ? await query(`SELECT * FROM ${table} WHERE id = $1 AND "eventId" = $2`, [id, eventId])
+    : await query(`SELECT * FROM ${table} WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+};
+
+// Explains a versioned UPDATE that matched no row: 404 if the row is gone, otherwise 409 with the current row
+// so the client can compare it with its own changes.
+const sendUpdateMiss = async (res, { table, label, id, eventId }) => {
+  const current = await loadRow(table, id, eventId);
+  if (!current) return res.status(404).json({ message: `${label} not found` });
+  res.status(409).json({ message: `${label} was changed by someone else after you opened it.`, current });
+};
+
+// --- Audit Log ---
+// Every mutating route appends who changed what to `audit_log`, with the row before and after the change:
+// `before` is null for a create and `after` is null for a delete. The actor's name is copied into the entry
+// so it stays readable after the judge is deleted.
+const toJsonb = (value) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+const recordChange = (req, { eventId = null, entity, entityId = null, action, before = null, after = null }) =>
+  query(
+    `INSERT INTO audit_log (id, "eventId", "actorRole", "actorId", "actorName", entity, "entityId", action, before, after, "createdAt")
+     VALUES ($1, $2, $3, $4,
+       CASE WHEN $3 = 'admin' THEN (SELECT username FROM admins WHERE id = $4) ELSE (SELECT name FROM judges WHERE id = $4) END,
+       $5, $6, $7, $8, $9, NOW())`,
+    [createId('al'), eventId, req.user.role, req.user.id, entity, entityId, action, toJsonb(before), toJsonb(after)]
+  );
+
+
+// --- Auth Routes ---
+
+app.post('/api/auth/admin', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    const result = await query('SELECT id, "passwordHash" FROM admins WHERE username = $1', [username]);
+    const admin = result.rows[0];
+    if (!admin || !password || !(await verifyPassword(password, admin.passwordHash))) {
+      return res.status(401).json({ message: 'Invalid username or password' });
+    }
+    const token = await createSession('admin', admin.id);
+    res.json({ token, user: { role: 'admin', id: admin.id } });
+  } catch (error) {
+    handleError(res, error, 'admin login');
+  }
+});
+
+app.post('/api/auth/judge', async (req, res) => {
+  try {
+    const { inviteCode } = req.body;
+    if (!inviteCode) return res.status(401).json({ message: 'Invalid or revoked invite code' });
+    const result = await query('SELECT "judgeId" FROM judge_invites WHERE "tokenHash" = $1', [hashToken(inviteCode)]);
+    if (result.rows.length === 0) return res.status(401).json({ message: 'Invalid or revoked invite code' });
+    const judgeId = result.rows[0].judgeId;
+    const token = await createSession('judge', judgeId);
+    res.json({ token, user: { role: 'judge', id: judgeId } });
+  } catch (error) {
+    handleError(res, error, 'judge login');
+  }
+});
+
+// EventSource cannot send headers, so the live update stream passes the session token in the query string.
+app.get('/api/events/:eventId/stream', (req, res, next) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+});
+
+// Every route registered below this point requires a valid session.
+app.use('/api', authenticate);
+
+app.get('/api/auth/me', (req, res) => {
+  res.json({ user: req.user });
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await destroySession(req.sessionToken);
+    closeStreams({ sessionToken: req.sessionToken });
+    res.status(200).json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'logging out');
+  }
+});
 
 // --- API Routes ---
 
+// EVENTS
+// Admins see every event; a judge belongs to exactly one event and only sees that one.
+app.get('/api/events', async (req, res) => {
+  try {
+    const result = req.user.role === 'admin'
+      ? await query('SELECT * FROM events ORDER BY "createdAt" DESC')
+      : await query('SELECT e.* FROM events e JOIN judges j ON j."eventId" = e.id WHERE j.id = $1', [req.user.id]);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching events');
+  }
+});
+
+// Creates an event. With `cloneFromEventId`, the source event's tracks and criteria are copied into it.
+app.post('/api/events', requireAdmin, validateBody('newEvent'), async (req, res) => {
+  try {
+    const { name, cloneFromEventId } = req.body;
+    const eventId = createId('e');
+    // The event and its copied tracks and criteria are created together, so a failed copy leaves no half-made event.
+    const created = await transaction(async (tx) => {
+      const result = await tx(
+        'INSERT INTO events (id, name, "createdAt") VALUES ($1, $2, NOW()) RETURNING *',
+        [eventId, name]
+      );
+      const copy = { inserted: result.rows[0], event: result.rows[0], tracks: [], criteria: [] };
+      if (!cloneFromEventId) return copy;
+      const sourceRes = await tx(
+        `UPDATE events e SET "reviewsPerProject" = s."reviewsPerProject", "maxLoadPerJudge" = s."maxLoadPerJudge"
+         FROM events s WHERE e.id = $1 AND s.id = $2 RETURNING e.*`,
+        [eventId, cloneFromEventId]
+      );
+      if (sourceRes.rows.length > 0) copy.event = sourceRes.rows[0];
+      const tracksRes = await tx('SELECT * FROM tracks WHERE "eventId" = $1', [cloneFromEventId]);
+      const criteriaRes = await tx('SELECT * FROM criteria WHERE "eventId" = $1', [cloneFromEventId]);
+      // The copied criteria target the copies of their tracks.
+      const trackIdMap = new Map();
+      for (const t of tracksRes.rows) {
+        const trackRes = await tx(
+          'INSERT INTO tracks (id, "eventId", name) VALUES ($1, $2, $3) RETURNING *',
+          [createId('t'), eventId, t.name]
+        );
+        trackIdMap.set(t.id, trackRes.rows[0].id);
+        copy.tracks.push(trackRes.rows[0]);
+      }
+      for (const c of criteriaRes.rows) {
+        const criterionRes = await tx(
+          `INSERT INTO criteria (id, "eventId", name, description, weight, "scaleMin", "scaleMax", "scaleStep", rubric, "isGate", "trackIds")
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+          [createId('c'), eventId, c.name, c.description, c.weight, c.scaleMin, c.scaleMax, c.scaleStep, JSON.stringify(c.rubric), c.isGate,
+           c.trackIds.map(trackId => trackIdMap.get(trackId)).filter(Boolean)]
+        );
+        copy.criteria.push(criterionRes.rows[0]);
+      }
+      return copy;
+    });
+    const { inserted, event } = created;
+    await recordChange(req, { eventId, entity: 'events', entityId: eventId, action: 'create', after: inserted });
+    if (event !== inserted) {
+      await recordChange(req, { eventId, entity: 'events', entityId: eventId, action: 'update', before: inserted, after: event });
+    }
+    for (const track of created.tracks) {
+      await recordChange(req, { eventId, entity: 'tracks', entityId: track.id, action: 'create', after: track });
+    }
+    for (const criterion of created.criteria) {
+      await recordChange(req, { eventId, entity: 'criteria', entityId: criterion.id, action: 'create', after: criterion });
+    }
+    res.status(201).json(event);
+  } catch (error) {
+    handleError(res, error, 'creating event');
+  }
+});
+
+app.put('/api/events/:eventId', requireAdmin, readIfMatch, validateBody('event'), async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const event = req.body;
+    const before = await loadRow('events', eventId);
+    const result = await query(
+      `UPDATE events SET name = $1, "reviewsPerProject" = $2, "maxLoadPerJudge" = $3, version = version + 1
+       WHERE id = $4 AND ($5::int IS NULL OR version = $5) RETURNING *`,
+      [event.name, event.reviewsPerProject, event.maxLoadPerJudge ?? null, eventId, req.expectedVersion]
+    );
+    if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'events', label: 'Event', id: eventId });
+    await recordChange(req, { eventId, entity: 'events', entityId: eventId, action: 'update', before, after: result.rows[0] });
+    broadcast(eventId, 'events', 'upsert', result.rows[0]);
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating event');
+  }
+});
+
+// TRL BANDS
+// TRL bands are shared by every event, so criterion weights keep the same keys when an event is cloned.
+app.post('/api/trl-bands', requireAdmin, validateBody('trlBand'), async (req, res) => {
+    try {
+        const newBand = { id: createId('trl'), ...req.body };
+        const result = await query(
+            'INSERT INTO trl_bands (id, name, position) VALUES ($1, $2, $3) RETURNING *',
+            [newBand.id, newBand.name, newBand.position]
+        );
+        await recordChange(req, { entity: 'trlBands', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(null, 'trlBands', 'upsert', result.rows[0]);
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'creating TRL band');
+    }
+});
+
+app.put('/api/trl-bands/:id', requireAdmin, readIfMatch, validateBody('trlBand'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        const band = req.body;
+        const before = await loadRow('trl_bands', id);
+        const result = await query(
+            'UPDATE trl_bands SET name = $1, position = $2, version = version + 1 WHERE id = $3 AND ($4::int IS NULL OR version = $4) RETURNING *',
+            [band.name, band.position, id, req.expectedVersion]
+        );
+        if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'trl_bands', label: 'TRL band', id });
+        await recordChange(req, { entity: 'trlBands', entityId: id, action: 'update', before, after: result.rows[0] });
+        broadcast(null, 'trlBands', 'upsert', result.rows[0]);
+        res.json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'updating TRL band');
+    }
+});
+
+app.delete('/api/trl-bands/:id', requireAdmin, async (req, res) => {
+    try {
+        const { id } = req.params;
+        const inUse = await query('SELECT COUNT(*)::int AS count FROM projects WHERE trl = $1', [id]);
+        if (inUse.rows[0].count > 0) {
+            return res.status(409).json({ message: `TRL band is used by ${inUse.rows[0].count} project(s); move them to another band first.` });
+        }
+        const removed = await transaction(async (tx) => {
+            const result = await tx('DELETE FROM trl_bands WHERE id = $1 RETURNING *', [id]);
+            if (result.rowCount === 0) return null;
+            // Drop the band's weights from every criterion and saved weight set, and forget jury assessments that
+            // pointed at it.
+            await tx('UPDATE criteria SET weight = weight - $1', [id]);
+            await tx(
+                `UPDATE weight_sets SET weights = (SELECT COALESCE(jsonb_object_agg(key, value - $1), '{}'::jsonb) FROM jsonb_each(weights))
+                 WHERE EXISTS (SELECT 1 FROM jsonb_each(weights) WHERE value ? $1)`,
+                [id]
+            );
+            await tx('UPDATE scores SET "juryTrl" = NULL WHERE "juryTrl" = $1', [id]);
+            return result.rows[0];
+        });
+        if (!removed) return res.status(404).json({ message: 'TRL band not found' });
+        // Clients apply the same clean-up when they receive the deletion.
+        await recordChange(req, { entity: 'trlBands', entityId: id, action: 'delete', before: removed });
+        broadcast(null, 'trlBands', 'delete', removed);
+        res.status(200).json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'deleting TRL band');
+    }
+});
+
+// --- Event-Scoped Routes ---
+// Everything below is mounted under /api/events/:eventId and only ever touches rows of that event.
+const eventRouter = express.Router({ mergeParams: true });
+
+// Rejects unknown events, and events the signed-in judge does not belong to.
+const loadEvent = async (req, res, next) => {
+  try {
+    const { eventId } = req.params;
+    const result = await query('SELECT * FROM events WHERE id = $1', [eventId]);
+    if (result.rows.length === 0) return res.status(404).json({ message: 'Event not found' });
+    if (req.user.role === 'judge') {
+      const judgeRes = await query('SELECT id FROM judges WHERE id = $1 AND "eventId" = $2', [req.user.id, eventId]);
+      if (judgeRes.rows.length === 0) return res.status(403).json({ message: 'You do not have access to this event' });
+    }
+    req.event = result.rows[0];
+    next();
+  } catch (error) {
+    handleError(res, error, 'loading event');
+  }
+};
+
+app.use('/api/events/:eventId', loadEvent, eventRouter);
+
+// The ids that request bodies may refer to: the event's tracks and criteria, and the shared TRL bands.
+const loadEventContext = async (req) => {
+  const { eventId } = req.params;
+  const [tracksRes, bandsRes, criteriaRes] = await Promise.all([
+    query('SELECT id FROM tracks WHERE "eventId" = $1', [eventId]),
+    query('SELECT id FROM trl_bands'),
+    query('SELECT id FROM criteria WHERE "eventId" = $1', [eventId]),
+  ]);
+  return {
+    trackIds: new Set(tracksRes.rows.map(t => t.id)),
+    trlBandIds: new Set(bandsRes.rows.map(b => b.id)),
+    criterionIds: new Set(criteriaRes.rows.map(c => c.id)),
+  };
+};
+
+// LIVE UPDATES
+eventRouter.get('/stream', openStream);
+
+// AUDIT LOG
+// Newest first. Optional filters: `entity`, `action`, `actorRole`, `actorId`, and a `from` (inclusive) to
+// `to` (exclusive) time range as ISO dates. Changes to the shared TRL bands appear in every event's log.
+eventRouter.get('/audit', requireAdmin, async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const { entity, action, actorRole, actorId, from, to } = req.query;
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+        return sendValidationErrors(res, [{ field: name, message: 'Must be a date such as 2025-01-31.' }]);
+      }
+    }
+    const conditions = ['("eventId" = $1 OR "eventId" IS NULL)'];
+    const params = [eventId];
+    const addCondition = (sql, value) => {
+      if (typeof value !== 'string' || value === '') return;
+      params.push(value);
+      conditions.push(`${sql} $${params.length}`);
+    };
+    addCondition('entity =', entity);
+    addCondition('action =', action);
+    addCondition('"actorRole" =', actorRole);
+    addCondition('"actorId" =', actorId);
+    addCondition('"createdAt" >=', from);
+    addCondition('"createdAt" <', to);
+    const result = await query(`SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY "createdAt" DESC, id`, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching audit log');
+  }
+});
+
 // GET all data
-app.get('/api/data', async (req, res) => {
+eventRouter.get('/data', async (req, res) => {
   try {
-    const [projectsRes, judgesRes, criteriaRes, scoresRes] = await Promise.all([
-      query('SELECT * FROM projects ORDER BY name'),
-      query('SELECT * FROM judges ORDER BY name'),
-      query('SELECT * FROM criteria ORDER BY id'),
-      query('SELECT * FROM scores ORDER BY id'),
+    const { eventId } = req.params;
+    // Judges only ever receive their own scores; other judges' scores and notes stay private.
+    // The same goes for their assignments and conflict declarations.
+    const ownRows = (table) => req.user.role === 'judge'
+      ? query(`SELECT * FROM ${table} WHERE "eventId" = $1 AND "judgeId" = $2 ORDER BY id`, [eventId, req.user.id])
+      : query(`SELECT * FROM ${table} WHERE "eventId" = $1 ORDER BY id`, [eventId]);
+    const [projectsRes, judgesRes, criteriaRes, scoresRes, tracksRes, trlBandsRes, assignmentsRes, conflictsRes, snapshotRes, weightSetsRes] = await Promise.all([
+      query('SELECT * FROM projects WHERE "eventId" = $1 ORDER BY name', [eventId]),
+      query('SELECT * FROM judges WHERE "eventId" = $1 ORDER BY name', [eventId]),
+      query('SELECT * FROM criteria WHERE "eventId" = $1 ORDER BY id', [eventId]),
+      ownRows('scores'),
+      query('SELECT * FROM tracks WHERE "eventId" = $1 ORDER BY name', [eventId]),
+      query('SELECT * FROM trl_bands ORDER BY position, name'),
+      ownRows('assignments'),
+      ownRows('conflicts'),
+      // Only admins see the published results.
+      req.user.role === 'admin'
+        ? query('SELECT * FROM result_snapshots WHERE "eventId" = $1 ORDER BY "publishedAt" DESC LIMIT 1', [eventId])
+        : { rows: [] },
+      req.user.role === 'admin'
+        ? query('SELECT * FROM weight_sets WHERE "eventId" = $1 ORDER BY number', [eventId])
+        : { rows: [] },
     ]);
     res.json({
       projects: projectsRes.rows,
       judges: judgesRes.rows,
       criteria: criteriaRes.rows,
       scores: scoresRes.rows,
+      tracks: tracksRes.rows,
+      trlBands: trlBandsRes.rows,
+      assignments: assignmentsRes.rows,
+      conflicts: conflictsRes.rows,
+      resultSnapshot: snapshotRes.rows[0] || null,
+      weightSets: weightSetsRes.rows,
     });
   } catch (error) {
     handleError(res, error, 'fetching all data');
   }
 });
 
+// PHASES
+// setup -> judging -> deliberation -> published. Deliberation can reopen judging; published is final.
+const PHASE_TRANSITIONS = {
+  setup: ['judging'],
+  judging: ['deliberation'],
+  deliberation: ['judging', 'published'],
+  published: [],
+};
+
+const RESULTS_PUBLISHED_MESSAGE = 'Results have been published; scores can no longer be changed.';
+
+// Published results are final, so the projects, judges and criteria they were ranked from are frozen with them.
+// Deleting a project or judge would also delete their scores.
+const rejectWhenPublished = (req, res, next) => {
+  if (req.event.phase === 'published') {
+    return res.status(409).json({ message: 'Results have been published; projects, judges and criteria can no longer be changed.' });
+  }
+  next();
+};
+
+// Returns why the judge cannot write scores in the event's current phase, or null if they can.
+const checkScoringOpen = async (event, judgeId) => {
+  if (event.phase === 'judging') return null;
+  if (event.phase === 'deliberation') {
+    const judgeRes = await query('SELECT "scoringUnlocked" FROM judges WHERE id = $1', [judgeId]);
+    if (judgeRes.rows[0]?.scoringUnlocked) return null;
+    return 'Judging is closed. Ask an admin to unlock scoring for you.';
+  }
+  return event.phase === 'setup' ? 'Judging has not opened yet.' : RESULTS_PUBLISHED_MESSAGE;
+};
+
+// Ranks the event's stored scores, read in the order GET /data returns them so the results match the admin's view.
+const rankEvent = async (tx, eventId, options) => {
+  const projectsRes = await tx('SELECT * FROM projects WHERE "eventId" = $1 ORDER BY name', [eventId]);
+  const criteriaRes = await tx('SELECT * FROM criteria WHERE "eventId" = $1 ORDER BY id', [eventId]);
+  const scoresRes = await tx('SELECT * FROM scores WHERE "eventId" = $1 ORDER BY id', [eventId]);
+  const conflictsRes = await tx('SELECT * FROM conflicts WHERE "eventId" = $1 ORDER BY id', [eventId]);
+  const weightSetsRes = await tx('SELECT * FROM weight_sets WHERE "eventId" = $1 ORDER BY number', [eventId]);
+  return calculateFinalRankings(projectsRes.rows, scoresRes.rows, criteriaRes.rows, options, conflictsRes.rows, weightSetsRes.rows);
+};
+
+// Moves the event to another phase. Every phase change clears the judges' scoring unlocks. Publishing ranks the
+// stored scores with the admin's ranking `options` and stores the rankings as the event's results; the snapshot
+// can never be changed.
+eventRouter.put('/phase', requireAdmin, readIfMatch, validateBody('phaseChange', loadEventContext), async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const { phase, options } = req.body;
+    const before = req.event;
+    if (!PHASE_TRANSITIONS[before.phase].includes(phase)) {
+      return res.status(409).json({ message: `An event cannot move from ${before.phase} to ${phase}.` });
+    }
+    if (phase === 'published' && !options) {
+      return sendValidationErrors(res, [{ field: 'options', message: 'Required when publishing results.' }]);
+    }
+    const changed = await transaction(async (tx) => {
+      const eventRes = await tx(
+        `UPDATE events SET phase = $1, version = version + 1
+         WHERE id = $2 AND phase = $3 AND ($4::int IS NULL OR version = $4) RETURNING *`,
+        [phase, eventId, before.phase, req.expectedVersion]
+      );
+      if (eventRes.rows.length === 0) return null;
+      const unlockedRes = await tx('SELECT * FROM judges WHERE "eventId" = $1 AND "scoringUnlocked" FOR UPDATE', [eventId]);
+      const lockedRes = await tx('UPDATE judges SET "scoringUnlocked" = false WHERE "eventId" = $1 AND "scoringUnlocked" RETURNING *', [eventId]);
+      const snapshotRes = phase === 'published'
+        ? await tx(
+            'INSERT INTO result_snapshots (id, "eventId", results, options, "publishedBy", "publishedAt") VALUES ($1, $2, $3, $4, $5, NOW()) RETURNING *',
+            [createId('rs'), eventId, JSON.stringify(await rankEvent(tx, eventId, options)), JSON.stringify(options), req.user.id]
+          )
+        : null;
+      return { event: eventRes.rows[0], unlocked: unlockedRes.rows, locked: lockedRes.rows, snapshot: snapshotRes?.rows[0] };
+    });
+    if (!changed) return sendUpdateMiss(res, { table: 'events', label: 'Event', id: eventId });
+
+    await recordChange(req, { eventId, entity: 'events', entityId: eventId, action: 'update', before, after: changed.event });
+    broadcast(eventId, 'events', 'upsert', changed.event);
+    for (const judge of changed.locked) {
+      const judgeBefore = changed.unlocked.find(j => j.id === judge.id);
+      await recordChange(req, { eventId, entity: 'judges', entityId: judge.id, action: 'update', before: judgeBefore, after: judge });
+      broadcast(eventId, 'judges', 'upsert', judge);
+    }
+    if (changed.snapshot) {
+      await recordChange(req, { eventId, entity: 'resultSnapshots', entityId: changed.snapshot.id, action: 'create', after: changed.snapshot });
+      broadcast(eventId, 'resultSnapshots', 'upsert', changed.snapshot);
+    }
+    res.json(changed.event);
+  } catch (error) {
+    handleError(res, error, 'changing event phase');
+  }
+});
+
 // PROJECTS
-app.post('/api/projects', async (req, res) => {
+// Bulk create. In the default `atomic` mode every row is saved or none is; with `?mode=partial` valid rows
+// are saved and the rest reported. Either way the response lists failures as `errors: [{ index, message }]`,
+// where `index` is the row's position in the request body and `fields` holds the row's field-level errors.
+eventRouter.post('/projects', requireAdmin, rejectWhenPublished, async (req, res) => {
   try {
-    const newProjectsData = req.body; // Expects an array
-    const createdProjects = [];
-    // Using a loop to insert projects one by one to handle potential errors individually
-    for (const [i, p] of newProjectsData.entries()) {
-        const newProject = {
-            id: `p_${Date.now()}_${i}`,
-            ...p,
-            links: p.links || null // Ensure links is null if not provided
-        };
-        const result = await query(
-            'INSERT INTO projects (id, name, description, track, trl, links) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
-            [newProject.id, newProject.name, newProject.description, newProject.track, newProject.trl, newProject.links]
-        );
-        createdProjects.push(result.rows[0]);
+    const { eventId } = req.params;
+    const mode = req.query.mode === 'partial' ? 'partial' : 'atomic';
+    const rows = req.body; // Expects an array
+    if (!Array.isArray(rows)) return sendValidationErrors(res, [{ field: '', message: 'Expected an array of projects.' }]);
+
+    const context = await loadEventContext(req);
+    const errors = [];
+    rows.forEach((p, index) => {
+      const fields = validate('project', p, context);
+      if (fields.length > 0) errors.push({ index, message: fields.map(f => `${f.field}: ${f.message}`).join(' '), fields });
+    });
+    if (mode === 'atomic' && errors.length > 0) {
+      return res.status(422).json({ message: `${errors.length} of ${rows.length} row(s) are invalid; nothing was saved.`, created: [], errors });
     }
-    res.status(201).json(createdProjects);
+
+    const invalidRows = new Set(errors.map(e => e.index));
+    let failedRow = null;
+    const created = await transaction(async (tx) => {
+      const inserted = [];
+      for (const [index, p] of rows.entries()) {
+        if (invalidRows.has(index)) continue;
+        // In partial mode a savepoint per row lets one failed insert be undone without losing the others.
+        if (mode === 'partial') await tx('SAVEPOINT project_row');
+        try {
+          const result = await tx(
+            'INSERT INTO projects (id, "eventId", name, description, track, trl, links, "externalKey") VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
+            [createId('p'), eventId, p.name.trim(), p.description, p.track, p.trl, p.links || null, p.externalKey || null]
+          );
+          inserted.push(result.rows[0]);
+          if (mode === 'partial') await tx('RELEASE SAVEPOINT project_row');
+        } catch (error) {
+          if (mode === 'atomic') {
+            failedRow = { index, message: error.message };
+            throw error;
+          }
+          await tx('ROLLBACK TO SAVEPOINT project_row');
+          errors.push({ index, message: error.message });
+        }
+      }
+      return inserted;
+    }).catch((error) => {
+      if (failedRow) return null;
+      throw error;
+    });
+
+    if (!created) {
+      return res.status(422).json({ message: `Row ${failedRow.index + 1} could not be saved; nothing was saved.`, created: [], errors: [failedRow] });
+    }
+    errors.sort((a, b) => a.index - b.index);
+    for (const project of created) {
+      await recordChange(req, { eventId, entity: 'projects', entityId: project.id, action: 'create', after: project });
+      broadcast(eventId, 'projects', 'upsert', project);
+    }
+    res.status(errors.length > 0 ? 200 : 201).json({ created, errors });
   } catch(error) {
     handleError(res, error, 'creating projects');
   }
 });
 
-app.put('/api/projects/:id', async (req, res) => {
+eventRouter.put('/projects/:id', requireAdmin, rejectWhenPublished, readIfMatch, validateBody('project', loadEventContext), async (req, res) => {
   try {
-    const { id } = req.params;
+    const { eventId, id } = req.params;
     const p = req.body;
+    const before = await loadRow('projects', id, eventId);
     const result = await query(
-      'UPDATE projects SET name = $1, description = $2, track = $3, trl = $4, links = $5 WHERE id = $6 RETURNING *',
-      [p.name, p.description, p.track, p.trl, p.links || null, id]
+      `UPDATE projects SET name = $1, description = $2, track = $3, trl = $4, links = $5, "externalKey" = $6, version = version + 1
+       WHERE id = $7 AND "eventId" = $8 AND ($9::int IS NULL OR version = $9) RETURNING *`,
+      [p.name.trim(), p.description, p.track, p.trl, p.links || null, p.externalKey || null, id, eventId, req.expectedVersion]
     );
-    if (result.rows.length === 0) return res.status(404).json({ message: 'Project not found' });
+    if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'projects', label: 'Project', id, eventId });
+    await recordChange(req, { eventId, entity: 'projects', entityId: id, action: 'update', before, after: result.rows[0] });
+    broadcast(eventId, 'projects', 'upsert', result.rows[0]);
     res.json(result.rows[0]);
   } catch (error) {
     handleError(res, error, 'updating project');
   }
 });
 
-app.delete('/api/projects/:id', async (req, res) => {
+eventRouter.delete('/projects/:id', requireAdmin, rejectWhenPublished, async (req, res) => {
   try {
-    const { id } = req.params;
-    const result = await query('DELETE FROM projects WHERE id = $1', [id]);
+    const { eventId, id } = req.params;
+    const result = await query('DELETE FROM projects WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
     // The schema is set to ON DELETE CASCADE, so scores will be deleted automatically.
     if (result.rowCount === 0) return res.status(404).json({ message: 'Project not found' });
+    await recordChange(req, { eventId, entity: 'projects', entityId: id, action: 'delete', before: result.rows[0] });
+    broadcast(eventId, 'projects', 'delete', result.rows[0]);
     res.status(200).json({ success: true });
   } catch (error) {
     handleError(res, error, 'deleting project');
@@ -102,114 +617,577 @@ app.delete('/api/projects/:id', async (req, res) => {
 });
 
 // JUDGES
-app.post('/api/judges', async (req, res) => {
+eventRouter.post('/judges', requireAdmin, rejectWhenPublished, validateBody('judge', loadEventContext), async (req, res) => {
     try {
+        const { eventId } = req.params;
         const newJudgeData = req.body;
-        const newJudge = { id: `j_${Date.now()}`, ...newJudgeData };
+        const newJudge = { id: createId('j'), ...newJudgeData };
         const result = await query(
-            'INSERT INTO judges (id, name, tracks) VALUES ($1, $2, $3) RETURNING *',
-            [newJudge.id, newJudge.name, newJudge.tracks]
+            'INSERT INTO judges (id, "eventId", name, tracks) VALUES ($1, $2, $3, $4) RETURNING *',
+            [newJudge.id, eventId, newJudge.name, newJudge.tracks]
         );
+        await recordChange(req, { eventId, entity: 'judges', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(eventId, 'judges', 'upsert', result.rows[0]);
         res.status(201).json(result.rows[0]);
     } catch(error) {
         handleError(res, error, 'creating judge');
     }
 });
 
-app.put('/api/judges/:id', async (req, res) => {
+eventRouter.put('/judges/:id', requireAdmin, rejectWhenPublished, readIfMatch, validateBody('judge', loadEventContext), async (req, res) => {
     try {
-        const { id } = req.params;
+        const { eventId, id } = req.params;
         const judge = req.body;
+        const before = await loadRow('judges', id, eventId);
         const result = await query(
-            'UPDATE judges SET name = $1, tracks = $2 WHERE id = $3 RETURNING *',
-            [judge.name, judge.tracks, id]
+            `UPDATE judges SET name = $1, tracks = $2, version = version + 1
+             WHERE id = $3 AND "eventId" = $4 AND ($5::int IS NULL OR version = $5) RETURNING *`,
+            [judge.name, judge.tracks, id, eventId, req.expectedVersion]
         );
-        if (result.rows.length === 0) return res.status(404).json({ message: 'Judge not found' });
+        if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'judges', label: 'Judge', id, eventId });
+        await recordChange(req, { eventId, entity: 'judges', entityId: id, action: 'update', before, after: result.rows[0] });
+        broadcast(eventId, 'judges', 'upsert', result.rows[0]);
         res.json(result.rows[0]);
     } catch (error) {
         handleError(res, error, 'updating judge');
     }
 });
 
-app.delete('/api/judges/:id', async (req, res) => {
+eventRouter.delete('/judges/:id', requireAdmin, rejectWhenPublished, async (req, res) => {
     try {
-        const { id } = req.params;
-        const result = await query('DELETE FROM judges WHERE id = $1', [id]);
+        const { eventId, id } = req.params;
+        const result = await query('DELETE FROM judges WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
         if (result.rowCount === 0) return res.status(404).json({ message: 'Judge not found' });
+        await query('DELETE FROM sessions WHERE role = $1 AND "userId" = $2', ['judge', id]);
+        closeStreams({ role: 'judge', userId: id });
+        await recordChange(req, { eventId, entity: 'judges', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'judges', 'delete', result.rows[0]);
         res.status(200).json({ success: true });
     } catch (error) {
         handleError(res, error, 'deleting judge');
     }
 });
 
+// Lets one judge keep scoring during deliberation, e.g. to correct a score the panel questioned.
+// The flag is not part of the judge form, so changing it does not bump the judge's version.
+eventRouter.put('/judges/:id/scoring-unlock', requireAdmin, validateBody('scoringUnlock'), async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        if (req.event.phase !== 'deliberation') {
+            return res.status(409).json({ message: 'Judges can only be unlocked during deliberation.' });
+        }
+        const before = await loadRow('judges', id, eventId);
+        if (!before) return res.status(404).json({ message: 'Judge not found' });
+        const result = await query(
+            'UPDATE judges SET "scoringUnlocked" = $1 WHERE id = $2 AND "eventId" = $3 RETURNING *',
+            [req.body.unlocked, id, eventId]
+        );
+        await recordChange(req, { eventId, entity: 'judges', entityId: id, action: 'update', before, after: result.rows[0] });
+        broadcast(eventId, 'judges', 'upsert', result.rows[0]);
+        res.json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'unlocking judge scoring');
+    }
+});
+
+// Issues a new invite code for a judge, revoking any previous one. The code doubles as the judge's login credential.
+eventRouter.post('/judges/:id/invite', requireAdmin, async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const judgeRes = await query('SELECT id FROM judges WHERE id = $1 AND "eventId" = $2', [id, eventId]);
+        if (judgeRes.rows.length === 0) return res.status(404).json({ message: 'Judge not found' });
+        const inviteCode = generateToken();
+        await query(
+            `INSERT INTO judge_invites ("judgeId", "tokenHash", "createdAt") VALUES ($1, $2, NOW())
+             ON CONFLICT ("judgeId") DO UPDATE SET "tokenHash" = EXCLUDED."tokenHash", "createdAt" = EXCLUDED."createdAt"`,
+            [id, hashToken(inviteCode)]
+        );
+        // Revoking the old code also ends any sessions it opened.
+        await query('DELETE FROM sessions WHERE role = $1 AND "userId" = $2', ['judge', id]);
+        closeStreams({ role: 'judge', userId: id });
+        // Only the fact that a code was issued is recorded, never the code itself.
+        await recordChange(req, { eventId, entity: 'judges', entityId: id, action: 'invite' });
+        res.status(201).json({ inviteCode });
+    } catch (error) {
+        handleError(res, error, 'creating judge invite');
+    }
+});
+
 // CRITERIA
-app.post('/api/criteria', async (req, res) => {
+// Each criterion is scored on its own scale, from `scaleMin` to `scaleMax` in steps of `scaleStep`, with optional
+// rubric anchors saying what particular scores mean. A pass/fail gate is scored 0 (fail) or 1 (pass), carries no
+// weight, and disqualifies a project that most of its judges fail. A criterion with `trackIds` only applies to
+// projects in those tracks; an empty list means every track.
+const MAX_SCALE_LEVELS = 101;
+
+const appliesToTrack = (criterion, trackId) => criterion.trackIds.length === 0 || criterion.trackIds.includes(trackId);
+
+const isOnScale = (value, criterion) => {
+  const steps = (value - criterion.scaleMin) / criterion.scaleStep;
+  return value >= criterion.scaleMin && value <= criterion.scaleMax && Math.abs(steps - Math.round(steps)) < 1e-6;
+};
+
+const describeScale = (criterion) => `between ${criterion.scaleMin} and ${criterion.scaleMax} in steps of ${criterion.scaleStep}`;
+
+// The checks across fields that the schema cannot express, reported the same way as `validate` does.
+const checkCriterionScale = (criterion) => {
+  if (criterion.isGate) {
+    const errors = Object.keys(criterion.weight)
+      .filter(bandId => criterion.weight[bandId] !== 0)
+      .map(bandId => ({ field: `weight.${bandId}`, message: 'A pass/fail gate carries no weight.' }));
+    if (criterion.scaleMin !== 0 || criterion.scaleMax !== 1 || criterion.scaleStep !== 1) {
+      errors.push({ field: 'scaleMax', message: 'A pass/fail gate is scored 0 (fail) or 1 (pass).' });
+    }
+    return errors;
+  }
+  if (criterion.scaleMax <= criterion.scaleMin) return [{ field: 'scaleMax', message: 'Must be greater than the minimum.' }];
+  if (!isOnScale(criterion.scaleMax, criterion)) return [{ field: 'scaleStep', message: 'The range must divide evenly into steps.' }];
+  if ((criterion.scaleMax - criterion.scaleMin) / criterion.scaleStep + 1 > MAX_SCALE_LEVELS) {
+    return [{ field: 'scaleStep', message: `The scale can have at most ${MAX_SCALE_LEVELS} levels.` }];
+  }
+  return (criterion.rubric || [])
+    .map((anchor, index) => ({ anchor, index }))
+    .filter(({ anchor }) => !isOnScale(anchor.score, criterion))
+    .map(({ index }) => ({ field: `rubric[${index}].score`, message: `Must be a score on the scale, ${describeScale(criterion)}.` }));
+};
+
+eventRouter.post('/criteria', requireAdmin, rejectWhenPublished, validateBody('criterion', loadEventContext), async (req, res) => {
     try {
+        const { eventId } = req.params;
         const newCriterionData = req.body;
-        const newCriterion = { id: `c_${Date.now()}`, ...newCriterionData };
+        const scaleErrors = checkCriterionScale(newCriterionData);
+        if (scaleErrors.length > 0) return sendValidationErrors(res, scaleErrors);
+        const newCriterion = { id: createId('c'), ...newCriterionData };
         const result = await query(
-            'INSERT INTO criteria (id, name, weight) VALUES ($1, $2, $3) RETURNING *',
-            [newCriterion.id, newCriterion.name, newCriterion.weight]
+            `INSERT INTO criteria (id, "eventId", name, description, weight, "scaleMin", "scaleMax", "scaleStep", rubric, "isGate", "trackIds")
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+            [newCriterion.id, eventId, newCriterion.name, newCriterion.description ?? null, newCriterion.weight,
+             newCriterion.scaleMin, newCriterion.scaleMax, newCriterion.scaleStep, JSON.stringify(newCriterion.rubric || []), !!newCriterion.isGate,
+             newCriterion.trackIds || []]
         );
+        await recordChange(req, { eventId, entity: 'criteria', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(eventId, 'criteria', 'upsert', result.rows[0]);
         res.status(201).json(result.rows[0]);
     } catch (error) {
         handleError(res, error, 'creating criterion');
     }
 });
 
-app.put('/api/criteria/:id', async (req, res) => {
+const scaleChanged = (before, criterion) => ['scaleMin', 'scaleMax', 'scaleStep'].some(key => Number(before[key]) !== criterion[key])
+  || before.isGate !== !!criterion.isGate;
+
+// The number of submitted scores whose value for the criterion would not fit its new scale. Drafts are left
+// out; the judge is asked to fix those when submitting.
+const findScoresOffScale = async (eventId, criterionId, criterion) => {
+  const result = await query(
+    `SELECT "criteriaScores"->$2 AS value FROM scores WHERE "eventId" = $1 AND status = 'submitted' AND "criteriaScores" ? $2`,
+    [eventId, criterionId]
+  );
+  return result.rows.filter(row => typeof row.value === 'number' && !isOnScale(row.value, criterion)).length;
+};
+
+eventRouter.put('/criteria/:id', requireAdmin, rejectWhenPublished, readIfMatch, validateBody('criterion', loadEventContext), async (req, res) => {
     try {
-        const { id } = req.params;
+        const { eventId, id } = req.params;
         const criterion = req.body;
+        const scaleErrors = checkCriterionScale(criterion);
+        if (scaleErrors.length > 0) return sendValidationErrors(res, scaleErrors);
+        const before = await loadRow('criteria', id, eventId);
+        const offScale = before && scaleChanged(before, criterion) ? await findScoresOffScale(eventId, id, criterion) : 0;
+        if (offScale > 0) {
+            return res.status(409).json({
+                message: `${offScale} submitted score${offScale === 1 ? ' is' : 's are'} not ${describeScale(criterion)}. Keep the current scale or have those scores changed first.`,
+            });
+        }
         const result = await query(
-            'UPDATE criteria SET name = $1, weight = $2 WHERE id = $3 RETURNING *',
-            [criterion.name, criterion.weight, id]
+            `UPDATE criteria SET name = $1, description = $2, weight = $3, "scaleMin" = $4, "scaleMax" = $5, "scaleStep" = $6,
+                rubric = $7, "isGate" = $8, "trackIds" = $9, version = version + 1
+             WHERE id = $10 AND "eventId" = $11 AND ($12::int IS NULL OR version = $12) RETURNING *`,
+            [criterion.name, criterion.description ?? null, criterion.weight, criterion.scaleMin, criterion.scaleMax, criterion.scaleStep,
+             JSON.stringify(criterion.rubric || []), !!criterion.isGate, criterion.trackIds || [], id, eventId, req.expectedVersion]
         );
-        if (result.rows.length === 0) return res.status(404).json({ message: 'Criterion not found' });
+        if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'criteria', label: 'Criterion', id, eventId });
+        await recordChange(req, { eventId, entity: 'criteria', entityId: id, action: 'update', before, after: result.rows[0] });
+        broadcast(eventId, 'criteria', 'upsert', result.rows[0]);
         res.json(result.rows[0]);
     } catch (error) {
         handleError(res, error, 'updating criterion');
     }
 });
 
-app.delete('/api/criteria/:id', async (req, res) => {
+eventRouter.delete('/criteria/:id', requireAdmin, rejectWhenPublished, async (req, res) => {
     try {
-        const { id } = req.params;
-        const result = await query('DELETE FROM criteria WHERE id = $1', [id]);
+        const { eventId, id } = req.params;
+        const result = await query('DELETE FROM criteria WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
         if (result.rowCount === 0) return res.status(404).json({ message: 'Criterion not found' });
+        await recordChange(req, { eventId, entity: 'criteria', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'criteria', 'delete', result.rows[0]);
         res.status(200).json({ success: true });
     } catch (error) {
         handleError(res, error, 'deleting criterion');
     }
 });
 
+// WEIGHT SETS
+// A weight set is a named, numbered copy of the event's criteria weights. Saving one makes it the active set,
+// which is stamped on each score as it is submitted, so editing the criteria later does not change how earlier
+// submissions are weighted unless the admin asks for a recompute. Sets are never edited or removed.
+const WEIGHT_TOTAL = 100;
+
+// One error per TRL band whose criteria weights do not add up to 100.
+// Only the criteria that apply to every track count; results rescale each project's weights to the criteria
+// that apply to it, so track criteria come on top of these.
+const checkWeightTotals = (criteria, trlBands) => trlBands
+  .map(band => ({ band, total: criteria.filter(c => c.trackIds.length === 0).reduce((sum, c) => sum + (c.weight[band.id] ?? 0), 0) }))
+  .filter(({ total }) => Math.abs(total - WEIGHT_TOTAL) > 0.001)
+  .map(({ band, total }) => ({ field: `weights.${band.id}`, message: `The weights for ${band.name} add up to ${total}; they must add up to ${WEIGHT_TOTAL}.` }));
+
+eventRouter.post('/weight-sets', requireAdmin, validateBody('weightSet'), async (req, res) => {
+    try {
+        const { eventId } = req.params;
+        const [criteriaRes, trlBandsRes] = await Promise.all([
+            query('SELECT * FROM criteria WHERE "eventId" = $1', [eventId]),
+            query('SELECT * FROM trl_bands ORDER BY position, name'),
+        ]);
+        if (criteriaRes.rows.length === 0) return res.status(409).json({ message: 'Add criteria before saving a weight set.' });
+        const errors = checkWeightTotals(criteriaRes.rows, trlBandsRes.rows);
+        if (errors.length > 0) return sendValidationErrors(res, errors);
+        const weights = Object.fromEntries(criteriaRes.rows.map(c => [c.id, c.weight]));
+        const created = await transaction(async (tx) => {
+            const previousRes = await tx('UPDATE weight_sets SET "isActive" = false WHERE "eventId" = $1 AND "isActive" RETURNING *', [eventId]);
+            const insertRes = await tx(
+                `INSERT INTO weight_sets (id, "eventId", number, name, weights, "isActive", "createdBy", "createdAt")
+                 VALUES ($1, $2, (SELECT COALESCE(MAX(number), 0) + 1 FROM weight_sets WHERE "eventId" = $2), $3, $4, true, $5, NOW())
+                 RETURNING *`,
+                [createId('ws'), eventId, req.body.name.trim(), JSON.stringify(weights), req.user.id]
+            );
+            return { previous: previousRes.rows, weightSet: insertRes.rows[0] };
+        });
+        await recordChange(req, { eventId, entity: 'weightSets', entityId: created.weightSet.id, action: 'create', after: created.weightSet });
+        created.previous.forEach(previous => broadcast(eventId, 'weightSets', 'upsert', previous));
+        broadcast(eventId, 'weightSets', 'upsert', created.weightSet);
+        res.status(201).json(created.weightSet);
+    } catch (error) {
+        handleError(res, error, 'creating weight set');
+    }
+});
+
+// Makes an earlier set the one stamped on new submissions again. Scores already submitted keep their set.
+eventRouter.put('/weight-sets/:id/activate', requireAdmin, async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const before = await loadRow('weight_sets', id, eventId);
+        if (!before) return res.status(404).json({ message: 'Weight set not found' });
+        const changed = await transaction(async (tx) => {
+            const previousRes = await tx('UPDATE weight_sets SET "isActive" = false WHERE "eventId" = $1 AND "isActive" AND id <> $2 RETURNING *', [eventId, id]);
+            const activeRes = await tx('UPDATE weight_sets SET "isActive" = true WHERE id = $1 RETURNING *', [id]);
+            return { previous: previousRes.rows, weightSet: activeRes.rows[0] };
+        });
+        await recordChange(req, { eventId, entity: 'weightSets', entityId: id, action: 'update', before, after: changed.weightSet });
+        changed.previous.forEach(previous => broadcast(eventId, 'weightSets', 'upsert', previous));
+        broadcast(eventId, 'weightSets', 'upsert', changed.weightSet);
+        res.json(changed.weightSet);
+    } catch (error) {
+        handleError(res, error, 'activating weight set');
+    }
+});
+
+// TRACKS
+eventRouter.post('/tracks', requireAdmin, validateBody('track'), async (req, res) => {
+    try {
+        const { eventId } = req.params;
+        const newTrack = { id: createId('t'), ...req.body };
+        const result = await query(
+            'INSERT INTO tracks (id, "eventId", name) VALUES ($1, $2, $3) RETURNING *',
+            [newTrack.id, eventId, newTrack.name]
+        );
+        await recordChange(req, { eventId, entity: 'tracks', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(eventId, 'tracks', 'upsert', result.rows[0]);
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'creating track');
+    }
+});
+
+eventRouter.put('/tracks/:id', requireAdmin, readIfMatch, validateBody('track'), async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const track = req.body;
+        const before = await loadRow('tracks', id, eventId);
+        const result = await query(
+            'UPDATE tracks SET name = $1, version = version + 1 WHERE id = $2 AND "eventId" = $3 AND ($4::int IS NULL OR version = $4) RETURNING *',
+            [track.name, id, eventId, req.expectedVersion]
+        );
+        if (result.rows.length === 0) return sendUpdateMiss(res, { table: 'tracks', label: 'Track', id, eventId });
+        await recordChange(req, { eventId, entity: 'tracks', entityId: id, action: 'update', before, after: result.rows[0] });
+        broadcast(eventId, 'tracks', 'upsert', result.rows[0]);
+        res.json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'updating track');
+    }
+});
+
+eventRouter.delete('/tracks/:id', requireAdmin, async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const inUse = await query('SELECT COUNT(*)::int AS count FROM projects WHERE track = $1 AND "eventId" = $2', [id, eventId]);
+        if (inUse.rows[0].count > 0) {
+            return res.status(409).json({ message: `Track is used by ${inUse.rows[0].count} project(s); move them to another track first.` });
+        }
+        // Dropping the track from a criterion that targets only it would make that criterion apply to every track.
+        const targeted = await query('SELECT COUNT(*)::int AS count FROM criteria WHERE $1 = ANY("trackIds") AND "eventId" = $2', [id, eventId]);
+        if (targeted.rows[0].count > 0) {
+            return res.status(409).json({ message: `Track is targeted by ${targeted.rows[0].count} criteria; change their tracks first.` });
+        }
+        const result = await query('DELETE FROM tracks WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
+        if (result.rowCount === 0) return res.status(404).json({ message: 'Track not found' });
+        await query('UPDATE judges SET tracks = array_remove(tracks, $1) WHERE "eventId" = $2', [id, eventId]);
+        // Clients remove the track from their judges when they receive the deletion.
+        await recordChange(req, { eventId, entity: 'tracks', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'tracks', 'delete', result.rows[0]);
+        res.status(200).json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'deleting track');
+    }
+});
+
+// ASSIGNMENTS
+// Returns an error message if the pair cannot be assigned in this event, or null if it can.
+const checkAssignable = async (eventId, judgeId, projectId) => {
+    const [judgeRes, projectRes, conflictRes] = await Promise.all([
+        query('SELECT id FROM judges WHERE id = $1 AND "eventId" = $2', [judgeId, eventId]),
+        query('SELECT id FROM projects WHERE id = $1 AND "eventId" = $2', [projectId, eventId]),
+        query('SELECT id FROM conflicts WHERE "judgeId" = $1 AND "projectId" = $2', [judgeId, projectId]),
+    ]);
+    if (judgeRes.rows.length === 0) return 'Judge not found';
+    if (projectRes.rows.length === 0) return 'Project not found';
+    if (conflictRes.rows.length > 0) return 'This judge has a declared conflict of interest with the project';
+    return null;
+};
+
+eventRouter.post('/assignments', requireAdmin, validateBody('assignment'), async (req, res) => {
+    try {
+        const { eventId } = req.params;
+        const { judgeId, projectId } = req.body;
+        const problem = await checkAssignable(eventId, judgeId, projectId);
+        if (problem) return res.status(409).json({ message: problem });
+        const result = await query(
+            'INSERT INTO assignments (id, "eventId", "judgeId", "projectId") VALUES ($1, $2, $3, $4) RETURNING *',
+            [createId('as'), eventId, judgeId, projectId]
+        );
+        await recordChange(req, { eventId, entity: 'assignments', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(eventId, 'assignments', 'upsert', result.rows[0]);
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'creating assignment');
+    }
+});
+
+// Replaces every assignment of the event, e.g. with the output of auto-assign.
+// Pairs that already have a score must be kept so no submitted score loses its assignment (unless the pair is conflicted).
+eventRouter.put('/assignments', requireAdmin, async (req, res) => {
+    try {
+        const { eventId } = req.params;
+        const pairs = req.body; // Expects an array of { judgeId, projectId }
+        if (!Array.isArray(pairs)) return sendValidationErrors(res, [{ field: '', message: 'Expected an array of assignments.' }]);
+        const invalid = pairs.flatMap((a, index) => validate('assignment', a).map(e => ({ ...e, field: `[${index}].${e.field}` })));
+        if (invalid.length > 0) return sendValidationErrors(res, invalid);
+        const requested = new Set(pairs.map(a => `${a.judgeId}::${a.projectId}`));
+        if (requested.size < pairs.length) {
+            const duplicates = pairs
+                .map((a, index) => ({ key: `${a.judgeId}::${a.projectId}`, index }))
+                .filter(({ key }, index, all) => all.findIndex(other => other.key === key) !== index)
+                .map(({ index }) => ({ field: `[${index}]`, message: 'This judge and project are already listed.' }));
+            return sendValidationErrors(res, duplicates);
+        }
+        const scoredRes = await query(
+            `SELECT DISTINCT s."judgeId", s."projectId" FROM scores s
+             WHERE s."eventId" = $1
+             AND NOT EXISTS (SELECT 1 FROM conflicts c WHERE c."judgeId" = s."judgeId" AND c."projectId" = s."projectId")`,
+            [eventId]
+        );
+        const dropped = scoredRes.rows.filter(s => !requested.has(`${s.judgeId}::${s.projectId}`));
+        if (dropped.length > 0) {
+            return res.status(409).json({ message: `${dropped.length} scored assignment(s) would be removed; scored pairs must stay assigned.` });
+        }
+        for (const a of pairs) {
+            const problem = await checkAssignable(eventId, a.judgeId, a.projectId);
+            if (problem) return res.status(409).json({ message: problem });
+        }
+        // The old assignments are only gone once every new one is in, so a failed insert leaves them untouched.
+        const { removed, created } = await transaction(async (tx) => {
+            const removedRes = await tx('DELETE FROM assignments WHERE "eventId" = $1 RETURNING *', [eventId]);
+            const inserted = [];
+            for (const a of pairs) {
+                const result = await tx(
+                    'INSERT INTO assignments (id, "eventId", "judgeId", "projectId") VALUES ($1, $2, $3, $4) RETURNING *',
+                    [createId('as'), eventId, a.judgeId, a.projectId]
+                );
+                inserted.push(result.rows[0]);
+            }
+            return { removed: removedRes.rows, created: inserted };
+        });
+        await recordChange(req, { eventId, entity: 'assignments', action: 'replace', before: removed, after: created });
+        broadcast(eventId, 'assignments', 'replace', created);
+        res.json(created);
+    } catch (error) {
+        handleError(res, error, 'replacing assignments');
+    }
+});
+
+eventRouter.delete('/assignments/:id', requireAdmin, async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const scoredRes = await query(
+            `SELECT s.id FROM scores s JOIN assignments a ON a."judgeId" = s."judgeId" AND a."projectId" = s."projectId"
+             WHERE a.id = $1`,
+            [id]
+        );
+        if (scoredRes.rows.length > 0) {
+            return res.status(409).json({ message: 'This judge has already scored the project; delete the score first.' });
+        }
+        const result = await query('DELETE FROM assignments WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
+        if (result.rowCount === 0) return res.status(404).json({ message: 'Assignment not found' });
+        await recordChange(req, { eventId, entity: 'assignments', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'assignments', 'delete', result.rows[0]);
+        res.status(200).json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'deleting assignment');
+    }
+});
+
+// CONFLICTS OF INTEREST
+// Judges declare their own conflicts; admins can record one for any judge. Either way the judge is recused:
+// their assignment to the project is removed and they can no longer score it.
+eventRouter.post('/conflicts', validateBody('conflict'), async (req, res) => {
+    try {
+        const { eventId } = req.params;
+        const { judgeId, projectId, reason } = req.body;
+        if (req.user.role === 'judge' && judgeId !== req.user.id) {
+            return res.status(403).json({ message: 'You can only declare conflicts for yourself' });
+        }
+        const [judgeRes, projectRes] = await Promise.all([
+            query('SELECT id FROM judges WHERE id = $1 AND "eventId" = $2', [judgeId, eventId]),
+            query('SELECT id FROM projects WHERE id = $1 AND "eventId" = $2', [projectId, eventId]),
+        ]);
+        if (judgeRes.rows.length === 0) return res.status(404).json({ message: 'Judge not found' });
+        if (projectRes.rows.length === 0) return res.status(404).json({ message: 'Project not found' });
+        const result = await query(
+            `INSERT INTO conflicts (id, "eventId", "judgeId", "projectId", reason, "declaredBy", "createdAt")
+             VALUES ($1, $2, $3, $4, $5, $6, NOW())
+             ON CONFLICT ("judgeId", "projectId") DO NOTHING
+             RETURNING *`,
+            [createId('coi'), eventId, judgeId, projectId, reason || null, req.user.role]
+        );
+        if (result.rows.length === 0) return res.status(409).json({ message: 'A conflict of interest is already recorded for this judge and project' });
+        await query('DELETE FROM assignments WHERE "judgeId" = $1 AND "projectId" = $2', [judgeId, projectId]);
+        // Clients drop the recused pair's assignment when they receive the conflict.
+        await recordChange(req, { eventId, entity: 'conflicts', entityId: result.rows[0].id, action: 'create', after: result.rows[0] });
+        broadcast(eventId, 'conflicts', 'upsert', result.rows[0]);
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        handleError(res, error, 'declaring conflict of interest');
+    }
+});
+
+// Only admins can lift a recusal.
+eventRouter.delete('/conflicts/:id', requireAdmin, async (req, res) => {
+    try {
+        const { eventId, id } = req.params;
+        const result = await query('DELETE FROM conflicts WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId]);
+        if (result.rowCount === 0) return res.status(404).json({ message: 'Conflict not found' });
+        await recordChange(req, { eventId, entity: 'conflicts', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'conflicts', 'delete', result.rows[0]);
+        res.status(200).json({ success: true });
+    } catch (error) {
+        handleError(res, error, 'deleting conflict of interest');
+    }
+});
+
 // SCORES
-app.post('/api/scores', async (req, res) => { // Handles upsert
+// A judge has at most one score per project, addressed by the pair. Saving it again updates the same row,
+// so a double submit or a second browser tab cannot create a duplicate.
+eventRouter.put('/projects/:projectId/scores/:judgeId', requireRole('judge'), readIfMatch, validateBody('score', loadEventContext), async (req, res) => {
     try {
+        const { eventId, projectId, judgeId } = req.params;
         const score = req.body;
+        if (judgeId !== req.user.id) {
+            return res.status(403).json({ message: 'You can only submit scores for yourself' });
+        }
+        const closedReason = await checkScoringOpen(req.event, judgeId);
+        if (closedReason) return res.status(409).json({ message: closedReason });
+        const projectRes = await query('SELECT id, track FROM projects WHERE id = $1 AND "eventId" = $2', [projectId, eventId]);
+        if (projectRes.rows.length === 0) return res.status(404).json({ message: 'Project not found' });
+        // Every score must lie on its criterion's scale, and a submitted score must cover every criterion that
+        // applies to the project's track. Criteria of other tracks cannot be scored.
+        const criteriaRes = await query('SELECT * FROM criteria WHERE "eventId" = $1', [eventId]);
+        const scoreErrors = criteriaRes.rows.flatMap(c => {
+            const value = score.criteriaScores[c.id];
+            if (!appliesToTrack(c, projectRes.rows[0].track)) {
+                return value === undefined ? [] : [{ field: `criteriaScores.${c.id}`, message: "This criterion does not apply to the project's track." }];
+            }
+            if (typeof value !== 'number') {
+                return score.status === 'submitted' ? [{ field: `criteriaScores.${c.id}`, message: 'Score this criterion before submitting.' }] : [];
+            }
+            return isOnScale(value, c) ? [] : [{ field: `criteriaScores.${c.id}`, message: `Must be ${describeScale(c)}.` }];
+        });
+        if (scoreErrors.length > 0) return sendValidationErrors(res, scoreErrors);
+        const conflictRes = await query('SELECT id FROM conflicts WHERE "judgeId" = $1 AND "projectId" = $2', [judgeId, projectId]);
+        if (conflictRes.rows.length > 0) return res.status(409).json({ message: 'You have a declared conflict of interest with this project and cannot score it' });
+        const assignmentRes = await query('SELECT id FROM assignments WHERE "judgeId" = $1 AND "projectId" = $2', [judgeId, projectId]);
+        if (assignmentRes.rows.length === 0) return res.status(403).json({ message: 'This project is not assigned to you' });
+        const beforeRes = await query('SELECT * FROM scores WHERE "projectId" = $1 AND "judgeId" = $2', [projectId, judgeId]);
+        const before = beforeRes.rows[0] || null;
+        // Online saves send no If-Match, so a repeated submit stays a harmless update. Saves replayed from a
+        // judge's offline queue send the version they were edited from ("0" for a score that did not exist yet),
+        // so they cannot silently overwrite what the judge saved on another device in the meantime.
+        if (req.expectedVersion !== null && before && before.version !== req.expectedVersion) {
+            return res.status(409).json({ message: 'This evaluation was changed on another device after it was edited offline.', current: before });
+        }
+        // The id is only used for a new row; an existing score keeps its id. Each submit pins the score to the
+        // event's active weight set; drafts have none.
+        // A submitted score is never turned back into a draft, e.g. by an autosave that arrives after the submit.
         const queryText = `
-            INSERT INTO scores (id, "projectId", "judgeId", "criteriaScores", "juryTrl", notes)
-            VALUES ($1, $2, $3, $4, $5, $6)
-            ON CONFLICT (id) DO UPDATE SET
-                "projectId" = EXCLUDED."projectId",
-                "judgeId" = EXCLUDED."judgeId",
+            INSERT INTO scores (id, "eventId", "projectId", "judgeId", "criteriaScores", "juryTrl", notes, status, "weightSetId")
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8,
+                CASE WHEN $8 = 'submitted' THEN (SELECT id FROM weight_sets WHERE "eventId" = $2 AND "isActive") END)
+            ON CONFLICT ("projectId", "judgeId") DO UPDATE SET
                 "criteriaScores" = EXCLUDED."criteriaScores",
                 "juryTrl" = EXCLUDED."juryTrl",
-                notes = EXCLUDED.notes
+                notes = EXCLUDED.notes,
+                status = EXCLUDED.status,
+                "weightSetId" = EXCLUDED."weightSetId",
+                version = scores.version + 1
+            WHERE scores.status = 'draft' OR EXCLUDED.status = 'submitted'
             RETURNING *;
         `;
-        const result = await query(queryText, [score.id, score.projectId, score.judgeId, score.criteriaScores, score.juryTrl, score.notes]);
+        const result = await query(queryText, [createId('s'), eventId, projectId, judgeId, score.criteriaScores, score.juryTrl ?? null, score.notes ?? null, score.status]);
+        if (result.rows.length === 0) {
+            return res.status(409).json({ message: 'This evaluation has already been submitted and cannot be saved as a draft.', current: before });
+        }
+        await recordChange(req, { eventId, entity: 'scores', entityId: result.rows[0].id, action: before ? 'update' : 'create', before, after: result.rows[0] });
+        broadcast(eventId, 'scores', 'upsert', result.rows[0]);
         res.status(200).json(result.rows[0]);
     } catch (error) {
         handleError(res, error, 'creating or updating score');
     }
 });
 
-app.delete('/api/scores/:id', async (req, res) => {
+eventRouter.delete('/scores/:id', async (req, res) => {
     try {
-        const { id } = req.params;
-        const result = await query('DELETE FROM scores WHERE id = $1', [id]);
+        const { eventId, id } = req.params;
+        // Judges may only delete while they can score; admins at any time until results are published.
+        const closedReason = req.user.role === 'admin'
+            ? (req.event.phase === 'published' ? RESULTS_PUBLISHED_MESSAGE : null)
+            : await checkScoringOpen(req.event, req.user.id);
+        if (closedReason) return res.status(409).json({ message: closedReason });
+        // Admins may delete any score; judges only their own.
+        const result = req.user.role === 'admin'
+            ? await query('DELETE FROM scores WHERE id = $1 AND "eventId" = $2 RETURNING *', [id, eventId])
+            : await query('DELETE FROM scores WHERE id = $1 AND "eventId" = $2 AND "judgeId" = $3 RETURNING *', [id, eventId, req.user.id]);
         if (result.rowCount === 0) return res.status(404).json({ message: 'Score not found' });
+        await recordChange(req, { eventId, entity: 'scores', entityId: id, action: 'delete', before: result.rows[0] });
+        broadcast(eventId, 'scores', 'delete', result.rows[0]);
         res.status(200).json({ success: true });
     } catch (error) {
         handleError(res, error, 'deleting score');
@@ -217,6 +1195,15 @@ app.delete('/api/scores/:id', async (req, res) => {
 });
 
 // --- Start Server ---
-app.listen(PORT, () => {
-  console.log(`Backend server is running on http://localhost:${PORT}`);
-});
+// The route tests load the app without starting it.
+if (require.main === module) {
+  ensureAdminAccount()
+    .catch(error => console.error('Error in creating admin account:', error))
+    .finally(() => {
+      app.listen(PORT, () => {
+        console.log(`Backend server is running on http://localhost:${PORT}`);
+      });
+    });
+}
+
+module.exports = app;
@@ -0,0 +1,105 @@
+// backend/testServer.js
+// Runs the API on a free port for the route tests, against a stand-in for Postgres. A test says how the queries it
+// cares about are answered with `db.on(pattern, respond)`, where `respond(params)` returns the result rows; any
+// other query returns no rows. `db.calls` records every query, so a test can check what was written.
+const crypto = require('crypto');
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const createFakeDb = () => {
+  const handlers = [];
+  const calls = [];
+  const query = async (text, params = []) => {
+    calls.push({ text, params });
+    const handler = handlers.find(h => h.pattern.test(text));
+    const rows = handler ? (await handler.respond(params, text)) || [] : [];
+    return { rows, rowCount: rows.length };
+  };
+  // Statements run in order on the same stand-in; the BEGIN and COMMIT or ROLLBACK around them are recorded so a
+  // test can check which writes share a transaction.
+  query.transaction = async (work) => {
+    calls.push({ text: 'BEGIN', params: [] });
+    try {
+      const result = await work(query);
+      calls.push({ text: 'COMMIT', params: [] });
+      return result;
+    } catch (error) {
+      calls.push({ text: 'ROLLBACK', params: [] });
+      throw error;
+    }
+  };
+  // Later registrations win, so a test can override the defaults.
+  query.on = (pattern, respond) => handlers.unshift({ pattern, respond });
+  query.calls = calls;
+  query.reset = () => {
+    handlers.length = 0;
+    calls.length = 0;
+  };
+  // The queries that match `pattern`, e.g. to check that a route wrote nothing.
+  query.callsTo = (pattern) => calls.filter(call => pattern.test(call.text));
+  // The statements of each committed or rolled back transaction, in order.
+  query.transactions = () => {
+    const transactions = [];
+    let open = null;
+    calls.forEach(({ text }) => {
+      if (text === 'BEGIN') transactions.push(open = []);
+      else if (text === 'COMMIT' || text === 'ROLLBACK') open = null;
+      else if (open) open.push(text);
+    });
+    return transactions;
+  };
+  return query;
+};
+
+const startTestServer = async () => {
+  const db = createFakeDb();
+  const dbPath = require.resolve('./db');
+  require.cache[dbPath] = { id: dbPath, filename: dbPath, loaded: true, exports: db };
+  const app = require('./server');
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+
+  // token -> { role, userId }; `signIn` adds one, and the session lookup of `authenticate` reads them.
+  const sessions = new Map();
+  const installDefaults = () => {
+    db.on(/FROM sessions WHERE "tokenHash"/, ([tokenHash]) => {
+      const session = sessions.get(tokenHash);
+      return session ? [session] : [];
+    });
+  };
+  installDefaults();
+
+  return {
+    db,
+    baseUrl,
+    signIn: (role, userId) => {
+      const token = `${role}-${userId}-${sessions.size}`;
+      sessions.set(hashToken(token), { role, userId });
+      return token;
+    },
+    // Forgets the queries, handlers and sessions of the previous test.
+    reset: () => {
+      db.reset();
+      sessions.clear();
+      installDefaults();
+    },
+    request: async (method, path, { token, body, headers = {} } = {}) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    },
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
+
+module.exports = { startTestServer, hashToken };
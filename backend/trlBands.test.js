@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('admin', 'a1');
+  api.db.on(/SELECT COUNT\(\*\)::int AS count FROM projects WHERE trl/, () => [{ count: 0 }]);
+});
+
+describe('deleting a TRL band', () => {
+  it('removes its weights from the criteria and the weight sets in the same transaction', async () => {
+    api.db.on(/DELETE FROM trl_bands/, ([id]) => [{ id, name: 'Prototype' }]);
+    expect((await api.request('DELETE', '/trl-bands/b2', { token })).status).toBe(200);
+    const [statements] = api.db.transactions();
+    expect(statements).toEqual([
+      expect.stringMatching(/DELETE FROM trl_bands/),
+      expect.stringMatching(/UPDATE criteria SET weight = weight - \$1/),
+      expect.stringMatching(/UPDATE weight_sets SET weights/),
+      expect.stringMatching(/UPDATE scores SET "juryTrl" = NULL/),
+    ]);
+    expect(api.db.callsTo(/UPDATE weight_sets/)[0].params).toEqual(['b2']);
+  });
+
+  it('changes nothing for an unknown band', async () => {
+    expect((await api.request('DELETE', '/trl-bands/b9', { token })).status).toBe(404);
+    expect(api.db.callsTo(/UPDATE/)).toHaveLength(0);
+  });
+
+  it('is refused while projects use the band', async () => {
+    api.db.on(/SELECT COUNT\(\*\)::int AS count FROM projects WHERE trl/, () => [{ count: 2 }]);
+    expect((await api.request('DELETE', '/trl-bands/b2', { token })).status).toBe(409);
+    expect(api.db.callsTo(/DELETE FROM trl_bands/)).toHaveLength(0);
+  });
+});
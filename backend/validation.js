@@ -0,0 +1,32 @@
+// backend/validation.js
+// Every write route validates its body against the shared schemas, so a bad value is rejected with a 400 before it
+// reaches Postgres.
+const { SCHEMAS, validate } = require('../shared/validation.js');
+
+const toMessage = (errors) =>
+  `Invalid request: ${errors.map(e => (e.field ? `${e.field}: ${e.message}` : e.message)).join(' ')}`;
+
+// Sends 400 `{ message, errors: [{ field, message }] }`.
+const sendValidationErrors = (res, errors) => res.status(400).json({ message: toMessage(errors), errors });
+
+// Express middleware that rejects a request whose body does not match the schema.
+// `loadContext(req)` returns the id sets that `oneOf` and `keys` rules refer to.
+const validateBody = (schemaName, loadContext) => async (req, res, next) => {
+  try {
+    const context = loadContext ? await loadContext(req) : {};
+    const errors = validate(schemaName, req.body, context);
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+    next();
+  } catch (error) {
+    console.error('Error in validating request:', error);
+    res.status(500).json({ message: 'An error occurred in validating request.', error: error.message });
+  }
+};
+
+module.exports = {
+  SCHEMAS,
+  validate,
+  toMessage,
+  sendValidationErrors,
+  validateBody,
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { sendValidationErrors, toMessage, validateBody } from './validation';
+
+const createResponse = () => {
+  const res = {};
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  return res;
+};
+
+describe('toMessage', () => {
+  it('lists every error with its field', () => {
+    expect(toMessage([{ field: 'name', message: 'This field is required.' }, { field: '', message: 'Expected an object.' }])).toBe(
+      'Invalid request: name: This field is required. Expected an object.'
+    );
+  });
+});
+
+describe('sendValidationErrors', () => {
+  it('responds 400 with the message and the field errors', () => {
+    const res = createResponse();
+    const errors = [{ field: 'name', message: 'This field is required.' }];
+    sendValidationErrors(res, errors);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ message: 'Invalid request: name: This field is required.', errors });
+  });
+});
+
+describe('validateBody', () => {
+  it('passes a valid body on', async () => {
+    const next = vi.fn();
+    const res = createResponse();
+    await validateBody('track')({ body: { name: 'DeFi' } }, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('checks ids against the sets loaded for the request', async () => {
+    const next = vi.fn();
+    const res = createResponse();
+    const loadContext = vi.fn(async () => ({ trackIds: new Set(['t1']) }));
+    const req = { body: { name: 'Ada', tracks: ['t2'] } };
+    await validateBody('judge', loadContext)(req, res, next);
+    expect(loadContext).toHaveBeenCalledWith(req);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].errors).toEqual([{ field: 'tracks[0]', message: 'Unknown track "t2".' }]);
+  });
+
+  it('responds 500 when the id sets cannot be loaded', async () => {
+    const next = vi.fn();
+    const res = createResponse();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await validateBody('judge', async () => { throw new Error('connection lost'); })({ body: {} }, res, next);
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(next).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestServer } from './testServer';
+
+let api;
+let token;
+
+// Project p1 of event e1, at version 2 in the fake table.
+const stored = { id: 'p1', eventId: 'e1', name: 'Pulse', description: '', track: 't1', trl: 'b1', version: 2 };
+const edit = { name: 'Pulse 2', description: '', track: 't1', trl: 'b1' };
+
+const updateProject = (headers) => api.request('PUT', '/events/e1/projects/p1', { token, body: edit, headers });
+
+beforeAll(async () => {
+  api = await startTestServer();
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  api.reset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  token = api.signIn('admin', 'a1');
+  api.db.on(/SELECT \* FROM events WHERE id/, ([id]) => [{ id, name: 'Hack', phase: 'judging', version: 1 }]);
+  api.db.on(/SELECT id FROM tracks WHERE "eventId"/, () => [{ id: 't1' }]);
+  api.db.on(/SELECT id FROM trl_bands/, () => [{ id: 'b1' }]);
+  api.db.on(/SELECT \* FROM projects WHERE id/, () => [stored]);
+  // Like Postgres, the update only matches when no version is expected or the expected one is current.
+  api.db.on(/UPDATE projects SET/, (params) => {
+    const expectedVersion = params[8];
+    if (expectedVersion !== null && expectedVersion !== stored.version) return [];
+    return [{ ...stored, name: params[0], version: stored.version + 1 }];
+  });
+});
+
+describe('If-Match', () => {
+  it('saves an edit made from the current version', async () => {
+    const { status, body } = await updateProject({ 'If-Match': '"2"' });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ name: 'Pulse 2', version: 3 });
+  });
+
+  it('refuses an edit made from an older version and returns the current copy', async () => {
+    const { status, body } = await updateProject({ 'If-Match': '"1"' });
+    expect(status).toBe(409);
+    expect(body.current).toEqual(stored);
+    expect(api.db.callsTo(/INSERT INTO audit_log/)).toHaveLength(0);
+  });
+
+  it('overwrites without a version, as before', async () => {
+    expect((await updateProject()).status).toBe(200);
+    expect((await updateProject({ 'If-Match': '*' })).status).toBe(200);
+  });
+
+  it('must be a version number', async () => {
+    const { status } = await updateProject({ 'If-Match': '"abc"' });
+    expect(status).toBe(400);
+    expect(api.db.callsTo(/UPDATE projects/)).toHaveLength(0);
+  });
+
+  it('reports a deleted row as not found', async () => {
+    api.db.on(/SELECT \* FROM projects WHERE id/, () => []);
+    expect((await updateProject({ 'If-Match': '"1"' })).status).toBe(404);
+  });
+});
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { Project, Judge, AuditEntry, AuditEntity, AuditAction, UserRole } from '../types';
+import { AuditFilters } from '../services/dbService';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditRecord, getAuditFieldChanges } from '../services/auditService';
+import { exportAuditLog, ExportFormat } from '../services/exportService';
+
+interface ActivityLogProps {
+  eventName: string;
+  projects: Project[];
+  judges: Judge[];
+  loadAuditLog: (filters: AuditFilters) => Promise<AuditEntry[] | null>;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-[#95e000]/30 text-[#3d5a00]',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  replace: 'bg-yellow-100 text-yellow-800',
+  invite: 'bg-gray-100 text-gray-700',
+};
+
+// Date inputs give a local calendar day; the server filters on instants, with an exclusive end.
+const startOfDay = (date: string, addDays = 0) => {
+  const day = new Date(`${date}T00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
+// The admin-only history of every change to the event, newest first, for settling disputes after results are out.
+const ActivityLog: React.FC<ActivityLogProps> = ({ eventName, projects, judges, loadAuditLog }) => {
+  const [entity, setEntity] = useState('');
+  const [action, setAction] = useState('');
+  const [actor, setActor] = useState(''); // '' for anyone, 'admin' for any admin, or a judge id
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const filters: AuditFilters = {
+      entity: (entity || undefined) as AuditEntity | undefined,
+      action: (action || undefined) as AuditAction | undefined,
+      actorRole: actor === 'admin' ? UserRole.ADMIN : undefined,
+      actorId: actor && actor !== 'admin' ? actor : undefined,
+      from: fromDate ? startOfDay(fromDate) : undefined,
+      to: toDate ? startOfDay(toDate, 1) : undefined,
+    };
+    // A slower response to an earlier filter must not overwrite the current one.
+    let isCurrent = true;
+    setIsLoading(true);
+    loadAuditLog(filters).then(result => {
+      if (!isCurrent) return;
+      if (result) setEntries(result);
+      setIsLoading(false);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [entity, action, actor, fromDate, toDate, reloadCount]);
+
+  const handleExport = (format: ExportFormat) => {
+    if (entries.length === 0) {
+      alert('There is no activity to export.');
+      return;
+    }
+    exportAuditLog({ eventName, entries, projects, judges }, format);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 mb-4">
+        <h3 className="text-xl font-bold">Activity</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setReloadCount(c => c + 1)}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors"
+          >
+            Export Workbook
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <select value={entity} onChange={(e) => setEntity(e.target.value)} className={`text-sm ${inputClassName}`} aria-label="Record type">
+          <option value="">All records</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(key => (
+            <option key={key} value={key}>{AUDIT_ENTITY_LABELS[key]}</option>
+          ))}
+        </select>
+        <select value={action} onChange={(e) => setAction(e.target.value)} className={`text-sm ${inputClassName}`} aria-label="Action">
+          <option value="">All actions</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+            <option key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+        <select value={actor} onChange={(e) => setActor(e.target.value)} className={`text-sm ${inputClassName}`} aria-label="Changed by">
+          <option value="">Anyone</option>
+          <option value="admin">Admins</option>
+          {judges.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+        </select>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">From</span>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`text-sm ${inputClassName}`} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">To</span>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`text-sm ${inputClassName}`} />
+        </label>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{isLoading ? 'Loading activity…' : 'No activity matches these filters.'}</p>
+      ) : (
+        <div className="max-h-[60vh] overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2">Time</th>
+                <th className="px-3 py-2">Changed By</th>
+                <th className="px-3 py-2">Action</th>
+                <th className="px-3 py-2">Record</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                const changes = isExpanded ? getAuditFieldChanges(entry) : [];
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-gray-900">{entry.actorName || entry.actorId}</span>
+                        <span className="ml-1 text-xs text-gray-500">{entry.actorRole}</span>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                        <span className="ml-2 text-gray-700">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">{describeAuditRecord(entry, projects, judges)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {entry.action !== 'invite' && (
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            className="text-[#5c11c9] hover:underline text-xs font-medium"
+                          >
+                            {isExpanded ? 'Hide' : 'Details'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-3 py-3">
+                          {entry.action === 'replace' ? (
+                            <div className="grid grid-cols-2 gap-3 text-xs font-mono">
+                              <pre className="whitespace-pre-wrap break-all">{JSON.stringify(entry.before, null, 2)}</pre>
+                              <pre className="whitespace-pre-wrap break-all">{JSON.stringify(entry.after, null, 2)}</pre>
+                            </div>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead className="text-gray-500 uppercase">
+                                <tr>
+                                  <th className="px-2 py-1 text-left">Field</th>
+                                  <th className="px-2 py-1 text-left">Before</th>
+                                  <th className="px-2 py-1 text-left">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map(change => (
+                                  <tr key={change.field}>
+                                    <td className="px-2 py-1 font-medium text-gray-700 align-top">{change.field}</td>
+                                    <td className="px-2 py-1 font-mono text-red-700 break-all align-top">{change.before || '—'}</td>
+                                    <td className="px-2 py-1 font-mono text-green-700 break-all align-top">{change.after || '—'}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -1,29 +1,66 @@
 import React, { useState, useMemo } from 'react';
-import { Project, Judge, Criterion, Score, ProjectResult, TRACKS, TRL, Track, ProjectLink } from '../types';
+import { Project, Judge, Criterion, Score, Track, TrlBand, RankingOptions, HackathonEvent, Assignment, Conflict, AuditEntry, EventPhase, ResultSnapshot, WeightSet } from '../types';
 import ResultsTable from './ResultsTable';
 import EditProjectModal from './EditProjectModal';
 import JudgeModal from './JudgeModal';
 import CriterionModal from './CriterionModal';
+import TrackAwards from './TrackAwards';
+import TrackTrlSettings from './TrackTrlSettings';
+import ImportWizard from './ImportWizard';
+import AssignmentManager from './AssignmentManager';
+import ProgressMatrix from './ProgressMatrix';
+import AnalyticsPanel from './AnalyticsPanel';
+import ActivityLog from './ActivityLog';
+import PhaseControl from './PhaseControl';
+import WeightSetPanel from './WeightSetPanel';
 import { TrophyIcon, ProjectIcon, JudgeIcon, ListIcon, EditIcon, DeleteIcon } from './icons';
-import { calculateFinalRankings } from '../services/evaluationService';
-
-// Add declaration for XLSX from CDN
-declare var XLSX: any;
+import { calculateFinalRankings, getAwards, DEFAULT_RANKING_OPTIONS } from '../services/evaluationService';
+import { getEvaluationProgress, getCompletionRate } from '../services/progressService';
+import { exportResults, ExportFormat } from '../services/exportService';
+import { getWeightTotals, WEIGHT_TOTAL } from '../services/weightService';
+import { formatScale } from '../services/scaleService';
+import { AuditFilters, BulkCreateResult, BulkMode } from '../services/dbService';
 
 interface AdminDashboardProps {
   projects: Project[];
   judges: Judge[];
   criteria: Criterion[];
   scores: Score[];
-  addProjects: (newProjects: Omit<Project, 'id'>[]) => void;
-  editProject: (updatedProject: Project) => void;
+  tracks: Track[];
+  trlBands: TrlBand[];
+  addProjects: (newProjects: Omit<Project, 'id'>[], mode?: BulkMode) => Promise<BulkCreateResult<Project> | null>;
+  editProject: (updatedProject: Project) => Promise<Project | null>;
   deleteProject: (projectId: string) => void;
-  addJudge: (newJudge: Omit<Judge, 'id'>) => void;
-  editJudge: (updatedJudge: Judge) => void;
+  addJudge: (newJudge: Omit<Judge, 'id'>) => Promise<Judge | null>;
+  editJudge: (updatedJudge: Judge) => Promise<Judge | null>;
   deleteJudge: (judgeId: string) => void;
-  addCriterion: (newCriterion: Omit<Criterion, 'id'>) => void;
-  editCriterion: (updatedCriterion: Criterion) => void;
+  createJudgeInvite: (judgeId: string) => Promise<string | null>;
+  addCriterion: (newCriterion: Omit<Criterion, 'id'>) => Promise<Criterion | null>;
+  editCriterion: (updatedCriterion: Criterion) => Promise<Criterion | null>;
   deleteCriterion: (criterionId: string) => void;
+  addTrack: (newTrack: Omit<Track, 'id'>) => void;
+  editTrack: (updatedTrack: Track) => void;
+  deleteTrack: (trackId: string) => void;
+  addTrlBand: (newBand: Omit<TrlBand, 'id'>) => void;
+  editTrlBand: (updatedBand: TrlBand) => void;
+  deleteTrlBand: (bandId: string) => void;
+  currentEvent: HackathonEvent;
+  updateEvent: (updatedEvent: HackathonEvent) => Promise<void>;
+  // Publishing sends the ranking options; the server ranks the stored scores with them.
+  changeEventPhase: (event: HackathonEvent, phase: EventPhase, options?: RankingOptions) => Promise<void>;
+  resultSnapshot: ResultSnapshot | null;
+  weightSets: WeightSet[];
+  addWeightSet: (name: string) => Promise<void>;
+  activateWeightSet: (weightSetId: string) => void;
+  setJudgeScoringUnlocked: (judgeId: string, unlocked: boolean) => void;
+  assignments: Assignment[];
+  conflicts: Conflict[];
+  addAssignment: (pair: Omit<Assignment, 'id'>) => void;
+  replaceAssignments: (pairs: Omit<Assignment, 'id'>[]) => Promise<boolean>;
+  deleteAssignment: (assignmentId: string) => void;
+  declareConflict: (conflict: Pick<Conflict, 'judgeId' | 'projectId' | 'reason'>) => void;
+  deleteConflict: (conflictId: string) => void;
+  loadAuditLog: (filters: AuditFilters) => Promise<AuditEntry[] | null>;
 }
 
 const StatCard: React.FC<{ title: string; value: string | number; icon: React.ReactNode }> = ({ title, value, icon }) => (
@@ -37,30 +74,42 @@ const StatCard: React.FC<{ title: string; value: string | number; icon: React.Re
 );
 
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, criteria, scores, addProjects, editProject, deleteProject, addJudge, editJudge, deleteJudge, addCriterion, editCriterion, deleteCriterion }) => {
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, criteria, scores, tracks, trlBands, addProjects, editProject, deleteProject, addJudge, editJudge, deleteJudge, createJudgeInvite, addCriterion, editCriterion, deleteCriterion, addTrack, editTrack, deleteTrack, addTrlBand, editTrlBand, deleteTrlBand, currentEvent, updateEvent, changeEventPhase, resultSnapshot, weightSets, addWeightSet, activateWeightSet, setJudgeScoringUnlocked, assignments, conflicts, addAssignment, replaceAssignments, deleteAssignment, declareConflict, deleteConflict, loadAuditLog }) => {
     const [activeTab, setActiveTab] = useState('results');
-    const [importFile, setImportFile] = useState<File | null>(null);
-    const [importTrack, setImportTrack] = useState<Track>(TRACKS[0]);
+    const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
     const [editingProject, setEditingProject] = useState<Project | null>(null);
     const [editingJudge, setEditingJudge] = useState<Judge | null>(null);
     const [isJudgeModalOpen, setIsJudgeModalOpen] = useState(false);
     const [editingCriterion, setEditingCriterion] = useState<Criterion | null>(null);
     const [isCriterionModalOpen, setIsCriterionModalOpen] = useState(false);
     
-    const finalResults = useMemo(() => calculateFinalRankings(projects, scores, criteria), [projects, scores, criteria]);
+    const [rankingOptions, setRankingOptions] = useState<RankingOptions>(DEFAULT_RANKING_OPTIONS);
+    
+    const finalResults = useMemo(
+        () => calculateFinalRankings(projects, scores, criteria, rankingOptions, conflicts, weightSets),
+        [projects, scores, criteria, rankingOptions, conflicts, weightSets]
+    );
+    // Once published, the saved snapshot is shown and exported instead of the live calculation.
+    const displayedResults = resultSnapshot ? resultSnapshot.results : finalResults;
+    const displayedOptions = resultSnapshot ? resultSnapshot.options : rankingOptions;
+    const awards = useMemo(() => getAwards(displayedResults, tracks), [displayedResults, tracks]);
+    const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+    const trlBandNames = useMemo(() => new Map(trlBands.map(b => [b.id, b.name])), [trlBands]);
+    const weightTotals = useMemo(() => getWeightTotals(criteria, trlBands), [criteria, trlBands]);
+    const invalidWeightTotals = weightTotals.filter(t => !t.isValid);
 
-    const totalScoresPossible = useMemo(() => {
-        // Assuming each project needs 2 judges from the mock data logic. This can be made more dynamic.
-        return projects.length * 2;
-    }, [projects]);
-    const evaluationProgress = totalScoresPossible > 0 ? (scores.length / totalScoresPossible) * 100 : 0;
+    const progress = useMemo(
+        () => getEvaluationProgress(projects, judges, tracks, assignments, scores, conflicts),
+        [projects, judges, tracks, assignments, scores, conflicts]
+    );
+    const evaluationProgress = getCompletionRate(progress.overall) * 100;
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files.length > 0) {
-            setImportFile(e.target.files[0]);
-        } else {
-            setImportFile(null);
+    const handleOpenImportWizard = () => {
+        if (tracks.length === 0 || trlBands.length === 0) {
+            alert("Please set up at least one track and one TRL band before importing projects.");
+            return;
         }
+        setIsImportWizardOpen(true);
     };
 
     const handleDeleteProject = (projectId: string) => {
@@ -86,151 +135,115 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
         setIsJudgeModalOpen(true);
     };
 
-    const handleSaveJudge = (judgeData: Omit<Judge, 'id'> | Judge) => {
-        if ('id' in judgeData) {
-            editJudge(judgeData);
-        } else {
-            addJudge(judgeData);
-        }
+    // A rejected save throws before the modal is closed, so the modal can show the field errors.
+    // A failed save leaves the form open, so the admin keeps their input; handleApiCall has already reported why.
+    const handleSaveJudge = async (judgeData: Omit<Judge, 'id'> | Judge) => {
+        const saved = 'id' in judgeData ? await editJudge(judgeData) : await addJudge(judgeData);
+        if (!saved) return;
         setIsJudgeModalOpen(false);
         setEditingJudge(null);
     };
 
+    const handleCreateInvite = async (judge: Judge) => {
+        if (!window.confirm(`Generate a new sign-in link for ${judge.name}? Any previous link for this judge will stop working.`)) {
+            return;
+        }
+        const inviteCode = await createJudgeInvite(judge.id);
+        if (inviteCode) {
+            const inviteLink = `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(inviteCode)}`;
+            window.prompt(`Share this sign-in link with ${judge.name}. It will not be shown again.`, inviteLink);
+        }
+    };
+
     const handleOpenCriterionModal = (criterion: Criterion | null) => {
         setEditingCriterion(criterion);
         setIsCriterionModalOpen(true);
     };
 
-    const handleSaveCriterion = (criterionData: Omit<Criterion, 'id'> | Criterion) => {
-        if ('id' in criterionData) {
-            editCriterion(criterionData);
-        } else {
-            addCriterion(criterionData);
-        }
+    const handleSaveCriterion = async (criterionData: Omit<Criterion, 'id'> | Criterion) => {
+        const saved = 'id' in criterionData ? await editCriterion(criterionData) : await addCriterion(criterionData);
+        if (!saved) return;
         setIsCriterionModalOpen(false);
         setEditingCriterion(null);
     };
 
-    const handleImport = () => {
-        if (!importFile) {
-            alert("Please select a file to import.");
+    const handleChangePhase = (phase: EventPhase) => {
+        if (phase !== EventPhase.PUBLISHED) {
+            changeEventPhase(currentEvent, phase);
             return;
         }
-
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const data = e.target?.result;
-                const workbook = XLSX.read(data, { type: 'array' });
-                const sheetName = workbook.SheetNames[0];
-                const worksheet = workbook.Sheets[sheetName];
-                // FIX: Cast the result of `sheet_to_json` instead of passing a type argument, as `XLSX` is untyped.
-                const json = XLSX.utils.sheet_to_json(worksheet) as { 'Project Name': string; 'Description': string; 'TRL': string; 'Links'?: string }[];
-
-                const getTRL = (trlString: string): TRL => {
-                    if (typeof trlString !== 'string') return TRL.IDEATION;
-                    const lowerTrl = trlString.toLowerCase();
-                    if (lowerTrl.includes('prototype') || lowerTrl.includes('4-6')) {
-                        return TRL.PROTOTYPE;
-                    }
-                    return TRL.IDEATION;
-                };
-
-                const newProjects: Omit<Project, 'id'>[] = json
-                    .filter(row => row['Project Name']) // Ensure project name exists
-                    .map((row, index) => {
-                        const links: ProjectLink[] = row.Links?.split(',')
-                            .map(linkPair => {
-                                const [label, url] = linkPair.split('|').map(s => s.trim());
-                                return { label, url };
-                            })
-                            .filter(l => l.label && l.url) || [];
-
-                        return {
-                            name: row['Project Name'],
-                            description: row['Description'] || 'No description provided.',
-                            track: importTrack,
-                            trl: getTRL(row['TRL']),
-                            links: links.length > 0 ? links : undefined,
-                        };
-                    });
-                
-                if (newProjects.length > 0) {
-                    addProjects(newProjects);
-                    alert(`${newProjects.length} projects processed from the file.`);
-                } else {
-                    alert('No valid projects found in the file to import.');
-                }
-                
-                setImportFile(null);
-                const fileInput = document.getElementById('project-import-input') as HTMLInputElement;
-                if (fileInput) fileInput.value = '';
-
-            } catch (error) {
-                console.error("Error importing file:", error);
-                alert("Failed to import projects. Please check the file format and column headers ('Project Name', 'Description', 'TRL', 'Links') and try again.");
-            }
-        };
-        reader.readAsArrayBuffer(importFile);
+        if (finalResults.length === 0) {
+            alert('There are no results to publish yet.');
+            return;
+        }
+        changeEventPhase(currentEvent, phase, rankingOptions);
     };
 
+    const handleExport = (format: ExportFormat) => {
+        if (displayedResults.length === 0) {
+            alert('There are no results to export yet.');
+            return;
+        }
+        exportResults({
+            eventName: currentEvent.name,
+            results: displayedResults,
+            projects,
+            judges,
+            criteria,
+            scores,
+            tracks,
+            trlBands,
+            conflicts,
+            weightSets,
+            options: displayedOptions,
+        }, format);
+    };
 
     const renderContent = () => {
         switch (activeTab) {
             case 'results':
-                return <ResultsTable results={finalResults} judges={judges} />;
+                return (
+                    <>
+                        <div className="flex justify-end gap-2 mb-4">
+                            <button
+                                onClick={() => handleExport('csv')}
+                                className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors"
+                            >
+                                Export CSV
+                            </button>
+                            <button
+                                onClick={() => handleExport('xlsx')}
+                                className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors"
+                            >
+                                Export Workbook
+                            </button>
+                        </div>
+                        <TrackAwards awards={awards} />
+                        <ResultsTable results={displayedResults} judges={judges} tracks={tracks} trlBands={trlBands} criteria={criteria} assignments={assignments} reviewsPerProject={currentEvent.reviewsPerProject} options={displayedOptions} onOptionsChange={resultSnapshot ? undefined : setRankingOptions} />
+                    </>
+                );
             case 'projects':
                 return (
                     <div className="bg-white p-6 rounded-xl border border-gray-200">
                         <div className="flex justify-between items-center mb-4">
                              <h3 className="text-xl font-bold">All Projects</h3>
-                             <span className="font-mono text-[#5c11c9] bg-[#5c11c9]/10 px-3 py-1 rounded-md text-sm">{projects.length} Projects</span>
+                             <div className="flex items-center gap-3">
+                                 <span className="font-mono text-[#5c11c9] bg-[#5c11c9]/10 px-3 py-1 rounded-md text-sm">{projects.length} Projects</span>
+                                 <button
+                                     onClick={handleOpenImportWizard}
+                                     className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors"
+                                 >
+                                     Import Projects
+                                 </button>
+                             </div>
                         </div>
                         
-                        {/* Import Section */}
-                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 mb-6">
-                            <h4 className="font-semibold text-gray-900 mb-3">Import Projects from Excel</h4>
-                            <p className="text-sm text-gray-500 mb-4">
-                                Upload an Excel file (.xlsx, .xls, .csv) with columns: "Project Name", "Description", "TRL", and "Links" (optional, format: Label1|URL1, Label2|URL2).
-                            </p>
-                            <div className="flex flex-col sm:flex-row items-center gap-4">
-                                <div className='w-full sm:w-auto'>
-                                  <label htmlFor="track-select" className="sr-only">Select Track</label>
-                                  <select
-                                      id="track-select"
-                                      value={importTrack}
-                                      onChange={(e) => setImportTrack(e.target.value as Track)}
-                                      className="bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none w-full"
-                                  >
-                                      {TRACKS.map(track => <option key={track} value={track}>{track}</option>)}
-                                  </select>
-                                </div>
-                                <div className='w-full flex-1'>
-                                    <label htmlFor="project-import-input" className="sr-only">Choose file</label>
-                                    <input 
-                                        id="project-import-input"
-                                        type="file" 
-                                        accept=".xlsx, .xls, .csv"
-                                        onChange={handleFileChange}
-                                        className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#5c11c9]/10 file:text-[#5c11c9] hover:file:bg-[#5c11c9]/20 cursor-pointer"
-                                    />
-                                </div>
-                                <button
-                                    onClick={handleImport}
-                                    disabled={!importFile}
-                                    className="px-6 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed w-full sm:w-auto"
-                                >
-                                    Import
-                                </button>
-                            </div>
-                        </div>
-
                         <ul className="divide-y divide-gray-200 max-h-[50vh] overflow-y-auto pr-2">
                             {projects.map(p => (
                                 <li key={p.id} className="py-3 flex justify-between items-center group">
                                     <div>
                                         <p className="font-semibold text-gray-900">{p.name}</p>
-                                        <p className="text-sm text-gray-500">{p.track} - {p.trl}</p>
+                                        <p className="text-sm text-gray-500">{trackNames.get(p.track) || p.track} - {trlBandNames.get(p.trl) || p.trl}</p>
                                     </div>
                                     <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                         <button
@@ -269,10 +282,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
                             {judges.map(j => (
                                 <li key={j.id} className="py-3 flex justify-between items-center group">
                                     <div>
-                                        <p className="font-semibold text-gray-900">{j.name}</p>
-                                        <p className="text-sm text-gray-500">Tracks: {j.tracks.join(', ')}</p>
+                                        <p className="font-semibold text-gray-900">
+                                            {j.name}
+                                            {j.scoringUnlocked && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">Scoring unlocked</span>}
+                                        </p>
+                                        <p className="text-sm text-gray-500">Tracks: {j.tracks.map(t => trackNames.get(t) || t).join(', ')}</p>
                                     </div>
                                      <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        {currentEvent.phase === EventPhase.DELIBERATION && (
+                                            <button
+                                                onClick={() => setJudgeScoringUnlocked(j.id, !j.scoringUnlocked)}
+                                                className="px-3 py-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                            >
+                                                {j.scoringUnlocked ? 'Lock Scoring' : 'Unlock Scoring'}
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => handleCreateInvite(j)}
+                                            className="px-3 py-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                        >
+                                            Invite Link
+                                        </button>
                                         <button
                                             onClick={() => handleOpenJudgeModal(j)}
                                             className="p-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors"
@@ -293,6 +323,30 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
                         </ul>
                     </div>
                 );
+            case 'assignments':
+                return (
+                    <AssignmentManager
+                        key={currentEvent.id}
+                        event={currentEvent}
+                        projects={projects}
+                        judges={judges}
+                        scores={scores}
+                        tracks={tracks}
+                        assignments={assignments}
+                        conflicts={conflicts}
+                        onUpdateEvent={updateEvent}
+                        onAddAssignment={addAssignment}
+                        onReplaceAssignments={replaceAssignments}
+                        onDeleteAssignment={deleteAssignment}
+                        onDeclareConflict={declareConflict}
+                        onDeleteConflict={deleteConflict}
+                    />
+                );
+            case 'progress':
+                return <ProgressMatrix progress={progress} projects={projects} tracks={tracks} />;
+            case 'analytics':
+                // Analytics follow the live scores and the ranking settings of the Results tab, even after publishing.
+                return <AnalyticsPanel results={finalResults} judges={judges} tracks={tracks} />;
             case 'criteria':
                 return (
                      <div className="bg-white p-6 rounded-xl border border-gray-200">
@@ -305,21 +359,41 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
                                 Add Criterion
                             </button>
                         </div>
+                        {criteria.length > 0 && invalidWeightTotals.length > 0 && (
+                            <p className="text-sm bg-red-50 border border-red-200 text-red-800 rounded-md p-3 mb-4">
+                                The weights of the criteria for every track must add up to {WEIGHT_TOTAL}% per TRL. Adjust {invalidWeightTotals.map(t => `${t.band.name} (${t.total}%)`).join(', ')}.
+                            </p>
+                        )}
                         <table className="w-full text-sm text-left">
                             <thead className="text-xs text-gray-500 uppercase bg-gray-50">
                                 <tr>
                                     <th className="px-4 py-2">Criterion</th>
-                                    <th className="px-4 py-2 text-center">Ideation Weight</th>
-                                    <th className="px-4 py-2 text-center">Prototype Weight</th>
+                                    <th className="px-4 py-2 text-center">Scale</th>
+                                    {trlBands.map(band => (
+                                        <th key={band.id} className="px-4 py-2 text-center">{band.name.split(' ')[0]} Weight</th>
+                                    ))}
                                     <th className="px-4 py-2 text-center">Actions</th>
                                 </tr>
                             </thead>
                             <tbody className='divide-y divide-gray-200'>
                                 {criteria.map(c => (
                                     <tr key={c.id}>
-                                        <td className="px-4 py-2 font-medium text-gray-900">{c.name}</td>
-                                        <td className="px-4 py-2 text-center font-mono">{c.weight[TRL.IDEATION]}%</td>
-                                        <td className="px-4 py-2 text-center font-mono">{c.weight[TRL.PROTOTYPE]}%</td>
+                                        <td className="px-4 py-2 font-medium text-gray-900">
+                                            {c.name}
+                                            {c.isGate && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">Gate</span>}
+                                            {c.trackIds.length > 0 && (
+                                                <span className="block text-xs font-normal text-[#5c11c9]">
+                                                    Only {c.trackIds.map(id => tracks.find(t => t.id === id)?.name || id).join(', ')}
+                                                </span>
+                                            )}
+                                            {c.rubric && c.rubric.length > 0 && (
+                                                <span className="block text-xs font-normal text-gray-400">{c.rubric.length} rubric anchor{c.rubric.length === 1 ? '' : 's'}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2 text-center font-mono text-gray-600">{formatScale(c)}</td>
+                                        {trlBands.map(band => (
+                                            <td key={band.id} className="px-4 py-2 text-center font-mono">{c.weight[band.id] ?? 0}%</td>
+                                        ))}
                                         <td className="px-4 py-2">
                                             <div className="flex space-x-2 justify-center">
                                                 <button
@@ -341,9 +415,44 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
                                     </tr>
                                 ))}
                             </tbody>
+                            {criteria.length > 0 && (
+                                <tfoot className="border-t-2 border-gray-200">
+                                    <tr>
+                                        <td className="px-4 py-2 font-semibold text-gray-700">Total <span className="font-normal text-gray-400">(all tracks)</span></td>
+                                        <td></td>
+                                        {weightTotals.map(t => (
+                                            <td key={t.band.id} className={`px-4 py-2 text-center font-mono font-semibold ${t.isValid ? 'text-gray-900' : 'text-red-600'}`}>{t.total}%</td>
+                                        ))}
+                                        <td></td>
+                                    </tr>
+                                </tfoot>
+                            )}
                         </table>
+                        <WeightSetPanel
+                            criteria={criteria}
+                            trlBands={trlBands}
+                            weightTotals={weightTotals}
+                            weightSets={weightSets}
+                            onCreate={addWeightSet}
+                            onActivate={activateWeightSet}
+                        />
                     </div>
                 );
+            case 'setup':
+                return (
+                    <TrackTrlSettings
+                        tracks={tracks}
+                        trlBands={trlBands}
+                        addTrack={addTrack}
+                        editTrack={editTrack}
+                        deleteTrack={deleteTrack}
+                        addTrlBand={addTrlBand}
+                        editTrlBand={editTrlBand}
+                        deleteTrlBand={deleteTrlBand}
+                    />
+                );
+            case 'activity':
+                return <ActivityLog eventName={currentEvent.name} projects={projects} judges={judges} loadAuditLog={loadAuditLog} />;
         }
     }
 
@@ -351,10 +460,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
         <div className="p-4 sm:p-6 lg:p-8">
             <h2 className="text-2xl font-bold mb-6">Admin Dashboard</h2>
 
+            <PhaseControl phase={currentEvent.phase} resultSnapshot={resultSnapshot} onChangePhase={handleChangePhase} />
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                 <StatCard title="Total Projects" value={projects.length} icon={<ProjectIcon className="w-6 h-6 text-[#5c11c9]"/>} />
                 <StatCard title="Total Judges" value={judges.length} icon={<JudgeIcon className="w-6 h-6 text-[#95e000]"/>} />
-                <StatCard title="Scores Submitted" value={`${scores.length} / ${totalScoresPossible}`} icon={<ListIcon className="w-6 h-6 text-[#5c11c9]"/>} />
+                <StatCard title="Scores Submitted" value={`${progress.overall.completed} / ${progress.overall.expected}`} icon={<ListIcon className="w-6 h-6 text-[#5c11c9]"/>} />
                 <div className="bg-white p-4 rounded-xl border border-gray-200">
                     <p className="text-gray-500 text-sm mb-2">Evaluation Progress</p>
                     <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -369,7 +480,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
                     <button onClick={() => setActiveTab('results')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'results' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Results</button>
                     <button onClick={() => setActiveTab('projects')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'projects' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Projects</button>
                     <button onClick={() => setActiveTab('judges')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'judges' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Judges</button>
+                    <button onClick={() => setActiveTab('assignments')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'assignments' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Assignments</button>
+                    <button onClick={() => setActiveTab('progress')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'progress' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Progress</button>
+                    <button onClick={() => setActiveTab('analytics')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'analytics' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Analytics</button>
                     <button onClick={() => setActiveTab('criteria')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'criteria' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Criteria</button>
+                    <button onClick={() => setActiveTab('setup')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'setup' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Tracks &amp; TRL</button>
+                    <button onClick={() => setActiveTab('activity')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'activity' ? 'border-[#5c11c9] text-[#5c11c9]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>Activity</button>
                 </nav>
             </div>
             
@@ -378,17 +494,28 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
             {editingProject && (
                 <EditProjectModal
                     project={editingProject}
+                    tracks={tracks}
+                    trlBands={trlBands}
                     onClose={() => setEditingProject(null)}
-                    onSave={(updatedProject) => {
-                        editProject(updatedProject);
-                        setEditingProject(null);
-                    }}
+                    onSave={editProject}
+                />
+            )}
+
+            {isImportWizardOpen && (
+                <ImportWizard
+                    projects={projects}
+                    tracks={tracks}
+                    trlBands={trlBands}
+                    onCreateProjects={addProjects}
+                    onUpdateProject={editProject}
+                    onClose={() => setIsImportWizardOpen(false)}
                 />
             )}
 
             {isJudgeModalOpen && (
                 <JudgeModal
                     judge={editingJudge}
+                    tracks={tracks}
                     onClose={() => {
                         setIsJudgeModalOpen(false);
                         setEditingJudge(null);
@@ -400,6 +527,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ projects, judges, crite
             {isCriterionModalOpen && (
                 <CriterionModal
                     criterion={editingCriterion}
+                    trlBands={trlBands}
+                    tracks={tracks}
                     onClose={() => {
                         setIsCriterionModalOpen(false);
                         setEditingCriterion(null);
@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { Judge, ProjectResult, Track } from '../types';
+import {
+  BIAS_THRESHOLD, CORRELATION_THRESHOLD, ERRATIC_DEVIATION_THRESHOLD, JudgeFlag, SPREAD_THRESHOLD,
+  describeAlpha, getAgreementAnalytics,
+} from '../services/analyticsService';
+
+interface AnalyticsPanelProps {
+  results: ProjectResult[];
+  judges: Judge[];
+  tracks: Track[];
+}
+
+const FLAG_STYLES: Record<JudgeFlag, { className: string; label: string; description: string }> = {
+  harsh: { className: 'bg-blue-100 text-blue-800', label: 'Harsh', description: `Scores at least ${BIAS_THRESHOLD} points below the other judges on average` },
+  lenient: { className: 'bg-yellow-100 text-yellow-800', label: 'Lenient', description: `Scores at least ${BIAS_THRESHOLD} points above the other judges on average` },
+  erratic: {
+    className: 'bg-red-100 text-red-800',
+    label: 'Erratic',
+    description: `Follows the other judges poorly (correlation below ${CORRELATION_THRESHOLD}) or strays from them by ${ERRATIC_DEVIATION_THRESHOLD}+ points`,
+  },
+};
+
+const getAlphaClassName = (alpha: number | null) => {
+  if (alpha === null) return 'text-gray-400';
+  if (alpha >= 0.8) return 'text-[#3d5a00]';
+  if (alpha >= 0.667) return 'text-yellow-700';
+  return 'text-red-600';
+};
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+// How much the judges disagree, so the admin knows which projects and judges to look at before deliberation.
+// Every figure uses the weighted scores (0-100) of the current ranking settings.
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ results, judges, tracks }) => {
+  const analytics = useMemo(() => getAgreementAnalytics(results, tracks), [results, tracks]);
+  const judgeNames = useMemo(() => new Map(judges.map(j => [j.id, j.name])), [judges]);
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  const flaggedProjects = analytics.projects.filter(p => p.needsReview);
+
+  if (results.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-2">Analytics</h3>
+        <p className="text-gray-500">Judge agreement is shown once evaluations have been submitted.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-1">Agreement by Track</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Krippendorff's alpha over the projects each track's judges have in common: 1 is perfect agreement, 0 no better than chance. Below 0.667, rankings within the track rest on judges who largely disagree.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {analytics.tracks.map(({ track, projectCount, alpha }) => (
+            <div key={track.id} className="p-4 rounded-lg border border-gray-200">
+              <p className="text-sm font-medium text-gray-700">{track.name}</p>
+              <p className={`text-2xl font-bold font-mono ${getAlphaClassName(alpha)}`}>{alpha === null ? '—' : alpha.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{describeAlpha(alpha)} · {projectCount} project{projectCount === 1 ? '' : 's'} with 2+ judges</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-1">Projects to Review</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {flaggedProjects.length > 0
+            ? `${flaggedProjects.length} project(s) have judges more than ${SPREAD_THRESHOLD} points apart (standard deviation) and deserve a second look.`
+            : `No project has judges more than ${SPREAD_THRESHOLD} points apart (standard deviation).`}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase bg-gray-50">
+              <tr>
+                <th className="px-4 py-2">Project</th>
+                <th className="px-4 py-2">Track</th>
+                <th className="px-4 py-2 text-center">Judges</th>
+                <th className="px-4 py-2 text-right">Mean</th>
+                <th className="px-4 py-2 text-right">Range</th>
+                <th className="px-4 py-2 text-right">Std. Dev.</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {analytics.projects.map(({ result, judgeCount, mean, stdev, min, max, needsReview }) => (
+                <tr key={result.project.id} className={needsReview ? 'bg-red-50' : undefined}>
+                  <td className="px-4 py-2 font-medium text-gray-900">
+                    {result.project.name}
+                    {needsReview && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">Review</span>}
+                  </td>
+                  <td className="px-4 py-2">{trackNames.get(result.project.track) || result.project.track}</td>
+                  <td className="px-4 py-2 text-center">{judgeCount}</td>
+                  <td className="px-4 py-2 text-right font-mono">{mean.toFixed(1)}</td>
+                  <td className="px-4 py-2 text-right font-mono">{judgeCount >= 2 ? `${min.toFixed(1)}–${max.toFixed(1)}` : '—'}</td>
+                  <td className={`px-4 py-2 text-right font-mono ${needsReview ? 'font-bold text-red-600' : ''}`}>{judgeCount >= 2 ? stdev.toFixed(1) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-1">Judges</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Each judge compared with the mean of the other judges on the projects they share. Judges without a shared project are not listed.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-500 uppercase bg-gray-50">
+              <tr>
+                <th className="px-4 py-2">Judge</th>
+                <th className="px-4 py-2 text-center">Shared Projects</th>
+                <th className="px-4 py-2 text-right">Avg. Difference</th>
+                <th className="px-4 py-2 text-right">Difference Std. Dev.</th>
+                <th className="px-4 py-2 text-right">Correlation</th>
+                <th className="px-4 py-2">Flags</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {analytics.judges.map(judge => (
+                <tr key={judge.judgeId}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{judgeNames.get(judge.judgeId) || judge.judgeId}</td>
+                  <td className="px-4 py-2 text-center">{judge.projectCount}</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatSigned(judge.meanDeviation)}</td>
+                  <td className="px-4 py-2 text-right font-mono">{judge.deviationStdev.toFixed(1)}</td>
+                  <td className="px-4 py-2 text-right font-mono">{judge.correlation === null ? '—' : judge.correlation.toFixed(2)}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {judge.flags.map(flag => (
+                        <span key={flag} className={`px-2 py-0.5 rounded text-xs font-medium ${FLAG_STYLES[flag].className}`} title={FLAG_STYLES[flag].description}>
+                          {FLAG_STYLES[flag].label}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
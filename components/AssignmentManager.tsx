@@ -0,0 +1,264 @@
+import React, { useState, useMemo } from 'react';
+import { Project, Judge, Score, Track, Assignment, Conflict, HackathonEvent } from '../types';
+import { autoAssign, getEligibleJudges, getJudgeLoads, pairKey } from '../services/assignmentService';
+import { FieldErrors, ValidationError, VersionConflictError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors } from '../services/validationService';
+import FieldError from './FieldError';
+
+interface AssignmentManagerProps {
+  event: HackathonEvent;
+  projects: Project[];
+  judges: Judge[];
+  scores: Score[];
+  tracks: Track[];
+  assignments: Assignment[];
+  conflicts: Conflict[];
+  onUpdateEvent: (updatedEvent: HackathonEvent) => Promise<void>;
+  onAddAssignment: (pair: Omit<Assignment, 'id'>) => void;
+  onReplaceAssignments: (pairs: Omit<Assignment, 'id'>[]) => Promise<boolean>;
+  onDeleteAssignment: (assignmentId: string) => void;
+  onDeclareConflict: (conflict: Pick<Conflict, 'judgeId' | 'projectId' | 'reason'>) => void;
+  onDeleteConflict: (conflictId: string) => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+const AssignmentManager: React.FC<AssignmentManagerProps> = ({ event, projects, judges, scores, tracks, assignments, conflicts, onUpdateEvent, onAddAssignment, onReplaceAssignments, onDeleteAssignment, onDeclareConflict, onDeleteConflict }) => {
+  const [reviewsPerProject, setReviewsPerProject] = useState(String(event.reviewsPerProject));
+  const [maxLoadPerJudge, setMaxLoadPerJudge] = useState(event.maxLoadPerJudge != null ? String(event.maxLoadPerJudge) : '');
+  const [settingsErrors, setSettingsErrors] = useState<FieldErrors>({});
+  const [conflictJudgeId, setConflictJudgeId] = useState('');
+  const [conflictProjectId, setConflictProjectId] = useState('');
+  const [conflictReason, setConflictReason] = useState('');
+
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  const judgeNames = useMemo(() => new Map(judges.map(j => [j.id, j.name])), [judges]);
+  const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+  const loads = useMemo(() => getJudgeLoads(judges, assignments), [judges, assignments]);
+  const scoredPairs = useMemo(() => new Set(scores.map(s => pairKey(s.judgeId, s.projectId))), [scores]);
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const updated = {
+        ...event,
+        reviewsPerProject: Number(reviewsPerProject),
+        maxLoadPerJudge: maxLoadPerJudge.trim() ? Number(maxLoadPerJudge) : null,
+    };
+    const errors = getFieldErrors('event', updated);
+    setSettingsErrors(errors);
+    if (hasFieldErrors(errors)) return;
+    try {
+        await onUpdateEvent(updated);
+    } catch (error) {
+        if (error instanceof VersionConflictError) {
+            // Show the targets someone else just saved; the user can adjust them and save again.
+            const current = error.current as HackathonEvent;
+            setReviewsPerProject(String(current.reviewsPerProject));
+            setMaxLoadPerJudge(current.maxLoadPerJudge != null ? String(current.maxLoadPerJudge) : '');
+            alert('Someone else changed the review targets after you opened this page. Their values are shown now.');
+        } else if (error instanceof ValidationError) {
+            setSettingsErrors(error.fieldErrors);
+        } else {
+            throw error;
+        }
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    if (!window.confirm('Auto-assign replaces all current assignments. Judges keep the projects they have already scored. Continue?')) {
+        return;
+    }
+    const plan = autoAssign(projects, judges, conflicts, scores, event);
+    const saved = await onReplaceAssignments(plan.assignments);
+    if (saved && plan.shortfalls.length > 0) {
+        alert(`${plan.shortfalls.length} project(s) could not reach ${event.reviewsPerProject} reviews. Add judges to their tracks or raise the maximum load.`);
+    }
+  };
+
+  const handleRemove = (assignment: Assignment) => {
+    if (window.confirm(`Remove ${judgeNames.get(assignment.judgeId) || 'this judge'} from the project?`)) {
+        onDeleteAssignment(assignment.id);
+    }
+  };
+
+  const handleRecordConflict = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!conflictJudgeId || !conflictProjectId) {
+        alert('Select both a judge and a project.');
+        return;
+    }
+    onDeclareConflict({ judgeId: conflictJudgeId, projectId: conflictProjectId, reason: conflictReason.trim() || undefined });
+    setConflictProjectId('');
+    setConflictReason('');
+  };
+
+  const handleDeleteConflict = (conflict: Conflict) => {
+    if (window.confirm(`Lift the recusal of ${judgeNames.get(conflict.judgeId) || 'this judge'} from ${projectNames.get(conflict.projectId) || 'this project'}? Any score they submitted earlier will count again.`)) {
+        onDeleteConflict(conflict.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+          <form onSubmit={handleSaveSettings} className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="reviews-per-project" className="block text-sm font-medium text-gray-700 mb-1">Reviews per Project</label>
+              <input
+                id="reviews-per-project"
+                type="number"
+                min="1"
+                value={reviewsPerProject}
+                onChange={(e) => setReviewsPerProject(e.target.value)}
+                className={`w-32 ${inputClassName}`}
+              />
+              <FieldError message={settingsErrors.reviewsPerProject} />
+            </div>
+            <div>
+              <label htmlFor="max-load" className="block text-sm font-medium text-gray-700 mb-1">Max Projects per Judge</label>
+              <input
+                id="max-load"
+                type="number"
+                min="1"
+                value={maxLoadPerJudge}
+                onChange={(e) => setMaxLoadPerJudge(e.target.value)}
+                placeholder="No limit"
+                className={`w-32 ${inputClassName}`}
+              />
+              <FieldError message={settingsErrors.maxLoadPerJudge} />
+            </div>
+            <button type="submit" className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+              Save Targets
+            </button>
+          </form>
+          <button
+            onClick={handleAutoAssign}
+            className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors"
+          >
+            Auto-Assign
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-6">
+          {judges.map(j => {
+            const load = loads.get(j.id) ?? 0;
+            const isFull = event.maxLoadPerJudge != null && load >= event.maxLoadPerJudge;
+            return (
+              <span key={j.id} className={`text-xs px-2 py-1 rounded-md ${isFull ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'}`}>
+                {j.name}: <span className="font-mono font-semibold">{load}{event.maxLoadPerJudge != null ? ` / ${event.maxLoadPerJudge}` : ''}</span>
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200 overflow-x-auto">
+        <h3 className="text-xl font-bold mb-4">Assignments</h3>
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-500 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-2">Project</th>
+              <th className="px-4 py-2 text-center">Reviews</th>
+              <th className="px-4 py-2">Judges</th>
+              <th className="px-4 py-2">Add Judge</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {projects.map(p => {
+              const projectAssignments = assignments.filter(a => a.projectId === p.id);
+              const assignedIds = new Set(projectAssignments.map(a => a.judgeId));
+              const available = getEligibleJudges(p, judges, conflicts).filter(j => !assignedIds.has(j.id));
+              const isShort = projectAssignments.length < event.reviewsPerProject;
+              return (
+                <tr key={p.id} className={isShort ? 'bg-yellow-50' : ''}>
+                  <td className="px-4 py-2">
+                    <p className="font-medium text-gray-900">{p.name}</p>
+                    <p className="text-xs text-gray-500">{trackNames.get(p.track) || p.track}</p>
+                  </td>
+                  <td className={`px-4 py-2 text-center font-mono ${isShort ? 'text-yellow-700 font-semibold' : 'text-gray-700'}`}>
+                    {projectAssignments.length} / {event.reviewsPerProject}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {projectAssignments.map(a => {
+                        const isScored = scoredPairs.has(pairKey(a.judgeId, a.projectId));
+                        return (
+                          <span key={a.id} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-[#5c11c9]/10 text-[#5c11c9]">
+                            {judgeNames.get(a.judgeId) || a.judgeId}
+                            {isScored ? (
+                              <span className="text-[#3d5a00]" title="Already scored">✓</span>
+                            ) : (
+                              <button onClick={() => handleRemove(a)} className="hover:text-red-700" aria-label="Remove assignment">×</button>
+                            )}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && onAddAssignment({ judgeId: e.target.value, projectId: p.id })}
+                      disabled={available.length === 0}
+                      className={`text-sm w-full ${inputClassName} disabled:bg-gray-100`}
+                    >
+                      <option value="">{available.length === 0 ? 'No eligible judges' : 'Select judge…'}</option>
+                      {available.map(j => <option key={j.id} value={j.id}>{j.name} ({loads.get(j.id) ?? 0})</option>)}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-1">Conflicts of Interest</h3>
+        <p className="text-sm text-gray-500 mb-4">A conflicted judge is removed from the project, cannot score it, and any score they already submitted is left out of the rankings.</p>
+        <form onSubmit={handleRecordConflict} className="flex flex-col md:flex-row gap-2 mb-4">
+          <select value={conflictJudgeId} onChange={(e) => setConflictJudgeId(e.target.value)} className={`text-sm ${inputClassName}`} aria-label="Judge">
+            <option value="">Select judge…</option>
+            {judges.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+          </select>
+          <select value={conflictProjectId} onChange={(e) => setConflictProjectId(e.target.value)} className={`text-sm ${inputClassName}`} aria-label="Project">
+            <option value="">Select project…</option>
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <input
+            type="text"
+            value={conflictReason}
+            onChange={(e) => setConflictReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className={`flex-1 text-sm ${inputClassName}`}
+          />
+          <button type="submit" className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
+            Record Conflict
+          </button>
+        </form>
+        {conflicts.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {conflicts.map(c => (
+              <li key={c.id} className="py-3 flex justify-between items-center group">
+                <div>
+                  <p className="font-semibold text-gray-900">{judgeNames.get(c.judgeId) || c.judgeId} — {projectNames.get(c.projectId) || c.projectId}</p>
+                  <p className="text-sm text-gray-500">{c.reason || 'No reason given'} · declared by {c.declaredBy}</p>
+                </div>
+                <button
+                  onClick={() => handleDeleteConflict(c)}
+                  className="px-3 py-2 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 text-sm font-medium opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  Lift Recusal
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400 italic">No conflicts recorded.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentManager;
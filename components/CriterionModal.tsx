@@ -1,64 +1,165 @@
 import React, { useState, useEffect } from 'react';
-import { Criterion, TRL } from '../types';
+import { Criterion, RubricAnchor, Track, TrlBand } from '../types';
+import FieldError from './FieldError';
+import VersionConflictView, { ConflictField } from './VersionConflictView';
+import { FieldErrors, ValidationError, VersionConflictError } from '../services/dbService';
+import { DEFAULT_SCALE, GATE_SCALE, formatScale, isOnScale } from '../services/scaleService';
+import { getFieldErrors, hasFieldErrors, toIdSet } from '../services/validationService';
 
 interface CriterionModalProps {
   criterion: Criterion | null;
+  trlBands: TrlBand[];
+  tracks: Track[];
   onClose: () => void;
-  onSave: (criterion: Omit<Criterion, 'id'> | Criterion) => void;
+  onSave: (criterion: Omit<Criterion, 'id'> | Criterion) => Promise<void>;
 }
 
-const CriterionModal: React.FC<CriterionModalProps> = ({ criterion, onClose, onSave }) => {
+const inputClassName = "w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+const formatRubric = (rubric?: RubricAnchor[] | null) =>
+  (rubric || []).map(anchor => `${anchor.score}: ${anchor.description}`).join('; ') || 'None';
+
+// A gate has a fixed 0/1 scale and no weight, so its scale and weight inputs are hidden.
+const CriterionModal: React.FC<CriterionModalProps> = ({ criterion, trlBands, tracks, onClose, onSave }) => {
   const [name, setName] = useState('');
-  const [ideationWeight, setIdeationWeight] = useState(0);
-  const [prototypeWeight, setPrototypeWeight] = useState(0);
+  const [description, setDescription] = useState('');
+  const [isGate, setIsGate] = useState(false);
+  const [scale, setScale] = useState(DEFAULT_SCALE);
+  const [rubric, setRubric] = useState<RubricAnchor[]>([]);
+  const [trackIds, setTrackIds] = useState<string[]>([]); // Empty means every track
+  const [weights, setWeights] = useState<{ [trlBandId: string]: number }>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [savedCriterion, setSavedCriterion] = useState<Criterion | null>(null); // The server's copy after an edit conflict
 
   useEffect(() => {
     if (criterion) {
-      setName(criterion.name);
-      setIdeationWeight(criterion.weight[TRL.IDEATION]);
-      setPrototypeWeight(criterion.weight[TRL.PROTOTYPE]);
+      loadCriterion(criterion);
     } else {
       setName('');
-      setIdeationWeight(20); // Default value
-      setPrototypeWeight(20); // Default value
+      setDescription('');
+      setIsGate(false);
+      setScale(DEFAULT_SCALE);
+      setRubric([]);
+      setTrackIds([]);
+      setWeights(Object.fromEntries(trlBands.map(b => [b.id, 20]))); // Default value
+      setVersion(undefined);
     }
-  }, [criterion]);
+  }, [criterion, trlBands]);
+
+  const loadCriterion = (source: Criterion) => {
+    setName(source.name);
+    setDescription(source.description || '');
+    setIsGate(!!source.isGate);
+    setScale({ scaleMin: source.scaleMin, scaleMax: source.scaleMax, scaleStep: source.scaleStep });
+    setRubric(source.rubric || []);
+    setTrackIds(source.trackIds || []);
+    setWeights(Object.fromEntries(trlBands.map(b => [b.id, source.weight[b.id] ?? 0])));
+    setVersion(source.version);
+  };
+
+  const handleGateChange = (checked: boolean) => {
+    setIsGate(checked);
+    setScale(checked ? GATE_SCALE : DEFAULT_SCALE);
+    setRubric([]);
+    if (checked) setWeights(Object.fromEntries(trlBands.map(b => [b.id, 0])));
+  };
+
+  const handleTrackToggle = (trackId: string, checked: boolean) => {
+    setTrackIds(prev => (checked ? [...prev, trackId] : prev.filter(id => id !== trackId)));
+  };
+
+  const handleRubricChange = (index: number, changes: Partial<RubricAnchor>) => {
+    setRubric(prev => prev.map((anchor, i) => (i === index ? { ...anchor, ...changes } : anchor)));
+  };
+
+  const save = async (baseVersion?: number) => {
+    const criterionData = {
+        name: name.trim(),
+        description: description.trim() || null,
+        weight: Object.fromEntries(Object.keys(weights).map(bandId => [bandId, Number(weights[bandId])])),
+        ...scale,
+        rubric: [...rubric].map(anchor => ({ ...anchor, description: anchor.description.trim() })).sort((a, b) => a.score - b.score),
+        isGate,
+        trackIds,
+    };
+    const errors = getFieldErrors('criterion', criterionData, { trackIds: toIdSet(tracks), trlBandIds: toIdSet(trlBands) });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+
+    try {
+        await onSave(criterion ? { ...criterionData, id: criterion.id, version: baseVersion } : criterionData);
+    } catch (error) {
+        if (error instanceof VersionConflictError) {
+            setSavedCriterion(error.current as Criterion);
+        } else if (error instanceof ValidationError) {
+            setFieldErrors(error.fieldErrors);
+        } else {
+            throw error;
+        }
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name.trim()) {
-        alert('Criterion name cannot be empty.');
+    if (!isGate && (scale.scaleMax <= scale.scaleMin || scale.scaleStep <= 0 || !isOnScale(scale.scaleMax, scale))) {
+        alert('The maximum score must be above the minimum, and the range must divide evenly into steps.');
         return;
     }
-    
-    if (isNaN(ideationWeight) || isNaN(prototypeWeight) || ideationWeight < 0 || prototypeWeight < 0 || ideationWeight > 100 || prototypeWeight > 100) {
-        alert('Weights must be a number between 0 and 100.');
+
+    if (rubric.some(anchor => !anchor.description.trim() || !isOnScale(anchor.score, scale))) {
+        alert('Every rubric anchor needs a description and a score on the scale.');
         return;
     }
+    save(version);
+  };
 
-    const criterionData = {
-        name: name.trim(),
-        weight: {
-            [TRL.IDEATION]: Number(ideationWeight),
-            [TRL.PROTOTYPE]: Number(prototypeWeight),
-        }
-    };
+  const handleOverwrite = () => {
+    if (!savedCriterion) return;
+    setVersion(savedCriterion.version);
+    setSavedCriterion(null);
+    save(savedCriterion.version);
+  };
 
-    if (criterion) {
-        onSave({ ...criterionData, id: criterion.id });
-    } else {
-        onSave(criterionData);
-    }
+  const handleUseSaved = () => {
+    if (!savedCriterion) return;
+    loadCriterion(savedCriterion);
+    setFieldErrors({});
+    setSavedCriterion(null);
   };
 
+  const formatTracks = (ids?: string[]) =>
+    ids && ids.length > 0 ? ids.map(id => tracks.find(t => t.id === id)?.name || id).join(', ') : 'All tracks';
+
+  const getConflictFields = (theirs: Criterion): ConflictField[] => [
+    { label: 'Criterion Name', mine: name.trim(), theirs: theirs.name },
+    { label: 'Description', mine: description.trim(), theirs: theirs.description || '' },
+    { label: 'Scale', mine: formatScale({ ...theirs, ...scale, isGate }), theirs: formatScale(theirs) },
+    { label: 'Rubric', mine: formatRubric(rubric), theirs: formatRubric(theirs.rubric) },
+    { label: 'Tracks', mine: formatTracks(trackIds), theirs: formatTracks(theirs.trackIds) },
+    ...trlBands.map(band => ({
+      label: `${band.name} Weight (%)`,
+      mine: String(weights[band.id] ?? 0),
+      theirs: String(theirs.weight[band.id] ?? 0),
+    })),
+  ];
+
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl border border-gray-200 shadow-2xl w-full max-w-lg">
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">{criterion ? 'Edit Criterion' : 'Add New Criterion'}</h3>
         </div>
+        {savedCriterion ? (
+          <VersionConflictView
+            entityLabel="criterion"
+            fields={getConflictFields(savedCriterion)}
+            onOverwrite={handleOverwrite}
+            onUseTheirs={handleUseSaved}
+          />
+        ) : (
         <form onSubmit={handleSubmit}>
-          <div className="p-6 space-y-4">
+          <div className="p-6 space-y-4 max-h-[65vh] overflow-y-auto">
             <div>
               <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Criterion Name</label>
               <input
@@ -66,38 +167,130 @@ const CriterionModal: React.FC<CriterionModalProps> = ({ criterion, onClose, onS
                 id="name"
                 value={name}
                 onChange={(e) => setName(e.target.value)}
-                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                className={inputClassName}
                 required
               />
+              <FieldError message={fieldErrors.name} />
             </div>
-            <div className="grid grid-cols-2 gap-4">
-                <div>
-                    <label htmlFor="ideationWeight" className="block text-sm font-medium text-gray-700 mb-1">Ideation Weight (%)</label>
-                    <input
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Description for Judges</label>
+              <textarea
+                id="description"
+                rows={2}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What judges should look for..."
+                className={inputClassName}
+              />
+              <FieldError message={fieldErrors.description} />
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Applies To</span>
+              <p className="text-sm text-gray-500 mb-2">Leave every track unticked to use this criterion for all projects.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {tracks.map(track => (
+                  <label key={track.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={trackIds.includes(track.id)} onChange={(e) => handleTrackToggle(track.id, e.target.checked)} />
+                    {track.name}
+                  </label>
+                ))}
+              </div>
+              {trackIds.map((_, index) => <FieldError key={index} message={fieldErrors[`trackIds[${index}]`]} />)}
+            </div>
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={isGate} onChange={(e) => handleGateChange(e.target.checked)} className="mt-0.5" />
+              <span>
+                <span className="font-medium">Pass/fail gate</span>
+                <span className="block text-gray-500">Judges mark it Pass or Fail. It carries no weight, but a project most of its judges fail is disqualified.</span>
+              </span>
+            </label>
+            {!isGate && (
+            <>
+            <div className="grid grid-cols-3 gap-4">
+                {([['scaleMin', 'Minimum Score'], ['scaleMax', 'Maximum Score'], ['scaleStep', 'Step']] as const).map(([field, label]) => (
+                    <div key={field}>
+                        <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                        <input
+                            type="number"
+                            id={field}
+                            value={scale[field]}
+                            onChange={(e) => setScale(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                            className={inputClassName}
+                            min={field === 'scaleStep' ? '0.001' : undefined}
+                            step="any"
+                            required
+                        />
+                        <FieldError message={fieldErrors[field]} />
+                    </div>
+                ))}
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <span className="block text-sm font-medium text-gray-700">Rubric Anchors</span>
+                <button
+                  type="button"
+                  onClick={() => setRubric(prev => [...prev, { score: scale.scaleMin, description: '' }])}
+                  className="text-sm font-medium text-[#5c11c9] hover:underline"
+                >
+                  Add Anchor
+                </button>
+              </div>
+              {rubric.length === 0 && <p className="text-sm text-gray-500">Optional. Describe what particular scores mean, e.g. 0 = "No working code".</p>}
+              <ul className="space-y-2">
+                {rubric.map((anchor, index) => (
+                  <li key={index}>
+                    <div className="flex gap-2">
+                      <input
                         type="number"
-                        id="ideationWeight"
-                        value={ideationWeight}
-                        onChange={(e) => setIdeationWeight(Number(e.target.value))}
-                        className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
-                        min="0"
-                        max="100"
+                        value={anchor.score}
+                        onChange={(e) => handleRubricChange(index, { score: Number(e.target.value) })}
+                        className={`w-24 ${inputClassName}`}
+                        step="any"
+                        aria-label="Anchor score"
                         required
-                    />
-                </div>
-                 <div>
-                    <label htmlFor="prototypeWeight" className="block text-sm font-medium text-gray-700 mb-1">Prototype Weight (%)</label>
-                    <input
-                        type="number"
-                        id="prototypeWeight"
-                        value={prototypeWeight}
-                        onChange={(e) => setPrototypeWeight(Number(e.target.value))}
-                        className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
-                        min="0"
-                        max="100"
+                      />
+                      <input
+                        type="text"
+                        value={anchor.description}
+                        onChange={(e) => handleRubricChange(index, { description: e.target.value })}
+                        className={inputClassName}
+                        aria-label="Anchor description"
                         required
-                    />
-                </div>
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setRubric(prev => prev.filter((_, i) => i !== index))}
+                        className="px-3 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 transition-colors"
+                        aria-label="Remove anchor"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                    <FieldError message={fieldErrors[`rubric[${index}].score`] || fieldErrors[`rubric[${index}].description`]} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                {trlBands.map(band => (
+                    <div key={band.id}>
+                        <label htmlFor={`weight-${band.id}`} className="block text-sm font-medium text-gray-700 mb-1">{band.name.split(' ')[0]} Weight (%)</label>
+                        <input
+                            type="number"
+                            id={`weight-${band.id}`}
+                            value={weights[band.id] ?? 0}
+                            onChange={(e) => setWeights(prev => ({ ...prev, [band.id]: Number(e.target.value) }))}
+                            className={inputClassName}
+                            min="0"
+                            max="100"
+                            required
+                        />
+                        <FieldError message={fieldErrors[`weight.${band.id}`]} />
+                    </div>
+                ))}
             </div>
+            </>
+            )}
           </div>
           <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
             <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
@@ -108,6 +301,7 @@ const CriterionModal: React.FC<CriterionModalProps> = ({ criterion, onClose, onS
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
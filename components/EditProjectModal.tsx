@@ -1,15 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { Project, Track, TRL, TRACKS, ProjectLink } from '../types';
+import { Project, Track, TrlBand, ProjectLink } from '../types';
 import { DeleteIcon } from './icons';
+import FieldError from './FieldError';
+import VersionConflictView, { ConflictField } from './VersionConflictView';
+import { FieldErrors, ValidationError, VersionConflictError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors, toIdSet } from '../services/validationService';
 
 interface EditProjectModalProps {
   project: Project;
+  tracks: Track[];
+  trlBands: TrlBand[];
   onClose: () => void;
-  onSave: (updatedProject: Project) => void;
+  onSave: (updatedProject: Project) => Promise<Project | null>; // null when the save failed
 }
 
-const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, onSave }) => {
+const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, tracks, trlBands, onClose, onSave }) => {
   const [formData, setFormData] = useState<Project>({ ...project, links: project.links || [] });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [savedProject, setSavedProject] = useState<Project | null>(null); // The server's copy after an edit conflict
 
   useEffect(() => {
     setFormData({ ...project, links: project.links || [] });
@@ -37,10 +45,56 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
     setFormData(prev => ({ ...prev, links: newLinks }));
   };
 
+  const save = async (project: Project) => {
+    const errors = getFieldErrors('project', project, { trackIds: toIdSet(tracks), trlBandIds: toIdSet(trlBands) });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+
+    try {
+      if (await onSave(project)) onClose();
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        setSavedProject(error.current as Project);
+      } else if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+      } else {
+        throw error;
+      }
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData);
-    onClose();
+    save(formData);
+  };
+
+  const handleOverwrite = () => {
+    if (!savedProject) return;
+    const project = { ...formData, version: savedProject.version };
+    setFormData(project);
+    setSavedProject(null);
+    save(project);
+  };
+
+  const handleUseSaved = () => {
+    if (!savedProject) return;
+    setFormData({ ...savedProject, links: savedProject.links || [] });
+    setFieldErrors({});
+    setSavedProject(null);
+  };
+
+  const getConflictFields = (mine: Project, theirs: Project): ConflictField[] => {
+    const trackName = (id: string) => tracks.find(t => t.id === id)?.name || id;
+    const bandName = (id: string) => trlBands.find(b => b.id === id)?.name || id;
+    const formatLinks = (links?: ProjectLink[]) => (links || []).map(l => `${l.label}: ${l.url}`).join('\n');
+    return [
+      { label: 'Project Name', mine: mine.name, theirs: theirs.name },
+      { label: 'Description', mine: mine.description || '', theirs: theirs.description || '' },
+      { label: 'Track', mine: trackName(mine.track), theirs: trackName(theirs.track) },
+      { label: 'TRL', mine: bandName(mine.trl), theirs: bandName(theirs.trl) },
+      { label: 'Team / Project Key', mine: mine.externalKey || '', theirs: theirs.externalKey || '' },
+      { label: 'External Links', mine: formatLinks(mine.links), theirs: formatLinks(theirs.links) },
+    ];
   };
 
   return (
@@ -49,6 +103,14 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">Edit Project</h3>
         </div>
+        {savedProject ? (
+          <VersionConflictView
+            entityLabel="project"
+            fields={getConflictFields(formData, savedProject)}
+            onOverwrite={handleOverwrite}
+            onUseTheirs={handleUseSaved}
+          />
+        ) : (
         <form onSubmit={handleSubmit}>
           <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
             <div>
@@ -62,6 +124,7 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
                 className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                 required
               />
+              <FieldError message={fieldErrors.name} />
             </div>
             <div>
               <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
@@ -73,6 +136,7 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
                 rows={3}
                 className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
               />
+              <FieldError message={fieldErrors.description} />
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                <div>
@@ -84,8 +148,9 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
                     onChange={handleChange}
                     className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                   >
-                    {TRACKS.map(track => <option key={track} value={track}>{track}</option>)}
+                    {tracks.map(track => <option key={track.id} value={track.id}>{track.name}</option>)}
                   </select>
+                  <FieldError message={fieldErrors.track} />
                 </div>
                 <div>
                   <label htmlFor="trl" className="block text-sm font-medium text-gray-700 mb-1">TRL</label>
@@ -96,38 +161,54 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
                     onChange={handleChange}
                     className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                   >
-                    <option value={TRL.IDEATION}>{TRL.IDEATION}</option>
-                    <option value={TRL.PROTOTYPE}>{TRL.PROTOTYPE}</option>
+                    {trlBands.map(band => <option key={band.id} value={band.id}>{band.name}</option>)}
                   </select>
+                  <FieldError message={fieldErrors.trl} />
                 </div>
+            </div>
+            <div>
+              <label htmlFor="externalKey" className="block text-sm font-medium text-gray-700 mb-1">Team / Project Key</label>
+              <input
+                type="text"
+                id="externalKey"
+                name="externalKey"
+                value={formData.externalKey || ''}
+                onChange={handleChange}
+                placeholder="Optional; used to match this project when re-importing"
+                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+              />
+              <FieldError message={fieldErrors.externalKey} />
             </div>
              <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">External Links</label>
                 <div className="space-y-2">
                     {(formData.links || []).map((link, index) => (
-                      <div key={index} className="flex items-center gap-2">
-                        <input 
-                            type="text" 
-                            placeholder="Label (e.g., GitHub)" 
-                            value={link.label} 
-                            onChange={(e) => handleLinkChange(index, 'label', e.target.value)} 
-                            className="w-1/3 bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
-                        />
-                        <input 
-                            type="url" 
-                            placeholder="https://github.com/user/repo" 
-                            value={link.url} 
-                            onChange={(e) => handleLinkChange(index, 'url', e.target.value)} 
-                            className="flex-1 bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
-                        />
-                        <button 
-                            type="button" 
-                            onClick={() => removeLink(index)}
-                            className="p-2 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 transition-colors"
-                            aria-label="Remove link"
-                        >
-                            <DeleteIcon className="w-4 h-4" />
-                        </button>
+                      <div key={index}>
+                        <div className="flex items-center gap-2">
+                          <input 
+                              type="text" 
+                              placeholder="Label (e.g., GitHub)" 
+                              value={link.label} 
+                              onChange={(e) => handleLinkChange(index, 'label', e.target.value)} 
+                              className="w-1/3 bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                          />
+                          <input 
+                              type="url" 
+                              placeholder="https://github.com/user/repo" 
+                              value={link.url} 
+                              onChange={(e) => handleLinkChange(index, 'url', e.target.value)} 
+                              className="flex-1 bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                          />
+                          <button 
+                              type="button" 
+                              onClick={() => removeLink(index)}
+                              className="p-2 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 transition-colors"
+                              aria-label="Remove link"
+                          >
+                              <DeleteIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <FieldError message={fieldErrors[`links[${index}].label`] || fieldErrors[`links[${index}].url`]} />
                       </div>
                     ))}
                 </div>
@@ -149,6 +230,7 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({ project, onClose, o
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { HackathonEvent } from '../types';
+import FieldError from './FieldError';
+import { FieldErrors, ValidationError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors } from '../services/validationService';
+
+interface EventModalProps {
+  events: HackathonEvent[];
+  onClose: () => void;
+  onSave: (name: string, cloneFromEventId?: string) => Promise<void>;
+}
+
+const EventModal: React.FC<EventModalProps> = ({ events, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [cloneFromEventId, setCloneFromEventId] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = getFieldErrors('newEvent', { name: name.trim(), cloneFromEventId: cloneFromEventId || null });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+    try {
+        await onSave(name.trim(), cloneFromEventId || undefined);
+    } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        setFieldErrors(error.fieldErrors);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-2xl w-full max-w-lg">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-900">Create New Event</h3>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <div>
+              <label htmlFor="event-name" className="block text-sm font-medium text-gray-700 mb-1">Event Name</label>
+              <input
+                type="text"
+                id="event-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                required
+              />
+              <FieldError message={fieldErrors.name} />
+            </div>
+            <div>
+              <label htmlFor="clone-from" className="block text-sm font-medium text-gray-700 mb-1">Copy Setup From</label>
+              <select
+                id="clone-from"
+                value={cloneFromEventId}
+                onChange={(e) => setCloneFromEventId(e.target.value)}
+                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+              >
+                <option value="">Start empty</option>
+                {events.map(event => <option key={event.id} value={event.id}>{event.name}</option>)}
+              </select>
+              <FieldError message={fieldErrors.cloneFromEventId} />
+              <p className="text-xs text-gray-500 mt-1">Copies the tracks and criteria; projects, judges and scores are not copied.</p>
+            </div>
+          </div>
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
+              Create Event
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EventModal;
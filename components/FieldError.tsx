@@ -0,0 +1,13 @@
+import React from 'react';
+
+interface FieldErrorProps {
+  message?: string;
+}
+
+// The server's reason for rejecting one form field, shown right under the input.
+const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+};
+
+export default FieldError;
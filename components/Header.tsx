@@ -1,14 +1,26 @@
-import React from 'react';
-import { UserRole, Judge } from '../types';
+import React, { useState } from 'react';
+import { SessionUser, Judge, HackathonEvent, UserRole } from '../types';
 import { LogoIcon } from './icons';
+import EventModal from './EventModal';
 
 interface HeaderProps {
-  user: { role: UserRole; id?: string } | null;
+  user: SessionUser | null;
   onLogout: () => void;
   judges?: Judge[];
+  events?: HackathonEvent[];
+  currentEventId?: string | null;
+  onEventChange?: (eventId: string) => void;
+  onCreateEvent?: (name: string, cloneFromEventId?: string) => Promise<void>;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onLogout, judges }) => {
+const Header: React.FC<HeaderProps> = ({ user, onLogout, judges, events = [], currentEventId, onEventChange, onCreateEvent }) => {
+    const [isEventModalOpen, setIsEventModalOpen] = useState(false);
+    const currentEvent = events.find(e => e.id === currentEventId);
+
+    const handleCreateEvent = async (name: string, cloneFromEventId?: string) => {
+        await onCreateEvent?.(name, cloneFromEventId);
+        setIsEventModalOpen(false);
+    };
     
     const getJudgeName = (id?: string) => {
         if (!id || !judges) return '';
@@ -23,11 +35,33 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, judges }) => {
           <div className="flex items-center">
             <LogoIcon className="h-8 w-8 rounded-md" />
             <h1 className="ml-3 text-2xl font-bold text-gray-800 tracking-tight">
-                Hedera Africa Hackathon <span className="font-light text-gray-500 hidden sm:inline">| Evaluation Platform</span>
+                {currentEvent?.name || 'Hackathon'} <span className="font-light text-gray-500 hidden sm:inline">| Evaluation Platform</span>
             </h1>
           </div>
           {user && (
             <div className="flex items-center">
+              {user.role === UserRole.ADMIN ? (
+                <div className="flex items-center gap-2 mr-4">
+                  {events.length > 0 && (
+                    <select
+                      value={currentEventId ?? ''}
+                      onChange={(e) => onEventChange?.(e.target.value)}
+                      className="bg-white border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                      aria-label="Current event"
+                    >
+                      {events.map(event => <option key={event.id} value={event.id}>{event.name}</option>)}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => setIsEventModalOpen(true)}
+                    className="px-3 py-2 text-sm font-medium rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 transition-colors"
+                  >
+                    New Event
+                  </button>
+                </div>
+              ) : currentEvent && (
+                <span className="text-sm font-semibold text-gray-800 mr-4">{currentEvent.name}</span>
+              )}
               <span className="text-sm text-gray-600 mr-4">
                 Logged in as: <span className="font-semibold capitalize">{user.role}{user.role === 'judge' ? `: ${getJudgeName(user.id)}` : ''}</span>
               </span>
@@ -41,6 +75,9 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, judges }) => {
           )}
         </div>
       </div>
+      {isEventModalOpen && (
+        <EventModal events={events} onClose={() => setIsEventModalOpen(false)} onSave={handleCreateEvent} />
+      )}
     </header>
   );
 };
@@ -0,0 +1,327 @@
+import React, { useState, useMemo } from 'react';
+import { Project, Track, TrlBand } from '../types';
+import {
+  IMPORT_FIELDS, ColumnMapping, ImportRow, ImportRowAction, ImportRowPreview, DuplicateKey, DuplicateStrategy,
+  guessMapping, buildImportPreview,
+} from '../services/importService';
+import { BulkCreateResult, BulkMode, ValidationError, VersionConflictError } from '../services/dbService';
+
+// SheetJS is loaded from the CDN in index.html
+declare var XLSX: any;
+
+interface ImportWizardProps {
+  projects: Project[];
+  tracks: Track[];
+  trlBands: TrlBand[];
+  onCreateProjects: (newProjects: Omit<Project, 'id'>[], mode?: BulkMode) => Promise<BulkCreateResult<Project> | null>;
+  onUpdateProject: (updatedProject: Project) => Promise<Project | null>;
+  onClose: () => void;
+}
+
+interface ImportReport {
+  created: number;
+  updated: number;
+  skipped: { rowNumber: number; reason: string }[];
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'report';
+
+const ACTION_STYLES: Record<ImportRowAction, string> = {
+  [ImportRowAction.CREATE]: 'bg-[#95e000]/20 text-[#3d5a00]',
+  [ImportRowAction.UPDATE]: 'bg-blue-100 text-blue-800',
+  [ImportRowAction.SKIP]: 'bg-gray-100 text-gray-600',
+  [ImportRowAction.ERROR]: 'bg-red-100 text-red-700',
+};
+
+const selectClassName = "bg-white border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ projects, tracks, trlBands, onCreateProjects, onUpdateProject, onClose }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultTrackId, setDefaultTrackId] = useState(tracks[0]?.id || '');
+  const [duplicateKey, setDuplicateKey] = useState<DuplicateKey>('name');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [isAllOrNothing, setIsAllOrNothing] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const preview = useMemo(
+    () => step === 'preview' ? buildImportPreview(rows, { mapping, defaultTrackId, duplicateKey, duplicateStrategy }, projects, tracks, trlBands) : [],
+    [step, rows, mapping, defaultTrackId, duplicateKey, duplicateStrategy, projects, tracks, trlBands]
+  );
+  const counts = useMemo(() => {
+    const result: Record<ImportRowAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+    preview.forEach(r => result[r.action]++);
+    return result;
+  }, [preview]);
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  const trlBandNames = useMemo(() => new Map(trlBands.map(b => [b.id, b.name])), [trlBands]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const workbook = XLSX.read(event.target?.result, { type: 'array' });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        const headerRow = (XLSX.utils.sheet_to_json(worksheet, { header: 1 })[0] || []) as unknown[];
+        const fileHeaders = headerRow.map(h => String(h ?? '').trim()).filter(h => h);
+        const fileRows = XLSX.utils.sheet_to_json(worksheet, { defval: '' }) as ImportRow[];
+        if (fileHeaders.length === 0 || fileRows.length === 0) {
+          alert('The file has no header row or no data rows.');
+          return;
+        }
+        setFileName(file.name);
+        setHeaders(fileHeaders);
+        setRows(fileRows);
+        setMapping(guessMapping(fileHeaders));
+        setStep('map');
+      } catch (error) {
+        console.error("Error reading import file:", error);
+        alert("Could not read the file. Please upload an Excel (.xlsx, .xls) or CSV file.");
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+    if (field === 'externalKey' && !header) setDuplicateKey('name');
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const skipped: ImportReport['skipped'] = preview
+      .filter(r => r.action === ImportRowAction.SKIP || r.action === ImportRowAction.ERROR)
+      .map(r => ({ rowNumber: r.rowNumber, reason: r.messages.join(' ') }));
+
+    const toCreate = preview.filter(r => r.action === ImportRowAction.CREATE);
+    let created = 0;
+    if (toCreate.length > 0) {
+      const mode: BulkMode = isAllOrNothing ? 'atomic' : 'partial';
+      const result = await onCreateProjects(toCreate.map(r => r.project!), mode);
+      if (result) {
+        created = result.created.length;
+        // Row errors refer to positions in the submitted batch, not in the file.
+        const rowErrors = new Map(result.errors.map(e => [e.index, e.message]));
+        toCreate.forEach((r, index) => {
+          const message = rowErrors.get(index);
+          if (message) {
+            skipped.push({ rowNumber: r.rowNumber, reason: `Rejected by the server: ${message}` });
+          } else if (mode === 'atomic' && result.errors.length > 0) {
+            skipped.push({ rowNumber: r.rowNumber, reason: 'Not saved because another row failed and the import was all-or-nothing.' });
+          }
+        });
+      } else {
+        toCreate.forEach(r => skipped.push({ rowNumber: r.rowNumber, reason: 'The server rejected the new projects.' }));
+      }
+    }
+
+    let updated = 0;
+    for (const row of preview.filter(r => r.action === ImportRowAction.UPDATE)) {
+      try {
+        // Sending the version this browser has stops the import from overwriting another organiser's recent edit.
+        const matchedVersion = projects.find(p => p.id === row.matchedProjectId)?.version;
+        const savedProject = await onUpdateProject({ ...row.project!, id: row.matchedProjectId!, version: matchedVersion });
+        if (savedProject) {
+          updated++;
+        } else {
+          skipped.push({ rowNumber: row.rowNumber, reason: 'The server rejected the update.' });
+        }
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          skipped.push({ rowNumber: row.rowNumber, reason: 'The project was changed by someone else during the import, so it was not updated.' });
+          continue;
+        }
+        if (!(error instanceof ValidationError)) throw error;
+        const problems = Object.keys(error.fieldErrors).map(field => `${field}: ${error.fieldErrors[field]}`);
+        skipped.push({ rowNumber: row.rowNumber, reason: `Rejected by the server: ${problems.join(' ')}` });
+      }
+    }
+
+    setReport({ created, updated, skipped: skipped.sort((a, b) => a.rowNumber - b.rowNumber) });
+    setIsImporting(false);
+    setStep('report');
+  };
+
+  const renderPreviewRow = (row: ImportRowPreview) => (
+    <tr key={row.rowNumber}>
+      <td className="px-3 py-2 font-mono text-gray-500">{row.rowNumber}</td>
+      <td className="px-3 py-2">
+        <span className={`px-2 py-0.5 text-xs font-semibold rounded capitalize ${ACTION_STYLES[row.action]}`}>{row.action}</span>
+      </td>
+      <td className="px-3 py-2 font-medium text-gray-900">{row.project?.name || '—'}</td>
+      <td className="px-3 py-2">{row.project ? trackNames.get(row.project.track) : '—'}</td>
+      <td className="px-3 py-2">{row.project ? trlBandNames.get(row.project.trl) : '—'}</td>
+      <td className={`px-3 py-2 text-xs ${row.action === ImportRowAction.ERROR ? 'text-red-700' : 'text-gray-500'}`}>{row.messages.join(' ')}</td>
+    </tr>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'upload':
+        return (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              Upload an Excel (.xlsx, .xls) or CSV file with one project per row and a header row. You will map the columns to project fields in the next step.
+            </p>
+            <input
+              type="file"
+              accept=".xlsx, .xls, .csv"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#5c11c9]/10 file:text-[#5c11c9] hover:file:bg-[#5c11c9]/20 cursor-pointer"
+            />
+          </div>
+        );
+      case 'map':
+        return (
+          <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+            <p className="text-sm text-gray-500"><span className="font-medium text-gray-700">{fileName}</span>: {rows.length} row(s) found.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="block text-sm font-medium text-gray-700">
+                  {label}{required && <span className="text-red-600"> *</span>}
+                  <select
+                    value={mapping[field] || ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className={`mt-1 w-full ${selectClassName}`}
+                  >
+                    <option value="">— Not in file —</option>
+                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t border-gray-200">
+              <label className="block text-sm font-medium text-gray-700">
+                Default Track
+                <select value={defaultTrackId} onChange={(e) => setDefaultTrackId(e.target.value)} className={`mt-1 w-full ${selectClassName}`}>
+                  {tracks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <span className="block text-xs font-normal text-gray-500 mt-1">Used when a row has no track.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Match Existing Projects By
+                <select value={duplicateKey} onChange={(e) => setDuplicateKey(e.target.value as DuplicateKey)} className={`mt-1 w-full ${selectClassName}`}>
+                  <option value="name">Project name</option>
+                  <option value="externalKey" disabled={!mapping.externalKey}>Team / project key</option>
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                When a Project Exists
+                <select value={duplicateStrategy} onChange={(e) => setDuplicateStrategy(e.target.value as DuplicateStrategy)} className={`mt-1 w-full ${selectClassName}`}>
+                  <option value="skip">Skip the row</option>
+                  <option value="update">Update the project</option>
+                </select>
+              </label>
+            </div>
+          </div>
+        );
+      case 'preview':
+        return (
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2 text-sm">
+                {Object.values(ImportRowAction).map(action => (
+                  <span key={action} className={`px-2 py-1 rounded capitalize ${ACTION_STYLES[action]}`}>{action}: <span className="font-bold">{counts[action]}</span></span>
+                ))}
+              </div>
+              <label className="flex items-center text-sm text-gray-700" title="When off, new projects that the server accepts are kept even if other rows fail.">
+                <input
+                  type="checkbox"
+                  checked={isAllOrNothing}
+                  onChange={(e) => setIsAllOrNothing(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-[#5c11c9] border-gray-300 rounded focus:ring-[#5c11c9]"
+                />
+                Create new projects all-or-nothing
+              </label>
+            </div>
+            <div className="max-h-[55vh] overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-500 uppercase bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Action</th>
+                    <th className="px-3 py-2">Project</th>
+                    <th className="px-3 py-2">Track</th>
+                    <th className="px-3 py-2">TRL</th>
+                    <th className="px-3 py-2">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.map(renderPreviewRow)}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      case 'report':
+        return report && (
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 rounded-lg bg-[#95e000]/20 text-[#3d5a00]"><p className="text-2xl font-bold">{report.created}</p><p className="text-sm">Created</p></div>
+              <div className="p-3 rounded-lg bg-blue-100 text-blue-800"><p className="text-2xl font-bold">{report.updated}</p><p className="text-sm">Updated</p></div>
+              <div className="p-3 rounded-lg bg-gray-100 text-gray-700"><p className="text-2xl font-bold">{report.skipped.length}</p><p className="text-sm">Skipped</p></div>
+            </div>
+            {report.skipped.length > 0 && (
+              <ul className="max-h-[40vh] overflow-y-auto divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+                {report.skipped.map(s => (
+                  <li key={s.rowNumber} className="px-3 py-2"><span className="font-mono text-gray-500 mr-2">Row {s.rowNumber}</span>{s.reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const importableCount = counts.create + counts.update;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-2xl w-full max-w-4xl">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-900">Import Projects</h3>
+        </div>
+        {renderStep()}
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+          {step === 'map' && (
+            <button type="button" onClick={() => setStep('upload')} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">Back</button>
+          )}
+          {step === 'preview' && (
+            <button type="button" onClick={() => setStep('map')} disabled={isImporting} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">Back</button>
+          )}
+          <button type="button" onClick={onClose} disabled={isImporting} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+            {step === 'report' ? 'Close' : 'Cancel'}
+          </button>
+          {step === 'map' && (
+            <button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={!mapping.name}
+              className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importableCount === 0 || isImporting}
+              className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing…' : `Import ${importableCount} Row(s)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -1,19 +1,56 @@
 import React, { useState, useMemo } from 'react';
-import { Project, Judge, Criterion, Score } from '../types';
+import { Project, Judge, Criterion, Score, Track, TrlBand, Conflict, HackathonEvent, EventPhase, ScoreStatus } from '../types';
 import ScoringModal from './ScoringModal';
 import { EditIcon, ListIcon, DeleteIcon } from './icons';
+import { canJudgeScore } from '../services/phaseService';
+import { QueuedScore, SyncStatus } from '../services/offlineService';
 
 interface JudgeDashboardProps {
+  event: HackathonEvent;
   judge: Judge;
   projects: Project[];
   criteria: Criterion[];
+  tracks: Track[];
+  trlBands: TrlBand[];
   scores: Score[];
-  onScoreSubmit: (newScore: Score) => void;
+  onScoreSubmit: (newScore: Omit<Score, 'id'>) => Promise<void>;
+  onScoreDraftSave: (draft: Omit<Score, 'id'>) => Promise<boolean>;
   onScoreDelete: (scoreId: string) => void;
+  allProjects: Project[];
+  conflicts: Conflict[];
+  onDeclareConflict: (conflict: Pick<Conflict, 'judgeId' | 'projectId' | 'reason'>) => void;
+  queuedScores: QueuedScore[];
+  onRetryQueuedScore: (item: QueuedScore) => void;
+  onDiscardQueuedScore: (item: QueuedScore) => void;
 }
 
-const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criteria, scores, onScoreSubmit, onScoreDelete }) => {
+const CLOSED_MESSAGES: Partial<Record<EventPhase, string>> = {
+  [EventPhase.SETUP]: 'Judging has not opened yet. You can look through your projects, and scoring will open soon.',
+  [EventPhase.DELIBERATION]: 'Judging is closed while the panel deliberates. Ask an admin if you need to correct a score.',
+  [EventPhase.PUBLISHED]: 'Results have been published. Scores can no longer be changed.',
+};
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  pending: 'Waiting to sync',
+  syncing: 'Syncing…',
+  conflict: 'Changed elsewhere',
+  failed: 'Not accepted',
+};
+
+const SYNC_STATUS_STYLES: Record<SyncStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  syncing: 'bg-blue-100 text-blue-800',
+  conflict: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ event, judge, projects, criteria, tracks, trlBands, scores, onScoreSubmit, onScoreDraftSave, onScoreDelete, allProjects, conflicts, onDeclareConflict, queuedScores, onRetryQueuedScore, onDiscardQueuedScore }) => {
   const [scoringProject, setScoringProject] = useState<Project | null>(null);
+  const canScore = canJudgeScore(event, judge);
+
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  const trlBandNames = useMemo(() => new Map(trlBands.map(b => [b.id, b.name])), [trlBands]);
+  const projectNames = useMemo(() => new Map(allProjects.map(p => [p.id, p.name])), [allProjects]);
 
   const scoresByProjectId = useMemo(() => {
     const map = new Map<string, Score>();
@@ -21,11 +58,19 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
     return map;
   }, [scores]);
 
+  const queuedByProjectId = useMemo(() => new Map(queuedScores.map(item => [item.score.projectId, item])), [queuedScores]);
+
+  const renderSyncBadge = (projectId: string) => {
+    const item = queuedByProjectId.get(projectId);
+    return item && <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${SYNC_STATUS_STYLES[item.status]}`}>{SYNC_STATUS_LABELS[item.status]}</span>;
+  };
+
   const [projectsToScore, scoredProjects] = useMemo(() => {
     const toScore: Project[] = [];
     const scored: Project[] = [];
+    // Drafts stay on the to-do list until they are submitted.
     projects.forEach(p => {
-      if (scoresByProjectId.has(p.id)) {
+      if (scoresByProjectId.get(p.id)?.status === ScoreStatus.SUBMITTED) {
         scored.push(p);
       } else {
         toScore.push(p);
@@ -34,6 +79,12 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
     return [toScore, scored];
   }, [projects, scoresByProjectId]);
 
+  const handleDeclareConflict = (project: Project) => {
+    const reason = window.prompt(`Describe your conflict of interest with "${project.name}" (for example, you advised or belong to the team). You will be recused and can no longer score this project.`);
+    if (reason === null) return;
+    onDeclareConflict({ judgeId: judge.id, projectId: project.id, reason: reason.trim() || undefined });
+  };
+
   const handleDeleteScore = (scoreId: string) => {
     if (window.confirm('Are you sure you want to delete this evaluation? This action cannot be undone.')) {
         onScoreDelete(scoreId);
@@ -43,8 +94,8 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
 
   return (
     <div className="p-4 sm:p-6 lg:p-8">
-      <h2 className="text-2xl font-bold mb-2">Hedera Africa Hackathon Judge Dashboard</h2>
-      <p className="text-lg text-gray-600 mb-8">Welcome, <span className="font-semibold text-[#5c11c9]">{judge.name}</span>. You are assigned to the <span className="font-semibold">{judge.tracks.join(', ')}</span> tracks.</p>
+      <h2 className="text-2xl font-bold mb-2">{event.name} Judge Dashboard</h2>
+      <p className="text-lg text-gray-600 mb-8">Welcome, <span className="font-semibold text-[#5c11c9]">{judge.name}</span>. You have <span className="font-semibold">{projects.length}</span> project{projects.length === 1 ? '' : 's'} assigned in the <span className="font-semibold">{judge.tracks.map(t => trackNames.get(t) || t).join(', ')}</span> tracks.</p>
 
       <div className="bg-[#5c11c9]/10 border border-[#5c11c9]/20 text-[#3d0b85] p-4 rounded-lg mb-8">
         <h4 className="font-bold mb-2">How to Evaluate Projects</h4>
@@ -52,14 +103,64 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
             <li>Projects assigned to you are listed under <strong>"Projects to Evaluate"</strong>.</li>
             <li>Click the <strong>"Score"</strong> button to open the evaluation form for a project.</li>
             <li>In the form, you can review the project's description, assess its Technology Readiness Level (TRL), and leave private notes for your reference.</li>
-            <li>Use the sliders to give a score from <strong>0 to 10</strong> for each criterion.</li>
-            <li>Once you're done, click <strong>"Submit Evaluation"</strong>.</li>
-            <li>Your completed evaluations will move to the <strong>"Completed Evaluations"</strong> list. You can modify them anytime by clicking <strong>"Edit Score"</strong>.</li>
+            <li>Give each criterion a score on its scale, using the rubric shown under it, and mark any <strong>pass/fail gates</strong>. Your work is saved as a draft as you go, so you can close the form and continue later.</li>
+            <li>Once every criterion is scored, click <strong>"Submit Evaluation"</strong>. Drafts do not count towards the results.</li>
+            <li>Your completed evaluations will move to the <strong>"Completed Evaluations"</strong> list. You can modify them by clicking <strong>"Edit Score"</strong> until judging closes.</li>
         </ol>
       </div>
 
+      {!canScore && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-4 rounded-lg mb-8 text-sm">
+          {CLOSED_MESSAGES[event.phase]}
+        </div>
+      )}
+      {canScore && event.phase === EventPhase.DELIBERATION && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-4 rounded-lg mb-8 text-sm">
+          Judging is closed, but an admin has unlocked scoring for you so you can make corrections.
+        </div>
+      )}
+
 
       <div className="space-y-8">
+        {queuedScores.length > 0 && (
+          <div>
+            <h3 className="text-xl font-bold mb-4 text-gray-800">Not Yet Synced ({queuedScores.length})</h3>
+            <p className="text-sm text-gray-600 mb-4">These evaluations are saved on this device only. They are sent automatically when the connection returns; ones the server did not accept need your decision.</p>
+            <ul className="bg-white p-4 rounded-xl border border-gray-200 divide-y divide-gray-200">
+              {queuedScores.map(item => (
+                <li key={item.key} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {projectNames.get(item.score.projectId) || item.score.projectId}
+                      <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${SYNC_STATUS_STYLES[item.status]}`}>{SYNC_STATUS_LABELS[item.status]}</span>
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {item.score.status === ScoreStatus.SUBMITTED ? 'Submitted' : 'Draft'} · saved {new Date(item.queuedAt).toLocaleString()}
+                      {item.error && ` · ${item.error}`}
+                    </p>
+                  </div>
+                  {(item.status === 'conflict' || item.status === 'failed') && (
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <button
+                        onClick={() => onDiscardQueuedScore(item)}
+                        className="px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 text-sm font-medium transition-colors"
+                      >
+                        {item.status === 'conflict' ? 'Use Saved Version' : 'Discard'}
+                      </button>
+                      <button
+                        onClick={() => onRetryQueuedScore(item)}
+                        className="px-3 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white text-sm font-medium transition-colors"
+                      >
+                        {item.status === 'conflict' ? 'Keep Mine' : 'Retry'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div>
           <h3 className="text-xl font-bold mb-4 text-gray-800">Projects to Evaluate ({projectsToScore.length})</h3>
           {projectsToScore.length > 0 ? (
@@ -67,16 +168,29 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
               {projectsToScore.map(project => (
                 <li key={project.id} className="py-4 flex items-center justify-between">
                   <div>
-                    <p className="font-semibold text-gray-900">{project.name}</p>
-                    <p className="text-sm text-gray-500">{project.track} - {project.trl}</p>
+                    <p className="font-semibold text-gray-900">
+                      {project.name}
+                      {scoresByProjectId.has(project.id) && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">Draft</span>}
+                      {renderSyncBadge(project.id)}
+                    </p>
+                    <p className="text-sm text-gray-500">{trackNames.get(project.track) || project.track} - {trlBandNames.get(project.trl) || project.trl}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleDeclareConflict(project)}
+                      className="px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-orange-50 text-gray-600 hover:text-orange-700 text-sm font-medium transition-colors"
+                    >
+                      Declare Conflict
+                    </button>
+                    <button
+                      onClick={() => setScoringProject(project)}
+                      disabled={!canScore}
+                      className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[#5c11c9]"
+                    >
+                      <ListIcon className="w-4 h-4 mr-2"/>
+                      {scoresByProjectId.has(project.id) ? 'Continue' : 'Score'}
+                    </button>
                   </div>
-                  <button
-                    onClick={() => setScoringProject(project)}
-                    className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors flex items-center"
-                  >
-                    <ListIcon className="w-4 h-4 mr-2"/>
-                    Score
-                  </button>
                 </li>
               ))}
             </ul>
@@ -94,13 +208,23 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
               {scoredProjects.map(project => (
                 <li key={project.id} className="py-4 flex items-center justify-between">
                   <div>
-                    <p className="font-semibold text-gray-900">{project.name}</p>
-                    <p className="text-sm text-gray-500">{project.track} - {project.trl}</p>
+                    <p className="font-semibold text-gray-900">
+                      {project.name}
+                      {renderSyncBadge(project.id)}
+                    </p>
+                    <p className="text-sm text-gray-500">{trackNames.get(project.track) || project.track} - {trlBandNames.get(project.trl) || project.trl}</p>
                   </div>
                   <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleDeclareConflict(project)}
+                      className="px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-orange-50 text-gray-600 hover:text-orange-700 text-sm font-medium transition-colors"
+                    >
+                      Declare Conflict
+                    </button>
                     <button
                       onClick={() => setScoringProject(project)}
-                      className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors flex items-center"
+                      disabled={!canScore}
+                      className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white"
                     >
                        <EditIcon className="w-4 h-4 mr-2"/>
                       Edit Score
@@ -112,7 +236,8 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
                                 handleDeleteScore(scoreToDelete.id);
                             }
                         }}
-                        className="p-2 rounded-md bg-white border border-gray-300 text-gray-500 hover:bg-red-100 hover:text-red-600 hover:border-red-200 transition-colors"
+                        disabled={!canScore}
+                        className="p-2 rounded-md bg-white border border-gray-300 text-gray-500 hover:bg-red-100 hover:text-red-600 hover:border-red-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white disabled:hover:text-gray-500 disabled:hover:border-gray-300"
                         aria-label="Delete evaluation"
                     >
                         <DeleteIcon className="w-5 h-5" />
@@ -123,6 +248,22 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
             </ul>
           )}
         </div>
+
+        {conflicts.length > 0 && (
+          <div>
+            <h3 className="text-xl font-bold mb-4 text-gray-800">Declared Conflicts ({conflicts.length})</h3>
+            <ul className="bg-white p-4 rounded-xl border border-gray-200 divide-y divide-gray-200">
+              {conflicts.map(conflict => (
+                <li key={conflict.id} className="py-3">
+                  <p className="font-semibold text-gray-900">{projectNames.get(conflict.projectId) || conflict.projectId}</p>
+                  <p className="text-sm text-gray-500">
+                    {conflict.reason || 'No reason given'} · recorded by {conflict.declaredBy === 'admin' ? 'an admin' : 'you'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {scoringProject && (
@@ -130,9 +271,12 @@ const JudgeDashboard: React.FC<JudgeDashboardProps> = ({ judge, projects, criter
           project={scoringProject}
           judgeId={judge.id}
           criteria={criteria}
+          trackName={trackNames.get(scoringProject.track) || scoringProject.track}
+          trlBands={trlBands}
           existingScore={scoresByProjectId.get(scoringProject.id)}
           onClose={() => setScoringProject(null)}
           onSave={onScoreSubmit}
+          onSaveDraft={onScoreDraftSave}
         />
       )}
     </div>
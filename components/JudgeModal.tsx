@@ -1,27 +1,37 @@
 import React, { useState, useEffect } from 'react';
-import { Judge, Track, TRACKS } from '../types';
+import { Judge, Track } from '../types';
+import FieldError from './FieldError';
+import VersionConflictView from './VersionConflictView';
+import { FieldErrors, ValidationError, VersionConflictError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors, toIdSet } from '../services/validationService';
 
 interface JudgeModalProps {
   judge: Judge | null;
+  tracks: Track[];
   onClose: () => void;
-  onSave: (judge: Omit<Judge, 'id'> | Judge) => void;
+  onSave: (judge: Omit<Judge, 'id'> | Judge) => Promise<void>;
 }
 
-const JudgeModal: React.FC<JudgeModalProps> = ({ judge, onClose, onSave }) => {
+const JudgeModal: React.FC<JudgeModalProps> = ({ judge, tracks, onClose, onSave }) => {
   const [name, setName] = useState('');
-  const [selectedTracks, setSelectedTracks] = useState<Track[]>([]);
+  const [selectedTracks, setSelectedTracks] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [savedJudge, setSavedJudge] = useState<Judge | null>(null); // The server's copy after an edit conflict
 
   useEffect(() => {
     if (judge) {
       setName(judge.name);
       setSelectedTracks(judge.tracks);
+      setVersion(judge.version);
     } else {
       setName('');
       setSelectedTracks([]);
+      setVersion(undefined);
     }
   }, [judge]);
 
-  const handleTrackChange = (track: Track) => {
+  const handleTrackChange = (track: string) => {
     setSelectedTracks(prev =>
       prev.includes(track)
         ? prev.filter(t => t !== track)
@@ -29,30 +39,72 @@ const JudgeModal: React.FC<JudgeModalProps> = ({ judge, onClose, onSave }) => {
     );
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!name.trim()) {
-        alert('Judge name cannot be empty.');
-        return;
-    }
+  const save = async (baseVersion?: number) => {
     const judgeData = {
         name: name.trim(),
         tracks: selectedTracks,
     };
+    const errors = getFieldErrors('judge', judgeData, { trackIds: toIdSet(tracks) });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
 
-    if (judge) {
-        onSave({ ...judgeData, id: judge.id });
-    } else {
-        onSave(judgeData);
+    try {
+        await onSave(judge ? { ...judgeData, id: judge.id, version: baseVersion } : judgeData);
+    } catch (error) {
+        if (error instanceof VersionConflictError) {
+            setSavedJudge(error.current as Judge);
+        } else if (error instanceof ValidationError) {
+            setFieldErrors(error.fieldErrors);
+        } else {
+            throw error;
+        }
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(version);
+  };
+
+  const handleOverwrite = () => {
+    if (!savedJudge) return;
+    setVersion(savedJudge.version);
+    setSavedJudge(null);
+    save(savedJudge.version);
+  };
+
+  const handleUseSaved = () => {
+    if (!savedJudge) return;
+    setName(savedJudge.name);
+    setSelectedTracks(savedJudge.tracks);
+    setVersion(savedJudge.version);
+    setFieldErrors({});
+    setSavedJudge(null);
+  };
+
+  const formatTracks = (trackIds: string[]) =>
+    trackIds.map(id => tracks.find(t => t.id === id)?.name || id).sort().join(', ');
+
+  // Unknown track ids are reported per entry, e.g. `tracks[1]`; the first one is shown under the checkboxes.
+  const tracksError = Object.keys(fieldErrors).find(field => field === 'tracks' || field.startsWith('tracks['));
+
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl border border-gray-200 shadow-2xl w-full max-w-lg">
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">{judge ? 'Edit Judge' : 'Add New Judge'}</h3>
         </div>
+        {savedJudge ? (
+          <VersionConflictView
+            entityLabel="judge"
+            fields={[
+              { label: 'Judge Name', mine: name.trim(), theirs: savedJudge.name },
+              { label: 'Tracks', mine: formatTracks(selectedTracks), theirs: formatTracks(savedJudge.tracks) },
+            ]}
+            onOverwrite={handleOverwrite}
+            onUseTheirs={handleUseSaved}
+          />
+        ) : (
         <form onSubmit={handleSubmit}>
           <div className="p-6 space-y-4">
             <div>
@@ -65,25 +117,27 @@ const JudgeModal: React.FC<JudgeModalProps> = ({ judge, onClose, onSave }) => {
                 className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                 required
               />
+              <FieldError message={fieldErrors.name} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Assign to Tracks</label>
               <div className="space-y-2">
-                {TRACKS.map(track => (
-                  <div key={track} className="flex items-center">
+                {tracks.map(track => (
+                  <div key={track.id} className="flex items-center">
                     <input
-                      id={`track-${track}`}
+                      id={`track-${track.id}`}
                       type="checkbox"
-                      checked={selectedTracks.includes(track)}
-                      onChange={() => handleTrackChange(track)}
+                      checked={selectedTracks.includes(track.id)}
+                      onChange={() => handleTrackChange(track.id)}
                       className="h-4 w-4 text-[#5c11c9] border-gray-300 rounded focus:ring-[#5c11c9]"
                     />
-                    <label htmlFor={`track-${track}`} className="ml-3 text-sm text-gray-700">
-                      {track}
+                    <label htmlFor={`track-${track.id}`} className="ml-3 text-sm text-gray-700">
+                      {track.name}
                     </label>
                   </div>
                 ))}
               </div>
+              <FieldError message={tracksError ? fieldErrors[tracksError] : undefined} />
             </div>
           </div>
           <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
@@ -95,6 +149,7 @@ const JudgeModal: React.FC<JudgeModalProps> = ({ judge, onClose, onSave }) => {
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
@@ -1,43 +1,57 @@
 import React, { useState } from 'react';
-import { UserRole, Judge, Track, TRACKS } from '../types';
+import { ApiError } from '../services/dbService';
 import { AdminIcon, JudgeIcon, LogoIcon } from './icons';
 
 interface LoginScreenProps {
-  onAdminLogin: () => void;
-  onJuryLogin: (judgeId: string, newJudgeData?: Omit<Judge, 'id'>) => Promise<void>;
-  judges: Judge[];
+  onAdminLogin: (username: string, password: string) => Promise<void>;
+  onJuryLogin: (inviteCode: string) => Promise<void>;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onAdminLogin, onJuryLogin, judges }) => {
-  const [loginMode, setLoginMode] = useState<'admin' | 'jury'>('admin');
-  const [selectedJudge, setSelectedJudge] = useState<string>(judges.length > 0 ? judges[0].id : 'new');
-  
-  // State for new jury member registration
-  const [newJudgeName, setNewJudgeName] = useState('');
-  const [newJudgeTracks, setNewJudgeTracks] = useState<Track[]>([]);
+// Judges arrive through an invite link of the form `/?invite=<code>`.
+const getInviteCodeFromUrl = () => new URLSearchParams(window.location.search).get('invite') || '';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onAdminLogin, onJuryLogin }) => {
+  const [inviteCode, setInviteCode] = useState(getInviteCodeFromUrl);
+  const [loginMode, setLoginMode] = useState<'admin' | 'jury'>(inviteCode ? 'jury' : 'admin');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submitLogin = async (login: () => Promise<void>, invalidMessage: string) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login();
+      if (getInviteCodeFromUrl()) {
+        // Keep the invite code out of the address bar once it has been used.
+        window.history.replaceState(null, '', window.location.pathname);
+      }
+    } catch (err) {
+      console.error("Login failed:", err);
+      setError(err instanceof ApiError && err.status === 401 ? invalidMessage : 'Could not reach the server. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-  const handleTrackChange = (track: Track) => {
-    setNewJudgeTracks(prev =>
-      prev.includes(track)
-        ? prev.filter(t => t !== track)
-        : [...prev, track]
-    );
+  const handleAdminLoginSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitLogin(() => onAdminLogin(username.trim(), password), 'Invalid username or password.');
   };
 
-  const handleJuryLoginSubmit = async () => {
-    if (selectedJudge === 'new') {
-        if (!newJudgeName.trim()) {
-            alert('Please enter your name.');
-            return;
-        }
-        if (newJudgeTracks.length === 0) {
-            alert('Please select at least one track.');
-            return;
-        }
-        await onJuryLogin('new', { name: newJudgeName.trim(), tracks: newJudgeTracks });
-    } else {
-        await onJuryLogin(selectedJudge);
+  const handleJuryLoginSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteCode.trim()) {
+        setError('Please enter your invite code.');
+        return;
     }
+    submitLogin(() => onJuryLogin(inviteCode.trim()), 'This invite code is invalid or has been revoked. Please ask an organiser for a new link.');
+  };
+
+  const switchMode = (mode: 'admin' | 'jury') => {
+    setLoginMode(mode);
+    setError(null);
   };
   
   return (
@@ -46,94 +60,90 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onAdminLogin, onJuryLogin, ju
             <div className="flex justify-center items-center mb-6">
                 <LogoIcon className="w-16 h-16 rounded-lg" />
             </div>
-             <h2 className="text-3xl font-bold text-gray-800 mb-2">Welcome to the Hedera Africa Hackathon</h2>
+             <h2 className="text-3xl font-bold text-gray-800 mb-2">Welcome to Hackathon Judging</h2>
              <p className="text-gray-600 mb-10">Evaluation Platform</p>
 
             <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl border border-gray-200 shadow-lg">
                 <div className="flex border-b border-gray-200 mb-6">
                     <button 
-                        onClick={() => setLoginMode('admin')} 
+                        onClick={() => switchMode('admin')} 
                         className={`flex-1 py-3 font-semibold text-lg flex items-center justify-center gap-2 transition-colors ${loginMode === 'admin' ? 'text-[#5c11c9] border-b-2 border-[#5c11c9]' : 'text-gray-500 hover:text-gray-700'}`}
                     >
                         <AdminIcon className="w-6 h-6"/> Admin
                     </button>
                      <button 
-                        onClick={() => setLoginMode('jury')} 
+                        onClick={() => switchMode('jury')} 
                         className={`flex-1 py-3 font-semibold text-lg flex items-center justify-center gap-2 transition-colors ${loginMode === 'jury' ? 'text-[#95e000] border-b-2 border-[#95e000]' : 'text-gray-500 hover:text-gray-700'}`}
                     >
                         <JudgeIcon className="w-6 h-6"/> Jury Member
                     </button>
                 </div>
                 
+                {error && (
+                    <div className="mb-4 p-3 text-left text-sm text-red-700 bg-red-50 border border-red-200 rounded-md" role="alert">
+                        {error}
+                    </div>
+                )}
+
                 {loginMode === 'admin' && (
-                    <div className='text-left'>
-                        <p className="text-gray-600 mb-6">Log in to manage the hackathon, including projects, judges, criteria, and to view the final results.</p>
+                    <form onSubmit={handleAdminLoginSubmit} className='text-left space-y-4'>
+                        <p className="text-gray-600 mb-2">Log in to manage the hackathon, including projects, judges, criteria, and to view the final results.</p>
+                        <div>
+                            <label htmlFor="admin-username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+                            <input
+                                id="admin-username"
+                                type="text"
+                                autoComplete="username"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="admin-password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+                            <input
+                                id="admin-password"
+                                type="password"
+                                autoComplete="current-password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+                                required
+                            />
+                        </div>
                         <button
-                            onClick={onAdminLogin}
-                            className="w-full px-6 py-3 rounded-lg bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#5c11c9] focus:ring-offset-2"
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="w-full px-6 py-3 rounded-lg bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#5c11c9] focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
                         >
-                            Login as Admin
+                            {isSubmitting ? 'Signing in...' : 'Login as Admin'}
                         </button>
-                    </div>
+                    </form>
                 )}
                 
                 {loginMode === 'jury' && (
-                    <div className='text-left space-y-4'>
+                    <form onSubmit={handleJuryLoginSubmit} className='text-left space-y-4'>
+                        <p className="text-gray-600 mb-2">Open the invite link you received from the organisers, or paste the invite code below.</p>
                         <div>
-                            <label htmlFor="judge-select" className="block text-sm font-medium text-gray-700 mb-1">Select your profile or register</label>
-                            <select
-                                id="judge-select"
-                                value={selectedJudge}
-                                onChange={(e) => setSelectedJudge(e.target.value)}
-                                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#95e000] focus:outline-none"
-                            >
-                                {judges.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
-                                <option value="new">-- Register as a new Judge --</option>
-                            </select>
+                            <label htmlFor="invite-code" className="block text-sm font-medium text-gray-700 mb-1">Invite Code</label>
+                            <input
+                                id="invite-code"
+                                type="text"
+                                value={inviteCode}
+                                onChange={(e) => setInviteCode(e.target.value)}
+                                placeholder="Paste your invite code"
+                                className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 font-mono focus:ring-2 focus:ring-[#95e000] focus:outline-none"
+                            />
                         </div>
-                        
-                        {selectedJudge === 'new' && (
-                            <div className="p-4 bg-gray-50 rounded-md border border-gray-200 space-y-4">
-                                <div>
-                                    <label htmlFor="new-judge-name" className="block text-sm font-medium text-gray-700 mb-1">Your Name</label>
-                                    <input
-                                        id="new-judge-name"
-                                        type="text"
-                                        value={newJudgeName}
-                                        onChange={(e) => setNewJudgeName(e.target.value)}
-                                        placeholder="Enter your full name"
-                                        className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#95e000] focus:outline-none"
-                                    />
-                                </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-2">Select your assigned tracks</label>
-                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                                        {TRACKS.map(track => (
-                                          <div key={track} className="flex items-center">
-                                            <input
-                                              id={`track-reg-${track}`}
-                                              type="checkbox"
-                                              checked={newJudgeTracks.includes(track)}
-                                              onChange={() => handleTrackChange(track)}
-                                              className="h-4 w-4 text-[#95e000] border-gray-300 rounded focus:ring-[#95e000]"
-                                            />
-                                            <label htmlFor={`track-reg-${track}`} className="ml-2 text-sm text-gray-600">
-                                              {track}
-                                            </label>
-                                          </div>
-                                        ))}
-                                      </div>
-                                </div>
-                            </div>
-                        )}
-                        
                         <button
-                            onClick={handleJuryLoginSubmit}
-                            className="w-full px-6 py-3 rounded-lg bg-[#95e000] hover:bg-[#82c400] text-black font-bold transition-colors focus:outline-none focus:ring-2 focus:ring-[#95e000] focus:ring-offset-2"
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="w-full px-6 py-3 rounded-lg bg-[#95e000] hover:bg-[#82c400] text-black font-bold transition-colors focus:outline-none focus:ring-2 focus:ring-[#95e000] focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
                         >
-                            Login
+                            {isSubmitting ? 'Signing in...' : 'Login'}
                         </button>
-                    </div>
+                    </form>
                 )}
 
             </div>
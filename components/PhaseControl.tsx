@@ -0,0 +1,69 @@
+import React from 'react';
+import { EventPhase, ResultSnapshot } from '../types';
+import { PHASE_LABELS, PHASE_ORDER, PHASE_TRANSITIONS } from '../services/phaseService';
+
+interface PhaseControlProps {
+  phase: EventPhase;
+  resultSnapshot: ResultSnapshot | null;
+  onChangePhase: (phase: EventPhase) => void;
+}
+
+const PHASE_DESCRIPTIONS: Record<EventPhase, string> = {
+  [EventPhase.SETUP]: 'Judges cannot score yet. Set up tracks, criteria, projects and assignments, then open judging.',
+  [EventPhase.JUDGING]: 'Judges can submit and change their scores.',
+  [EventPhase.DELIBERATION]: 'Scores are locked while the panel reviews the rankings. Unlock individual judges on the Judges tab to let them correct a score.',
+  [EventPhase.PUBLISHED]: 'Results are final. The rankings below are the snapshot saved when they were published, and the projects, judges and criteria can no longer be changed.',
+};
+
+// Shows where the event is in setup -> judging -> deliberation -> published and the moves the admin can make.
+const PhaseControl: React.FC<PhaseControlProps> = ({ phase, resultSnapshot, onChangePhase }) => {
+  const currentIndex = PHASE_ORDER.indexOf(phase);
+
+  const handleChange = (to: EventPhase, confirmation: string) => {
+    if (window.confirm(confirmation)) onChangePhase(to);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-gray-200 mb-8 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+      <div>
+        <ol className="flex items-center gap-2 text-sm">
+          {PHASE_ORDER.map((p, index) => (
+            <li key={p} className="flex items-center gap-2">
+              {index > 0 && <span className="text-gray-300">→</span>}
+              <span
+                className={`px-3 py-1 rounded-full font-medium ${
+                  index === currentIndex
+                    ? 'bg-[#5c11c9] text-white'
+                    : index < currentIndex ? 'bg-[#5c11c9]/10 text-[#5c11c9]' : 'bg-gray-100 text-gray-500'
+                }`}
+              >
+                {PHASE_LABELS[p]}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <p className="text-sm text-gray-600 mt-2">
+          {PHASE_DESCRIPTIONS[phase]}
+          {resultSnapshot && ` Published ${new Date(resultSnapshot.publishedAt).toLocaleString()}.`}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {PHASE_TRANSITIONS[phase].map(transition => (
+          <button
+            key={transition.to}
+            onClick={() => handleChange(transition.to, transition.confirmation)}
+            className={
+              PHASE_ORDER.indexOf(transition.to) > currentIndex
+                ? 'px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors'
+                : 'px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors'
+            }
+          >
+            {transition.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PhaseControl;
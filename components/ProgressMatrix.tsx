@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { Project, Track } from '../types';
+import { pairKey } from '../services/assignmentService';
+import { EvaluationProgress, PairStatus, ProgressCounts, getCompletionRate } from '../services/progressService';
+
+interface ProgressMatrixProps {
+  progress: EvaluationProgress;
+  projects: Project[];
+  tracks: Track[];
+}
+
+const STATUS_STYLES: Record<PairStatus, { className: string; symbol: string; label: string }> = {
+  [PairStatus.SCORED]: { className: 'bg-[#95e000]/30 text-[#3d5a00]', symbol: '✓', label: 'Scored' },
+  [PairStatus.DRAFT]: { className: 'bg-blue-100 text-blue-800', symbol: '✎', label: 'Draft' },
+  [PairStatus.PENDING]: { className: 'bg-yellow-100 text-yellow-800', symbol: '…', label: 'Pending' },
+  [PairStatus.CONFLICTED]: { className: 'bg-orange-100 text-orange-800', symbol: '⊘', label: 'Conflicted' },
+};
+
+const ProgressBar: React.FC<{ counts: ProgressCounts }> = ({ counts }) => {
+  const rate = getCompletionRate(counts) * 100;
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 bg-gray-200 rounded-full h-2">
+        <div className="bg-[#5c11c9] h-2 rounded-full" style={{ width: `${rate}%` }}></div>
+      </div>
+      <span className="font-mono text-xs text-gray-600 w-16 text-right">{counts.completed} / {counts.expected}</span>
+    </div>
+  );
+};
+
+const ProgressMatrix: React.FC<ProgressMatrixProps> = ({ progress, projects, tracks }) => {
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  // Group the columns by track so each track's projects sit together.
+  const columns = useMemo(() => [...projects].sort((a, b) =>
+    (trackNames.get(a.track) || a.track).localeCompare(trackNames.get(b.track) || b.track) || a.name.localeCompare(b.name)
+  ), [projects, trackNames]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-4">Progress by Track</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {progress.byTrack.map(({ track, ...counts }) => (
+            <div key={track.id}>
+              <p className="text-sm font-medium text-gray-700 mb-1">{track.name}</p>
+              <ProgressBar counts={counts} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 mb-4">
+          <h3 className="text-xl font-bold">Judge Completion</h3>
+          <div className="flex gap-3 text-xs">
+            {Object.values(PairStatus).map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`inline-flex w-5 h-5 items-center justify-center rounded ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].symbol}</span>
+                {STATUS_STYLES[status].label}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="text-sm text-left">
+            <thead className="text-xs text-gray-500 bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 uppercase sticky left-0 bg-gray-50">Judge</th>
+                <th className="px-4 py-2 uppercase min-w-[12rem]">Completed</th>
+                {columns.map(p => (
+                  <th key={p.id} className="px-1 py-2 font-medium align-bottom" title={`${p.name} (${trackNames.get(p.track) || p.track})`}>
+                    <span className="block w-6 truncate [writing-mode:vertical-rl] rotate-180 max-h-32">{p.name}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {progress.byJudge.map(({ judge, ...counts }) => (
+                <tr key={judge.id}>
+                  <td className="px-4 py-2 font-medium text-gray-900 whitespace-nowrap sticky left-0 bg-white">{judge.name}</td>
+                  <td className="px-4 py-2"><ProgressBar counts={counts} /></td>
+                  {columns.map(p => {
+                    const status = progress.pairStatuses.get(pairKey(judge.id, p.id));
+                    return (
+                      <td key={p.id} className="px-1 py-1 text-center">
+                        {status && (
+                          <span
+                            className={`inline-flex w-6 h-6 items-center justify-center rounded ${STATUS_STYLES[status].className}`}
+                            title={`${judge.name} – ${p.name}: ${STATUS_STYLES[status].label}`}
+                          >
+                            {STATUS_STYLES[status].symbol}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressMatrix;
@@ -1,24 +1,55 @@
 import React, { useState, useMemo } from 'react';
-import { ProjectResult, Track, TRACKS, Judge } from '../types';
+import { ProjectResult, Track, TrlBand, Judge, Criterion, Assignment, RankingOptions, TrlPolicy, NormalizationMethod, NormalizationScope, WeightingPolicy, TieBreaker, TieBreakerKind } from '../types';
+import { NORMALIZATION_STRATEGIES } from '../services/normalization';
+import { isDisqualified } from '../services/evaluationService';
+import { CONFIDENCE_LEVEL, formatRankRange } from '../services/confidenceService';
+
+const TRL_POLICY_LABELS: Record<TrlPolicy, string> = {
+    [TrlPolicy.ADMIN]: 'Admin TRL',
+    [TrlPolicy.JURY_MAJORITY]: 'Jury Majority TRL',
+    [TrlPolicy.PER_JUDGE]: "Each Judge's TRL",
+};
+
+// Badge colours follow the band order, so the same band keeps its colour everywhere.
+const TRL_BADGE_COLORS = ['bg-purple-100 text-purple-800', 'bg-[#95e000]/20 text-[#5a8600]', 'bg-blue-100 text-blue-800', 'bg-orange-100 text-orange-800'];
+
+const getBandName = (trlBands: TrlBand[], trlBandId: string) => trlBands.find(b => b.id === trlBandId)?.name || trlBandId;
+
+const TrlBadge: React.FC<{ trl: string; trlBands: TrlBand[] }> = ({ trl, trlBands }) => {
+    const index = Math.max(trlBands.findIndex(b => b.id === trl), 0);
+    return (
+        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${TRL_BADGE_COLORS[index % TRL_BADGE_COLORS.length]}`}>
+            {getBandName(trlBands, trl).split(' ')[0]}
+        </span>
+    );
+};
 
 interface ExpandedRowProps {
     result: ProjectResult;
     judgeMap: Map<string, string>;
+    trlBands: TrlBand[];
+    normalizationLabel: string;
 }
 
-const ExpandedRow: React.FC<ExpandedRowProps> = ({ result, judgeMap }) => {
+const ExpandedRow: React.FC<ExpandedRowProps> = ({ result, judgeMap, trlBands, normalizationLabel }) => {
     return (
         <tr className="bg-gray-50">
             <td colSpan={7} className="p-4">
                 <div className="p-4 bg-white rounded-lg border border-gray-200">
                     <h4 className="font-bold mb-2 text-[#5c11c9]">{result.project.name} - Scoring Breakdown</h4>
+                    <p className="text-xs text-gray-500 mb-3">
+                        Admin TRL: {getBandName(trlBands, result.project.trl)}. Jury assessments: {Object.keys(result.juryTrlVotes).length > 0
+                            ? Object.keys(result.juryTrlVotes).map(trl => `${getBandName(trlBands, trl)} (${result.juryTrlVotes[trl]})`).join(', ')
+                            : 'none'}.
+                    </p>
                     <table className="w-full text-sm text-left">
                         <thead className="text-xs text-gray-500 uppercase bg-gray-100">
                             <tr>
                                 <th className="p-2">Judge</th>
+                                <th className="p-2">TRL Used</th>
                                 <th className="p-2 text-right">Avg. Raw Score</th>
                                 <th className="p-2 text-right">Weighted Score</th>
-                                <th className="p-2 text-right">Normalized (Z-Score)</th>
+                                <th className="p-2 text-right">Normalized ({normalizationLabel})</th>
                             </tr>
                         </thead>
                         <tbody className='divide-y divide-gray-200'>
@@ -27,6 +58,7 @@ const ExpandedRow: React.FC<ExpandedRowProps> = ({ result, judgeMap }) => {
                                 return (
                                     <tr key={judgeId}>
                                         <td className="p-2 font-medium">{judgeMap.get(judgeId) || judgeId}</td>
+                                        <td className="p-2"><TrlBadge trl={stats.trl} trlBands={trlBands} /></td>
                                         <td className="p-2 text-right">{stats.raw.toFixed(2)}</td>
                                         <td className="p-2 text-right">{stats.weighted.toFixed(2)}</td>
                                         <td className="p-2 text-right font-bold">{stats.normalized.toFixed(3)}</td>
@@ -44,19 +76,49 @@ const ExpandedRow: React.FC<ExpandedRowProps> = ({ result, judgeMap }) => {
 interface ResultsTableProps {
   results: ProjectResult[];
   judges: Judge[];
+  tracks: Track[];
+  trlBands: TrlBand[];
+  criteria: Criterion[];
+  assignments: Assignment[];
+  reviewsPerProject: number;
+  options: RankingOptions;
+  onOptionsChange?: (options: RankingOptions) => void; // Omitted for published results, whose options are fixed
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ results, judges }) => {
+const ResultsTable: React.FC<ResultsTableProps> = ({ results, judges, tracks, trlBands, criteria, assignments, reviewsPerProject, options, onOptionsChange }) => {
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
-  const [selectedTrack, setSelectedTrack] = useState<Track | 'All'>('All');
+  const [selectedTrack, setSelectedTrack] = useState<string>('All');
 
   const judgeMap = useMemo(() => new Map(judges.map(j => [j.id, j.name])), [judges]);
+  const trackNames = useMemo(() => new Map(tracks.map(t => [t.id, t.name])), [tracks]);
+  const criterionNames = useMemo(() => new Map(criteria.map(c => [c.id, c.name])), [criteria]);
+  const assignedCounts = useMemo(() => assignments.reduce((counts, a) => counts.set(a.projectId, (counts.get(a.projectId) || 0) + 1), new Map<string, number>()), [assignments]);
+  const projectNames = useMemo(() => new Map(results.map(r => [r.project.id, r.project.name])), [results]);
+  const tieBreakers = options.tieBreakers || [];
+  // Tie-breakers not in use yet, by the value of their option.
+  const availableTieBreakers = useMemo(() => new Map<string, TieBreaker>([
+    [TieBreakerKind.REVIEWS, { kind: TieBreakerKind.REVIEWS }],
+    ...criteria.filter(c => !c.isGate).map(c => [`${TieBreakerKind.CRITERION}:${c.id}`, { kind: TieBreakerKind.CRITERION, criterionId: c.id }] as [string, TieBreaker]),
+  ].filter(([, candidate]) => !tieBreakers.some(t => t.kind === candidate.kind && t.criterionId === candidate.criterionId))), [criteria, tieBreakers]);
+  const strategy = NORMALIZATION_STRATEGIES[options.normalization];
 
   const filteredResults = useMemo(() => {
     if (selectedTrack === 'All') return results;
     return results.filter(r => r.project.track === selectedTrack);
   }, [results, selectedTrack]);
 
+  const describeTieBreaker = (tieBreaker: TieBreaker) =>
+    tieBreaker.kind === TieBreakerKind.REVIEWS ? 'Number of reviews' : criterionNames.get(tieBreaker.criterionId || '') || 'Deleted criterion';
+
+  const renderRank = (result: ProjectResult) => {
+    if (isDisqualified(result)) return '—';
+    const range = selectedTrack === 'All' ? result.rankRange : result.trackRankRange;
+    return range ? formatRankRange(range) : selectedTrack === 'All' ? result.rank : result.trackRank;
+  };
+
+  // Like the rank range, ties are counted among the projects on show: all of them, or the selected track's.
+  const getTiedWith = (result: ProjectResult) => (selectedTrack === 'All' ? result.tiedWith : result.trackTiedWith) || [];
+
   const handleRowClick = (projectId: string) => {
     setExpandedRow(expandedRow === projectId ? null : projectId);
   };
@@ -65,25 +127,110 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results, judges }) => {
     <div className="bg-white p-6 rounded-xl border border-gray-200">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-xl font-bold">Final Rankings</h3>
-        <select
-          value={selectedTrack}
-          onChange={(e) => setSelectedTrack(e.target.value as Track | 'All')}
-          className="bg-white border border-gray-300 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
-        >
-          <option value="All">All Tracks</option>
-          {TRACKS.map(track => <option key={track} value={track}>{track}</option>)}
-        </select>
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <label className="text-sm text-gray-500" title={strategy.description}>
+            Normalize by
+            <select
+              value={options.normalization}
+              disabled={!onOptionsChange}
+              onChange={(e) => onOptionsChange?.({ ...options, normalization: e.target.value as NormalizationMethod })}
+              className="ml-2 bg-white border border-gray-300 rounded-md px-3 py-1.5 text-gray-800 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+            >
+              {Object.values(NORMALIZATION_STRATEGIES).map(s => <option key={s.method} value={s.method}>{s.label}</option>)}
+            </select>
+          </label>
+          <label className="text-sm text-gray-500">
+            <select
+              value={options.normalizationScope}
+              disabled={!onOptionsChange}
+              onChange={(e) => onOptionsChange?.({ ...options, normalizationScope: e.target.value as NormalizationScope })}
+              className="bg-white border border-gray-300 rounded-md px-3 py-1.5 text-gray-800 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+              aria-label="Normalization scope"
+            >
+              <option value={NormalizationScope.JUDGE}>per judge</option>
+              <option value={NormalizationScope.JUDGE_TRACK}>per judge per track</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-500">
+            Weight by
+            <select
+              value={options.trlPolicy}
+              disabled={!onOptionsChange}
+              onChange={(e) => onOptionsChange?.({ ...options, trlPolicy: e.target.value as TrlPolicy })}
+              className="ml-2 bg-white border border-gray-300 rounded-md px-3 py-1.5 text-gray-800 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+            >
+              {Object.values(TrlPolicy).map(policy => <option key={policy} value={policy}>{TRL_POLICY_LABELS[policy]}</option>)}
+            </select>
+          </label>
+          <label className="text-sm text-gray-500">
+            <select
+              value={options.weighting ?? WeightingPolicy.CURRENT}
+              disabled={!onOptionsChange}
+              onChange={(e) => onOptionsChange?.({ ...options, weighting: e.target.value as WeightingPolicy })}
+              className="bg-white border border-gray-300 rounded-md px-3 py-1.5 text-gray-800 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+              aria-label="Weights used"
+            >
+              <option value={WeightingPolicy.PINNED}>weights when submitted</option>
+              <option value={WeightingPolicy.CURRENT}>current weights</option>
+            </select>
+          </label>
+          <select
+            value={selectedTrack}
+            onChange={(e) => setSelectedTrack(e.target.value)}
+            className="bg-white border border-gray-300 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+          >
+            <option value="All">All Tracks</option>
+            {tracks.map(track => <option key={track.id} value={track.id}>{track.name}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-500">
+        <span title="Projects whose confidence intervals overlap are statistically tied; their ranks show the range they could hold.">
+          Break statistical ties by
+        </span>
+        {tieBreakers.length === 0 && <span className="text-gray-400">final score only</span>}
+        {tieBreakers.map((tieBreaker, index) => (
+          <span key={`${tieBreaker.kind}:${tieBreaker.criterionId ?? ''}`} className="flex items-center gap-1 px-2 py-0.5 rounded bg-[#5c11c9]/10 text-[#5c11c9] font-medium">
+            {index + 1}. {describeTieBreaker(tieBreaker)}
+            {onOptionsChange && (
+              <button
+                type="button"
+                onClick={() => onOptionsChange({ ...options, tieBreakers: tieBreakers.filter((_, i) => i !== index) })}
+                className="ml-1 hover:text-red-700"
+                aria-label={`Remove tie-breaker ${describeTieBreaker(tieBreaker)}`}
+              >
+                &times;
+              </button>
+            )}
+          </span>
+        ))}
+        {onOptionsChange && availableTieBreakers.size > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const tieBreaker = availableTieBreakers.get(e.target.value);
+              if (tieBreaker) onOptionsChange({ ...options, tieBreakers: [...tieBreakers, tieBreaker] });
+            }}
+            className="bg-white border border-gray-300 rounded-md px-3 py-1.5 text-gray-800 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
+            aria-label="Add tie-breaker"
+          >
+            <option value="">{tieBreakers.length === 0 ? 'Add tie-breaker…' : 'Then by…'}</option>
+            {Array.from(availableTieBreakers.entries()).map(([value, tieBreaker]) => (
+              <option key={value} value={value}>{describeTieBreaker(tieBreaker)}</option>
+            ))}
+          </select>
+        )}
       </div>
       <div className="overflow-x-auto">
         <table className="w-full text-sm text-left text-gray-600">
           <thead className="text-xs text-gray-500 uppercase bg-gray-50">
             <tr>
-              <th scope="col" className="px-6 py-3">Rank</th>
+              <th scope="col" className="px-6 py-3">{selectedTrack === 'All' ? 'Overall Rank' : 'Track Rank'}</th>
               <th scope="col" className="px-6 py-3">Project</th>
               <th scope="col" className="px-6 py-3">Track</th>
               <th scope="col" className="px-6 py-3">TRL</th>
               <th scope="col" className="px-6 py-3 text-right">Avg. Weighted Score</th>
-              <th scope="col" className="px-6 py-3 text-right">Final Score (Avg. Z-Score)</th>
+              <th scope="col" className="px-6 py-3 text-right">Final Score (Avg. {strategy.label})</th>
               <th scope="col" className="px-6 py-3 text-center">Details</th>
             </tr>
           </thead>
@@ -95,22 +242,65 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results, judges }) => {
                         onClick={() => handleRowClick(result.project.id)}
                     >
                         <td className="px-6 py-4 font-bold text-lg text-gray-900">
-                           {result.rank}
+                           {renderRank(result)}
+                           {selectedTrack === 'All' && !isDisqualified(result) && (
+                               <span className="block text-xs font-normal text-gray-400">
+                                   #{result.trackRankRange ? formatRankRange(result.trackRankRange) : result.trackRank} in track
+                               </span>
+                           )}
+                           {getTiedWith(result).length > 0 && (
+                               <span
+                                   className="block w-fit mt-1 px-2 py-0.5 text-xs font-medium rounded bg-gray-100 text-gray-700"
+                                   title={`Statistically tied with ${getTiedWith(result).map(id => projectNames.get(id) || id).join(', ')}`}
+                               >
+                                   Tied ({getTiedWith(result).length})
+                               </span>
+                           )}
                         </td>
                         <td scope="row" className="px-6 py-4 font-medium text-gray-900 whitespace-nowrap">
                             {result.project.name}
+                            {/* Declaring a conflict removes the assignment, so only flag recusals that left the project short of reviewers. */}
+                            {result.recusedJudgeIds.length > 0 && (assignedCounts.get(result.project.id) || 0) < reviewsPerProject && (
+                                <span
+                                    className="block w-fit mt-1 px-2 py-0.5 text-xs font-medium rounded bg-orange-100 text-orange-800"
+                                    title={`Recused: ${result.recusedJudgeIds.map(id => judgeMap.get(id) || id).join(', ')}${result.recusedScoreCount > 0 ? ` (${result.recusedScoreCount} submitted score(s) excluded)` : ''}`}
+                                >
+                                    {assignedCounts.get(result.project.id) || 0} / {reviewsPerProject} reviewers · {result.recusedJudgeIds.length} recused
+                                </span>
+                            )}
+                            {isDisqualified(result) && (
+                                <span
+                                    className="block w-fit mt-1 px-2 py-0.5 text-xs font-medium rounded bg-red-100 text-red-800"
+                                    title={`Failed by most judges: ${result.disqualifiedBy!.map(id => criterionNames.get(id) || id).join(', ')}`}
+                                >
+                                    Disqualified
+                                </span>
+                            )}
                         </td>
-                        <td className="px-6 py-4">{result.project.track}</td>
+                        <td className="px-6 py-4">{trackNames.get(result.project.track) || result.project.track}</td>
                         <td className="px-6 py-4">
-                             <span className={`px-2 py-1 text-xs font-semibold rounded-full ${result.project.trl === 'Ideation (TRL 1-3)' ? 'bg-purple-100 text-purple-800' : 'bg-[#95e000]/20 text-[#5a8600]'}`}>
-                                {result.project.trl.split(' ')[0]}
-                            </span>
+                            <div className="flex flex-col items-start gap-1">
+                                <TrlBadge trl={result.project.trl} trlBands={trlBands} />
+                                {result.trlDisagreement && result.juryMajorityTrl && (
+                                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800" title="The jury's majority TRL assessment differs from the admin TRL">
+                                        Jury: {getBandName(trlBands, result.juryMajorityTrl).split(' ')[0]}
+                                    </span>
+                                )}
+                                <span className="text-xs text-gray-400">
+                                    Used: {result.resolvedTrl ? getBandName(trlBands, result.resolvedTrl).split(' ')[0] : 'Per judge'}
+                                </span>
+                            </div>
                         </td>
                         <td className="px-6 py-4 text-right font-mono text-base text-gray-700">
                             {result.avgWeightedScore.toFixed(2)}
                         </td>
                         <td className="px-6 py-4 text-right font-mono text-lg text-[#5c11c9]">
                             {result.finalScore.toFixed(4)}
+                            {result.confidenceInterval && (
+                                <span className="block text-xs text-gray-400" title={`${CONFIDENCE_LEVEL * 100}% bootstrap confidence interval`}>
+                                    {result.confidenceInterval.low.toFixed(3)} – {result.confidenceInterval.high.toFixed(3)}
+                                </span>
+                            )}
                         </td>
                         <td className="px-6 py-4 text-center">
                             <span className="font-medium text-[#5c11c9] hover:underline">
@@ -118,7 +308,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ results, judges }) => {
                             </span>
                         </td>
                     </tr>
-                    {expandedRow === result.project.id && <ExpandedRow result={result} judgeMap={judgeMap} />}
+                    {expandedRow === result.project.id && <ExpandedRow result={result} judgeMap={judgeMap} trlBands={trlBands} normalizationLabel={strategy.label} />}
               </React.Fragment>
             ))}
           </tbody>
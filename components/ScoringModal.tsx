@@ -1,53 +1,149 @@
-import React, { useState } from 'react';
-import { Project, Criterion, Score, TRL } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Project, Criterion, Score, TrlBand, ScoreStatus } from '../types';
+import FieldError from './FieldError';
+import { FieldErrors, ValidationError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors, toIdSet } from '../services/validationService';
+import { getApplicableCriteria } from '../services/evaluationService';
+import { GATE_PASS, MAX_SCORE_BUTTONS, findRubricAnchor, formatGateScore, getScaleValues } from '../services/scaleService';
 
 interface ScoringModalProps {
   project: Project;
   judgeId: string;
   criteria: Criterion[];
+  trackName: string;
+  trlBands: TrlBand[];
   existingScore?: Score;
   onClose: () => void;
-  onSave: (newScore: Score) => void;
+  onSave: (newScore: Omit<Score, 'id'>) => Promise<void>;
+  onSaveDraft: (draft: Omit<Score, 'id'>) => Promise<boolean>;
 }
 
+const AUTOSAVE_INTERVAL_MS = 10000;
+
+type DraftState = { status: 'idle' } | { status: 'saving' } | { status: 'saved'; at: Date } | { status: 'failed' };
+
 const LinkIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline-block mr-1.5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
     </svg>
 );
 
-const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria, existingScore, onClose, onSave }) => {
-  const [scores, setScores] = useState<{ [criterionId: string]: number }>(() => {
-    if (existingScore) {
-      return existingScore.criteriaScores;
-    }
-    const initialScores: { [criterionId: string]: number } = {};
-    criteria.forEach(c => {
-      initialScores[c.id] = 5;
-    });
-    return initialScores;
-  });
-  
-  const [juryTrl, setJuryTrl] = useState<TRL>(existingScore?.juryTrl || project.trl);
+// Criteria start unscored, so a score the judge never touched cannot be mistaken for a deliberate one.
+// Short scales are scored with one button per level and long ones with a slider; gates get Pass and Fail.
+// Until the evaluation is submitted it is autosaved as a draft, and closing the form saves it too.
+// A submitted evaluation is only changed by submitting it again.
+const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria: allCriteria, trackName, trlBands, existingScore, onClose, onSave, onSaveDraft }) => {
+  // Only the criteria of the project's track are shown, and only their scores are saved.
+  const criteria = getApplicableCriteria(allCriteria, project.track);
+  const [scores, setScores] = useState<{ [criterionId: string]: number }>(existingScore?.criteriaScores || {});
+  const [juryTrl, setJuryTrl] = useState<string>(existingScore?.juryTrl || project.trl);
   const [notes, setNotes] = useState(existingScore?.notes || '');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [draftState, setDraftState] = useState<DraftState>({ status: 'idle' });
+
+  const isSubmitted = existingScore?.status === ScoreStatus.SUBMITTED;
+  const unscoredCount = criteria.filter(c => scores[c.id] === undefined).length;
+
+  const buildScore = (status: ScoreStatus): Omit<Score, 'id'> => ({
+    projectId: project.id,
+    judgeId: judgeId,
+    criteriaScores: Object.fromEntries(criteria.filter(c => scores[c.id] !== undefined).map(c => [c.id, scores[c.id]])),
+    juryTrl: juryTrl,
+    notes: notes,
+    status,
+  });
+
+  // The autosave timer reads the latest form through a ref; `lastSavedDraft` skips saves when nothing changed.
+  const draftRef = useRef(buildScore(ScoreStatus.DRAFT));
+  draftRef.current = buildScore(ScoreStatus.DRAFT);
+  const lastSavedDraft = useRef(JSON.stringify(draftRef.current));
+  const pendingSave = useRef<Promise<boolean> | null>(null);
+
+  const saveDraft = async () => {
+    // Let a save already in flight finish first, so closing the form still saves the latest changes.
+    if (pendingSave.current) await pendingSave.current;
+    const draft = draftRef.current;
+    const serialized = JSON.stringify(draft);
+    if (isSubmitted || serialized === lastSavedDraft.current) return true;
+    setDraftState({ status: 'saving' });
+    pendingSave.current = onSaveDraft(draft);
+    const saved = await pendingSave.current;
+    pendingSave.current = null;
+    if (saved) lastSavedDraft.current = serialized;
+    setDraftState(saved ? { status: 'saved', at: new Date() } : { status: 'failed' });
+    return saved;
+  };
+
+  useEffect(() => {
+    if (isSubmitted) return;
+    const timer = setInterval(saveDraft, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isSubmitted]);
+
+  const handleClose = async () => {
+    const saved = await saveDraft();
+    if (saved || window.confirm('Your draft could not be saved. Close anyway and lose your changes?')) {
+      onClose();
+    }
+  };
 
   const handleScoreChange = (criterionId: string, value: number) => {
-    const newScore = Math.max(0, Math.min(10, value));
-    setScores(prev => ({ ...prev, [criterionId]: newScore }));
+    setScores(prev => ({ ...prev, [criterionId]: value }));
+  };
+
+  const renderScoreInput = (criterion: Criterion) => {
+    const value = scores[criterion.id];
+    const values = criterion.isGate ? [GATE_PASS, 0] : getScaleValues(criterion);
+    if (values.length > MAX_SCORE_BUTTONS) {
+      // A slider cannot show "not scored", so it starts faded at the minimum and only counts once the judge touches it.
+      return (
+        <input
+          id={`score-${criterion.id}`}
+          type="range"
+          min={criterion.scaleMin}
+          max={criterion.scaleMax}
+          step={criterion.scaleStep}
+          value={value ?? criterion.scaleMin}
+          onChange={(e) => handleScoreChange(criterion.id, Number(e.target.value))}
+          onPointerUp={(e) => handleScoreChange(criterion.id, Number(e.currentTarget.value))}
+          className={`w-full accent-[#5c11c9] ${value === undefined ? 'opacity-50' : ''}`}
+          aria-label={criterion.name}
+        />
+      );
+    }
+    return (
+      <div id={`score-${criterion.id}`} role="radiogroup" aria-label={criterion.name} className="flex gap-1">
+        {values.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={value === option}
+            onClick={() => handleScoreChange(criterion.id, option)}
+            className={`flex-1 py-1 rounded text-sm font-medium transition-colors ${
+              value === option ? 'bg-[#5c11c9] text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {criterion.isGate ? formatGateScore(option) : option}
+          </button>
+        ))}
+      </div>
+    );
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const newScore: Score = {
-      id: existingScore?.id || `s_${project.id}_${judgeId}_${Date.now()}`,
-      projectId: project.id,
-      judgeId: judgeId,
-      criteriaScores: scores,
-      juryTrl: juryTrl,
-      notes: notes,
-    };
-    onSave(newScore);
-    onClose();
+    const score = buildScore(ScoreStatus.SUBMITTED);
+    const errors = getFieldErrors('score', score, { criterionIds: toIdSet(criteria), trlBandIds: toIdSet(trlBands) });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+    try {
+      await onSave(score);
+      onClose();
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      setFieldErrors(error.fieldErrors);
+    }
   };
 
   return (
@@ -55,7 +151,7 @@ const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria,
       <div className="bg-white rounded-xl border border-gray-200 shadow-2xl w-full max-w-3xl">
         <div className="p-6 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">Evaluate Project: {project.name}</h3>
-          <p className="text-sm text-gray-500">{project.track} - Admin TRL: {project.trl}</p>
+          <p className="text-sm text-gray-500">{trackName} - Admin TRL: {trlBands.find(b => b.id === project.trl)?.name || project.trl}</p>
         </div>
         <form onSubmit={handleSubmit}>
           <div className="p-6 max-h-[60vh] overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
@@ -91,12 +187,12 @@ const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria,
                 <select
                   id="juryTrl"
                   value={juryTrl}
-                  onChange={(e) => setJuryTrl(e.target.value as TRL)}
+                  onChange={(e) => setJuryTrl(e.target.value)}
                   className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                 >
-                  <option value={TRL.IDEATION}>{TRL.IDEATION}</option>
-                  <option value={TRL.PROTOTYPE}>{TRL.PROTOTYPE}</option>
+                  {trlBands.map(band => <option key={band.id} value={band.id}>{band.name}</option>)}
                 </select>
+                <FieldError message={fieldErrors.juryTrl} />
               </div>
               <div>
                 <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">Private Notes</label>
@@ -108,6 +204,7 @@ const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria,
                   placeholder="Your personal thoughts on this project..."
                   className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none"
                 />
+                <FieldError message={fieldErrors.notes} />
               </div>
             </div>
 
@@ -118,33 +215,56 @@ const ScoringModal: React.FC<ScoringModalProps> = ({ project, judgeId, criteria,
                   <div className="flex justify-between items-center mb-1">
                     <label htmlFor={`score-${criterion.id}`} className="font-medium text-gray-700 text-sm">
                       {criterion.name}
-                      <span className="ml-2 text-xs text-gray-400 font-mono">({criterion.weight[project.trl]}%)</span>
+                      <span className="ml-2 text-xs text-gray-400 font-mono">
+                        {criterion.isGate ? '(Pass/fail gate)' : `(${criterion.weight[project.trl] ?? 0}%)`}
+                      </span>
                     </label>
-                    <span className="font-bold text-lg text-[#5c11c9] w-10 text-center">
-                      {scores[criterion.id] || 0}
+                    <span className={`font-bold w-20 text-right ${scores[criterion.id] === undefined ? 'text-sm text-gray-400' : 'text-lg text-[#5c11c9]'}`}>
+                      {scores[criterion.id] === undefined ? 'Not scored' : criterion.isGate ? formatGateScore(scores[criterion.id]) : scores[criterion.id]}
                     </span>
                   </div>
-                  <input
-                    id={`score-${criterion.id}`}
-                    type="range"
-                    min="0"
-                    max="10"
-                    step="1"
-                    value={scores[criterion.id] || 0}
-                    onChange={(e) => handleScoreChange(criterion.id, parseInt(e.target.value, 10))}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                  />
+                  {criterion.description && <p className="text-xs text-gray-500 mb-2">{criterion.description}</p>}
+                  {renderScoreInput(criterion)}
+                  {criterion.rubric && criterion.rubric.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-xs">
+                      {criterion.rubric.map(anchor => (
+                        <li
+                          key={anchor.score}
+                          className={scores[criterion.id] !== undefined && findRubricAnchor(criterion, scores[criterion.id]) === anchor ? 'text-[#5c11c9] font-medium' : 'text-gray-500'}
+                        >
+                          <span className="font-mono">{anchor.score}</span> — {anchor.description}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <FieldError message={fieldErrors[`criteriaScores.${criterion.id}`]} />
                 </li>
               ))}
             </ul>
           </div>
-          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end items-center">
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-between items-center">
+            <p className="text-sm text-gray-500">
+              {unscoredCount > 0 && <span>{unscoredCount} of {criteria.length} criteria not scored yet. </span>}
+              {draftState.status === 'saving' && 'Saving draft…'}
+              {draftState.status === 'saved' && `Draft saved at ${draftState.at.toLocaleTimeString()}.`}
+              {draftState.status === 'failed' && <span className="text-red-600">Your draft could not be saved.</span>}
+            </p>
             <div className='space-x-3'>
-              <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
-                Cancel
-              </button>
-              <button type="submit" className="px-6 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
-                {existingScore ? 'Update Evaluation' : 'Submit Evaluation'}
+              {isSubmitted ? (
+                <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+                  Cancel
+                </button>
+              ) : (
+                <button type="button" onClick={handleClose} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+                  Save Draft &amp; Close
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={unscoredCount > 0}
+                className="px-6 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[#5c11c9]"
+              >
+                {isSubmitted ? 'Update Evaluation' : 'Submit Evaluation'}
               </button>
             </div>
           </div>
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AwardsSummary, ProjectResult } from '../types';
+import { TrophyIcon } from './icons';
+
+interface TrackAwardsProps {
+  awards: AwardsSummary;
+}
+
+const AwardEntry: React.FC<{ label: string; result?: ProjectResult }> = ({ label, result }) => (
+    <div className="flex justify-between items-baseline text-sm">
+        <span className="text-gray-500">{label}</span>
+        {result ? (
+            <span className="font-medium text-gray-900 text-right">
+                {result.project.name}
+                <span className="ml-2 font-mono text-xs text-[#5c11c9]">{result.finalScore.toFixed(3)}</span>
+            </span>
+        ) : (
+            <span className="text-gray-400 italic">Not enough results</span>
+        )}
+    </div>
+);
+
+const TrackAwards: React.FC<TrackAwardsProps> = ({ awards }) => {
+  const trackNames = new Map(awards.tracks.map(t => [t.track.id, t.track.name]));
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold">Track Winners</h3>
+        {awards.overallWinner && (
+            <div className="flex items-center gap-2 bg-[#95e000]/20 text-[#3d5a00] px-3 py-1.5 rounded-md">
+                <TrophyIcon className="w-5 h-5" />
+                <span className="text-sm">
+                    Overall Winner: <span className="font-bold">{awards.overallWinner.project.name}</span> ({trackNames.get(awards.overallWinner.project.track) || awards.overallWinner.project.track})
+                </span>
+            </div>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {awards.tracks.map(({ track, winner, runnerUp }) => (
+            <div key={track.id} className="p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-2">
+                <h4 className="font-semibold text-gray-900">{track.name}</h4>
+                <AwardEntry label="Winner" result={winner} />
+                <AwardEntry label="Runner-up" result={runnerUp} />
+                {winner && runnerUp && winner.trackTiedWith?.includes(runnerUp.project.id) && (
+                    <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+                        Statistically tied: their confidence intervals overlap.
+                    </p>
+                )}
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrackAwards;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Track, TrlBand } from '../types';
+import { EditIcon, DeleteIcon } from './icons';
+
+interface TrackTrlSettingsProps {
+  tracks: Track[];
+  trlBands: TrlBand[];
+  addTrack: (newTrack: Omit<Track, 'id'>) => void;
+  editTrack: (updatedTrack: Track) => void;
+  deleteTrack: (trackId: string) => void;
+  addTrlBand: (newBand: Omit<TrlBand, 'id'>) => void;
+  editTrlBand: (updatedBand: TrlBand) => void;
+  deleteTrlBand: (bandId: string) => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+const TrackTrlSettings: React.FC<TrackTrlSettingsProps> = ({ tracks, trlBands, addTrack, editTrack, deleteTrack, addTrlBand, editTrlBand, deleteTrlBand }) => {
+  const [newTrackName, setNewTrackName] = useState('');
+  const [editingTrack, setEditingTrack] = useState<Track | null>(null);
+  const [newBandName, setNewBandName] = useState('');
+  const [editingBand, setEditingBand] = useState<TrlBand | null>(null);
+
+  const handleAddTrack = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTrackName.trim()) return;
+    addTrack({ name: newTrackName.trim() });
+    setNewTrackName('');
+  };
+
+  const handleSaveTrack = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTrack || !editingTrack.name.trim()) return;
+    editTrack({ ...editingTrack, name: editingTrack.name.trim() });
+    setEditingTrack(null);
+  };
+
+  const handleDeleteTrack = (track: Track) => {
+    if (window.confirm(`Are you sure you want to delete the "${track.name}" track? Judges will be unassigned from it.`)) {
+        deleteTrack(track.id);
+    }
+  };
+
+  const handleAddBand = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBandName.trim()) return;
+    const nextPosition = trlBands.reduce((max, b) => Math.max(max, b.position), 0) + 1;
+    addTrlBand({ name: newBandName.trim(), position: nextPosition });
+    setNewBandName('');
+  };
+
+  const handleSaveBand = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingBand || !editingBand.name.trim()) return;
+    editTrlBand({ ...editingBand, name: editingBand.name.trim(), position: Number(editingBand.position) || 0 });
+    setEditingBand(null);
+  };
+
+  const handleDeleteBand = (band: TrlBand) => {
+    if (window.confirm(`Are you sure you want to delete the "${band.name}" TRL band? Its criterion weights will be removed.`)) {
+        deleteTrlBand(band.id);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-4">Tracks</h3>
+        <form onSubmit={handleAddTrack} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newTrackName}
+            onChange={(e) => setNewTrackName(e.target.value)}
+            placeholder="New track name"
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button type="submit" className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
+            Add Track
+          </button>
+        </form>
+        <ul className="divide-y divide-gray-200">
+          {tracks.map(track => (
+            <li key={track.id} className="py-3 flex justify-between items-center group">
+              {editingTrack?.id === track.id ? (
+                <form onSubmit={handleSaveTrack} className="flex gap-2 w-full">
+                  <input
+                    type="text"
+                    value={editingTrack.name}
+                    onChange={(e) => setEditingTrack({ ...editingTrack, name: e.target.value })}
+                    className={`flex-1 ${inputClassName}`}
+                    autoFocus
+                  />
+                  <button type="submit" className="px-3 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white text-sm font-medium">Save</button>
+                  <button type="button" onClick={() => setEditingTrack(null)} className="px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 text-sm font-medium">Cancel</button>
+                </form>
+              ) : (
+                <>
+                  <p className="font-semibold text-gray-900">{track.name}</p>
+                  <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setEditingTrack(track)}
+                      className="p-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors"
+                      aria-label="Edit track"
+                    >
+                      <EditIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTrack(track)}
+                      className="p-2 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 transition-colors"
+                      aria-label="Delete track"
+                    >
+                      <DeleteIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-gray-200">
+        <h3 className="text-xl font-bold mb-1">TRL Bands</h3>
+        <p className="text-sm text-gray-500 mb-4">Each band gets its own column of criterion weights. Order decides how bands are listed, from least to most mature.</p>
+        <form onSubmit={handleAddBand} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newBandName}
+            onChange={(e) => setNewBandName(e.target.value)}
+            placeholder="e.g. Production (TRL 7-9)"
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button type="submit" className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
+            Add Band
+          </button>
+        </form>
+        <ul className="divide-y divide-gray-200">
+          {trlBands.map(band => (
+            <li key={band.id} className="py-3 flex justify-between items-center group">
+              {editingBand?.id === band.id ? (
+                <form onSubmit={handleSaveBand} className="flex gap-2 w-full">
+                  <input
+                    type="number"
+                    value={editingBand.position}
+                    onChange={(e) => setEditingBand({ ...editingBand, position: Number(e.target.value) })}
+                    className={`w-20 ${inputClassName}`}
+                    aria-label="Order"
+                  />
+                  <input
+                    type="text"
+                    value={editingBand.name}
+                    onChange={(e) => setEditingBand({ ...editingBand, name: e.target.value })}
+                    className={`flex-1 ${inputClassName}`}
+                    autoFocus
+                  />
+                  <button type="submit" className="px-3 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white text-sm font-medium">Save</button>
+                  <button type="button" onClick={() => setEditingBand(null)} className="px-3 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 text-sm font-medium">Cancel</button>
+                </form>
+              ) : (
+                <>
+                  <p className="font-semibold text-gray-900">
+                    <span className="font-mono text-xs text-gray-400 mr-2">{band.position}</span>
+                    {band.name}
+                  </p>
+                  <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setEditingBand(band)}
+                      className="p-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors"
+                      aria-label="Edit TRL band"
+                    >
+                      <EditIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteBand(band)}
+                      className="p-2 rounded-md bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-700 transition-colors"
+                      aria-label="Delete TRL band"
+                    >
+                      <DeleteIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default TrackTrlSettings;
@@ -0,0 +1,57 @@
+import React from 'react';
+
+export interface ConflictField {
+  label: string;
+  mine: string;
+  theirs: string;
+}
+
+interface VersionConflictViewProps {
+  entityLabel: string; // e.g. "project", used in the explanation
+  fields: ConflictField[];
+  onOverwrite: () => void;
+  onUseTheirs: () => void;
+}
+
+// Replaces an edit form when someone else saved the same record first. Both versions are listed side by side
+// with the differing fields highlighted; the user either saves theirs over it or continues from the saved copy.
+const VersionConflictView: React.FC<VersionConflictViewProps> = ({ entityLabel, fields, onOverwrite, onUseTheirs }) => (
+  <div>
+    <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+      <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md p-3">
+        Someone else saved this {entityLabel} after you opened it. Compare the two versions, then keep your changes or continue from the saved version.
+      </p>
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs text-gray-500 uppercase bg-gray-50">
+          <tr>
+            <th className="px-3 py-2">Field</th>
+            <th className="px-3 py-2">Your Changes</th>
+            <th className="px-3 py-2">Saved Version</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {fields.map(field => {
+            const differs = field.mine !== field.theirs;
+            return (
+              <tr key={field.label} className={differs ? 'bg-yellow-50' : ''}>
+                <td className="px-3 py-2 font-medium text-gray-700 whitespace-nowrap align-top">{field.label}</td>
+                <td className={`px-3 py-2 whitespace-pre-wrap break-words align-top ${differs ? 'text-gray-900 font-semibold' : 'text-gray-500'}`}>{field.mine || '—'}</td>
+                <td className={`px-3 py-2 whitespace-pre-wrap break-words align-top ${differs ? 'text-gray-900 font-semibold' : 'text-gray-500'}`}>{field.theirs || '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+    <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+      <button type="button" onClick={onUseTheirs} className="px-4 py-2 rounded-md bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 font-medium transition-colors">
+        Continue from Saved Version
+      </button>
+      <button type="button" onClick={onOverwrite} className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors">
+        Overwrite with My Changes
+      </button>
+    </div>
+  </div>
+);
+
+export default VersionConflictView;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Criterion, TrlBand, WeightSet } from '../types';
+import FieldError from './FieldError';
+import { FieldErrors, ValidationError } from '../services/dbService';
+import { getFieldErrors, hasFieldErrors } from '../services/validationService';
+import { WeightTotal, differsFromWeightSet, formatWeightSetName } from '../services/weightService';
+
+interface WeightSetPanelProps {
+  criteria: Criterion[];
+  trlBands: TrlBand[];
+  weightTotals: WeightTotal[];
+  weightSets: WeightSet[];
+  onCreate: (name: string) => Promise<void>;
+  onActivate: (weightSetId: string) => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-[#5c11c9] focus:outline-none";
+
+// Saves the criteria weights as named, numbered sets. The active set is stamped on each score as it is submitted,
+// so later weight edits only affect the rankings once they are saved as a new set, or when the admin recomputes.
+const WeightSetPanel: React.FC<WeightSetPanelProps> = ({ criteria, trlBands, weightTotals, weightSets, onCreate, onActivate }) => {
+  const [name, setName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSet = weightSets.find(w => w.isActive);
+  const hasUnsavedChanges = activeSet ? differsFromWeightSet(criteria, activeSet, trlBands) : criteria.length > 0;
+  const canSave = criteria.length > 0 && weightTotals.every(t => t.isValid);
+  const newestFirst = [...weightSets].sort((a, b) => b.number - a.number);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = getFieldErrors('weightSet', { name: name.trim() });
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+    setIsSaving(true);
+    try {
+      await onCreate(name.trim());
+      setName('');
+      setFieldErrors({});
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+      } else {
+        throw error;
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = (weightSet: WeightSet) => {
+    if (window.confirm(`Make "${formatWeightSetName(weightSet)}" the active weight set? Scores submitted from now on will use its weights.`)) {
+      onActivate(weightSet.id);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-200">
+      <h4 className="text-lg font-bold mb-1">Weight Sets</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Each submitted score is pinned to the weight set that was active when it was submitted. Editing the weights above only changes the rankings once you save them as a new set, or when you recompute the results with the current weights.
+      </p>
+
+      {hasUnsavedChanges && (
+        <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md p-3 mb-4">
+          {activeSet
+            ? `The weights above differ from the active set, ${formatWeightSetName(activeSet)}. Scores submitted from now on still use that set until you save the changes as a new one.`
+            : 'No weight set has been saved yet, so scores are ranked with the current weights. Save a set to pin new submissions to it.'}
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-start gap-3 mb-4">
+        <div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Final weights"
+            className={`text-sm ${inputClassName}`}
+            aria-label="Weight set name"
+          />
+          <FieldError message={fieldErrors.name} />
+          {trlBands.map(band => <FieldError key={band.id} message={fieldErrors[`weights.${band.id}`]} />)}
+        </div>
+        <button
+          type="submit"
+          disabled={!canSave || isSaving}
+          title={canSave ? undefined : 'The weights for every TRL must add up to 100 first.'}
+          className="px-4 py-2 rounded-md bg-[#5c11c9] hover:bg-[#4a0e9f] text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[#5c11c9]"
+        >
+          Save as New Set
+        </button>
+      </form>
+
+      {newestFirst.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {newestFirst.map(weightSet => (
+            <li key={weightSet.id} className="py-3 flex justify-between items-center">
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {formatWeightSetName(weightSet)}
+                  {weightSet.isActive && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-[#95e000]/30 text-[#3d5a00]">Active</span>}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Saved {new Date(weightSet.createdAt).toLocaleString()} · {Object.keys(weightSet.weights).length} criteria
+                </p>
+              </div>
+              {!weightSet.isActive && (
+                <button
+                  onClick={() => handleActivate(weightSet)}
+                  className="px-3 py-2 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                >
+                  Make Active
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WeightSetPanel;
@@ -1,17 +1,30 @@
-import { Project, Judge, Criterion, Score, TRL, TRACKS } from '../types';
+import { Project, Judge, Criterion, Score, Track, TrlBand, ScoreStatus } from '../types';
+
+export const MOCK_TRACKS: Track[] = [
+  { id: 't_ai_depin', name: 'AI and Depin' },
+  { id: 't_onchain_finance_rwa', name: 'Onchain Finance & RWA' },
+  { id: 't_dlt_operations', name: 'DLT for Operations' },
+  { id: 't_immersive', name: 'Immersive Experiences' },
+  { id: 't_cross_chain', name: 'Cross-Chain Track' },
+];
+
+export const MOCK_TRL_BANDS: TrlBand[] = [
+  { id: 'ideation', name: 'Ideation (TRL 1-3)', position: 1 },
+  { id: 'prototype', name: 'Prototype (TRL 4-6)', position: 2 },
+];
 
 export const MOCK_CRITERIA: Criterion[] = [
-  { id: 'c1', name: 'Technical Innovation & Complexity', weight: { [TRL.IDEATION]: 25, [TRL.PROTOTYPE]: 30 } },
-  { id: 'c2', name: 'Hedera Integration & Use Case', weight: { [TRL.IDEATION]: 30, [TRL.PROTOTYPE]: 30 } },
-  { id: 'c3', name: 'Feasibility & Business Potential', weight: { [TRL.IDEATION]: 25, [TRL.PROTOTYPE]: 20 } },
-  { id: 'c4', name: 'Presentation & Pitch Quality', weight: { [TRL.IDEATION]: 20, [TRL.PROTOTYPE]: 20 } },
+  { id: 'c1', name: 'Technical Innovation & Complexity', weight: { ideation: 25, prototype: 30 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] },
+  { id: 'c2', name: 'Hedera Integration & Use Case', weight: { ideation: 30, prototype: 30 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] },
+  { id: 'c3', name: 'Feasibility & Business Potential', weight: { ideation: 25, prototype: 20 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] },
+  { id: 'c4', name: 'Presentation & Pitch Quality', weight: { ideation: 20, prototype: 20 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] },
 ];
 
 export const MOCK_JUDGES: Judge[] = [
-  { id: 'j1', name: 'Dr. Leemon Baird', tracks: ['AI and Depin', 'Onchain Finance & RWA'] },
-  { id: 'j2', name: 'Mance Harmon', tracks: ['DLT for Operations', 'Immersive Experiences'] },
-  { id: 'j3', name: 'Shayne Higdon', tracks: ['Cross-Chain Track', 'Onchain Finance & RWA'] },
-  { id: 'j4', name: 'Zenobia Godschalk', tracks: ['AI and Depin', 'Immersive Experiences'] },
+  { id: 'j1', name: 'Dr. Leemon Baird', tracks: ['t_ai_depin', 't_onchain_finance_rwa'] },
+  { id: 'j2', name: 'Mance Harmon', tracks: ['t_dlt_operations', 't_immersive'] },
+  { id: 'j3', name: 'Shayne Higdon', tracks: ['t_cross_chain', 't_onchain_finance_rwa'] },
+  { id: 'j4', name: 'Zenobia Godschalk', tracks: ['t_ai_depin', 't_immersive'] },
 ];
 
 export const MOCK_PROJECTS: Project[] = [
@@ -19,66 +32,66 @@ export const MOCK_PROJECTS: Project[] = [
         id: 'p1',
         name: 'DeFiYield Pro',
         description: 'An AI-powered yield aggregator for Hedera-based DeFi protocols, optimizing returns for liquidity providers.',
-        track: 'Onchain Finance & RWA',
-        trl: TRL.PROTOTYPE,
+        track: 't_onchain_finance_rwa',
+        trl: 'prototype',
         links: [{label: 'GitHub', url: 'https://github.com'}, {label: 'Demo Video', url: 'https://youtube.com'}]
     },
     {
         id: 'p2',
         name: 'VeriSupply',
         description: 'A decentralized supply chain tracking system using Hedera Consensus Service for transparent and immutable logistics.',
-        track: 'DLT for Operations',
-        trl: TRL.PROTOTYPE,
+        track: 't_dlt_operations',
+        trl: 'prototype',
     },
     {
         id: 'p3',
         name: 'AI Guardian',
         description: 'A concept for a decentralized AI oracle network secured by Hedera, providing tamper-proof data feeds for smart contracts.',
-        track: 'AI and Depin',
-        trl: TRL.IDEATION,
+        track: 't_ai_depin',
+        trl: 'ideation',
         links: [{label: 'Pitch Deck', url: 'https://pitch.com'}]
     },
     {
         id: 'p4',
         name: 'HederaVerse',
         description: 'A proof-of-concept metaverse platform where in-game assets are tokenized as NFTs on Hedera.',
-        track: 'Immersive Experiences',
-        trl: TRL.IDEATION,
+        track: 't_immersive',
+        trl: 'ideation',
     },
     {
         id: 'p5',
         name: 'ChainLink Bridge for HBAR',
         description: 'A cross-chain bridge to enable seamless asset transfer between Ethereum and Hedera networks.',
-        track: 'Cross-Chain Track',
-        trl: TRL.PROTOTYPE,
+        track: 't_cross_chain',
+        trl: 'prototype',
     },
     {
         id: 'p6',
         name: 'RWA Tokenizer',
         description: 'Platform to tokenize real-world assets like real estate and art, leveraging Hedera Token Service.',
-        track: 'Onchain Finance & RWA',
-        trl: TRL.PROTOTYPE,
+        track: 't_onchain_finance_rwa',
+        trl: 'prototype',
     }
 ];
 
 
 export const MOCK_SCORES: Score[] = [
     // Scores for DeFiYield Pro (p1)
-    { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 8, c2: 9, c3: 7, c4: 8 }, notes: 'Very strong technical implementation.' },
-    { id: 's2', projectId: 'p1', judgeId: 'j3', criteriaScores: { c1: 9, c2: 8, c3: 8, c4: 7 }, juryTrl: TRL.PROTOTYPE },
+    { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 8, c2: 9, c3: 7, c4: 8 }, notes: 'Very strong technical implementation.', status: ScoreStatus.SUBMITTED },
+    { id: 's2', projectId: 'p1', judgeId: 'j3', criteriaScores: { c1: 9, c2: 8, c3: 8, c4: 7 }, juryTrl: 'prototype', status: ScoreStatus.SUBMITTED },
 
     // Scores for VeriSupply (p2)
-    { id: 's3', projectId: 'p2', judgeId: 'j2', criteriaScores: { c1: 7, c2: 8, c3: 9, c4: 7 } },
+    { id: 's3', projectId: 'p2', judgeId: 'j2', criteriaScores: { c1: 7, c2: 8, c3: 9, c4: 7 }, status: ScoreStatus.SUBMITTED },
     
     // Scores for AI Guardian (p3)
-    { id: 's4', projectId: 'p3', judgeId: 'j1', criteriaScores: { c1: 9, c2: 9, c3: 8, c4: 7 }, juryTrl: TRL.IDEATION, notes: 'Great idea, needs a solid roadmap.' },
-    { id: 's5', projectId: 'p3', judgeId: 'j4', criteriaScores: { c1: 8, c2: 10, c3: 7, c4: 8 } },
+    { id: 's4', projectId: 'p3', judgeId: 'j1', criteriaScores: { c1: 9, c2: 9, c3: 8, c4: 7 }, juryTrl: 'ideation', notes: 'Great idea, needs a solid roadmap.', status: ScoreStatus.SUBMITTED },
+    { id: 's5', projectId: 'p3', judgeId: 'j4', criteriaScores: { c1: 8, c2: 10, c3: 7, c4: 8 }, status: ScoreStatus.SUBMITTED },
 
     // Scores for HederaVerse (p4)
-    { id: 's6', projectId: 'p4', judgeId: 'j2', criteriaScores: { c1: 6, c2: 7, c3: 7, c4: 9 } },
-    { id: 's7', projectId: 'p4', judgeId: 'j4', criteriaScores: { c1: 7, c2: 6, c3: 8, c4: 8 }, notes: 'Pitch was excellent.' },
+    { id: 's6', projectId: 'p4', judgeId: 'j2', criteriaScores: { c1: 6, c2: 7, c3: 7, c4: 9 }, status: ScoreStatus.SUBMITTED },
+    { id: 's7', projectId: 'p4', judgeId: 'j4', criteriaScores: { c1: 7, c2: 6, c3: 8, c4: 8 }, notes: 'Pitch was excellent.', status: ScoreStatus.SUBMITTED },
 
     // RWA Tokenizer (p6) is judged by j1 and j3
-    { id: 's8', projectId: 'p6', judgeId: 'j1', criteriaScores: { c1: 9, c2: 7, c3: 9, c4: 8 } },
+    { id: 's8', projectId: 'p6', judgeId: 'j1', criteriaScores: { c1: 9, c2: 7, c3: 9, c4: 8 }, status: ScoreStatus.SUBMITTED },
 
 ];
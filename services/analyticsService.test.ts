@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectResult } from '../types';
+import { describeAlpha, getAgreementAnalytics, krippendorffAlpha } from './analyticsService';
+
+// Only the project, its track and the judges' weighted scores matter to the analytics; the rest is filler.
+const result = (id: string, track: string, weighted: Record<string, number>): ProjectResult => ({
+  project: { id, name: id, description: '', track, trl: 'b1' },
+  scores: [],
+  finalScore: 0,
+  avgWeightedScore: 0,
+  juryTrlVotes: {},
+  trlDisagreement: false,
+  recusedJudgeIds: [],
+  recusedScoreCount: 0,
+  judgeStats: Object.fromEntries(Object.entries(weighted).map(([judgeId, score]) => [judgeId, { raw: 0, weighted: score, normalized: 0, trl: 'b1' }])),
+  rank: 0,
+  trackRank: 0,
+});
+
+describe('krippendorffAlpha', () => {
+  it('is 1 when every judge agrees on every project', () => {
+    expect(krippendorffAlpha([[2, 2], [5, 5, 5], [9, 9]])).toBe(1);
+  });
+
+  it('matches a worked example', () => {
+    // Observed disagreement 1, expected 40/12, so alpha = 1 - 12/40.
+    expect(krippendorffAlpha([[1, 2], [3, 4]])).toBeCloseTo(0.7);
+  });
+
+  it('is negative when judges disagree more than chance', () => {
+    expect(krippendorffAlpha([[1, 9], [9, 1]])!).toBeLessThan(0);
+  });
+
+  it('ignores projects with a single score', () => {
+    expect(krippendorffAlpha([[1, 2], [3, 4], [100]])).toBeCloseTo(0.7);
+  });
+
+  it('is null without anything to compare', () => {
+    expect(krippendorffAlpha([])).toBeNull();
+    expect(krippendorffAlpha([[5], [7]])).toBeNull();
+    expect(krippendorffAlpha([[5, 5], [5, 5]])).toBeNull();
+  });
+});
+
+describe('describeAlpha', () => {
+  it('follows the usual thresholds', () => {
+    expect(describeAlpha(null)).toBe('Not enough overlap');
+    expect(describeAlpha(0.85)).toBe('Good agreement');
+    expect(describeAlpha(0.7)).toBe('Tentative agreement');
+    expect(describeAlpha(0.5)).toBe('Low agreement');
+  });
+});
+
+describe('getAgreementAnalytics', () => {
+  // j4 scores 15 points below the other three on every project.
+  const results = [
+    result('p1', 't1', { j1: 70, j2: 70, j3: 70, j4: 55 }),
+    result('p2', 't1', { j1: 60, j2: 60, j3: 60, j4: 45 }),
+    result('p3', 't2', { j1: 80, j2: 80, j3: 80, j4: 65 }),
+    result('p4', 't2', { j5: 90, j6: 40 }),
+  ];
+  const tracks = [{ id: 't1', name: 'One' }, { id: 't2', name: 'Two' }, { id: 't3', name: 'Three' }];
+  const analytics = getAgreementAnalytics(results, tracks);
+
+  it('flags projects whose judges are far apart, widest first', () => {
+    expect(analytics.projects[0]).toMatchObject({ judgeCount: 2, mean: 65, stdev: 25, min: 40, max: 90, needsReview: true });
+    expect(analytics.projects.filter(p => p.needsReview)).toHaveLength(1);
+  });
+
+  it('flags a judge who scores well below the others', () => {
+    const j4 = analytics.judges.find(j => j.judgeId === 'j4')!;
+    expect(j4.meanDeviation).toBeCloseTo(-15);
+    expect(j4.correlation).toBeCloseTo(1);
+    expect(j4.flags).toEqual(['harsh']);
+    expect(analytics.judges.find(j => j.judgeId === 'j1')!.flags).toEqual([]);
+  });
+
+  it('computes alpha per track', () => {
+    expect(analytics.tracks.map(t => [t.track.id, t.projectCount])).toEqual([['t1', 2], ['t2', 2], ['t3', 0]]);
+    expect(analytics.tracks[2].alpha).toBeNull();
+  });
+});
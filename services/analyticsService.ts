@@ -0,0 +1,148 @@
+import { ProjectResult, Track } from '../types';
+import { getStats } from './normalization';
+
+// How far judges disagree, measured on the weighted scores (0-100) the rankings are built from, so criteria weights,
+// scales and track criteria are already accounted for. Each judge is compared with the consensus of the other
+// judges on the same projects, never with themselves.
+
+// A project whose judges' scores spread this far (standard deviation, in points) needs a second look.
+export const SPREAD_THRESHOLD = 12;
+
+// A judge who scores this many points below or above the other judges on average is harsh or lenient.
+export const BIAS_THRESHOLD = 10;
+
+// A judge is erratic when their scores follow the consensus this poorly, or stray from it by this much.
+export const CORRELATION_THRESHOLD = 0.3;
+export const ERRATIC_DEVIATION_THRESHOLD = 15;
+
+// A correlation needs this many shared projects to mean anything.
+export const MIN_CORRELATION_PROJECTS = 3;
+
+export type JudgeFlag = 'harsh' | 'lenient' | 'erratic';
+
+export interface ProjectSpread {
+  result: ProjectResult;
+  judgeCount: number;
+  mean: number;
+  stdev: number;
+  min: number;
+  max: number;
+  needsReview: boolean;
+}
+
+export interface JudgeAgreement {
+  judgeId: string;
+  projectCount: number; // Projects the judge shares with at least one other judge
+  meanDeviation: number; // Average of the judge's score minus the other judges' mean; negative is harsh
+  deviationStdev: number;
+  correlation: number | null; // Pearson correlation with the other judges' mean; null with too few projects
+  flags: JudgeFlag[];
+}
+
+export interface TrackAgreement {
+  track: Track;
+  projectCount: number; // Projects with at least two judges, the only ones that show agreement
+  alpha: number | null; // Krippendorff's alpha (interval); null when there is nothing to compare
+}
+
+export interface AgreementAnalytics {
+  projects: ProjectSpread[];
+  judges: JudgeAgreement[];
+  tracks: TrackAgreement[];
+}
+
+const getJudgeScores = (result: ProjectResult) =>
+  Object.keys(result.judgeStats).map(judgeId => ({ judgeId, score: result.judgeStats[judgeId].weighted }));
+
+// Pearson correlation; null when either side has no spread.
+const correlate = (xs: number[], ys: number[]): number | null => {
+  const x = getStats(xs);
+  const y = getStats(ys);
+  if (x.stdev === 0 || y.stdev === 0) return null;
+  const covariance = xs.reduce((sum, value, i) => sum + (value - x.mean) * (ys[i] - y.mean), 0) / xs.length;
+  return covariance / (x.stdev * y.stdev);
+};
+
+// The sum of (a - b)^2 over every ordered pair of distinct values.
+const sumSquaredPairDifferences = (values: number[]) => {
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  const sumOfSquares = values.reduce((acc, v) => acc + v * v, 0);
+  return 2 * values.length * sumOfSquares - 2 * sum * sum;
+};
+
+/**
+ * Krippendorff's alpha for interval data. Each project is a unit and each judge's score one of its values; judges
+ * need not score every project, so sparse assignments are fine. 1 is perfect agreement, 0 is no better than chance.
+ */
+export const krippendorffAlpha = (units: number[][]): number | null => {
+  const pairable = units.filter(values => values.length >= 2);
+  const n = pairable.reduce((acc, values) => acc + values.length, 0);
+  if (n < 2) return null;
+  const observed = pairable.reduce((acc, values) => acc + sumSquaredPairDifferences(values) / (values.length - 1), 0) / n;
+  const expected = sumSquaredPairDifferences(pairable.flat()) / (n * (n - 1));
+  return expected === 0 ? null : 1 - observed / expected;
+};
+
+export const describeAlpha = (alpha: number | null) => {
+  if (alpha === null) return 'Not enough overlap';
+  if (alpha >= 0.8) return 'Good agreement';
+  if (alpha >= 0.667) return 'Tentative agreement';
+  return 'Low agreement';
+};
+
+const getProjectSpreads = (results: ProjectResult[]): ProjectSpread[] =>
+  results
+    .map(result => {
+      const scores = getJudgeScores(result).map(s => s.score);
+      const { mean, stdev } = getStats(scores);
+      return {
+        result,
+        judgeCount: scores.length,
+        mean,
+        stdev,
+        min: scores.length > 0 ? Math.min(...scores) : 0,
+        max: scores.length > 0 ? Math.max(...scores) : 0,
+        needsReview: scores.length >= 2 && stdev >= SPREAD_THRESHOLD,
+      };
+    })
+    .sort((a, b) => b.stdev - a.stdev);
+
+const getJudgeAgreements = (results: ProjectResult[]): JudgeAgreement[] => {
+  const comparisons = new Map<string, { own: number[]; others: number[] }>();
+  results.forEach(result => {
+    const scores = getJudgeScores(result);
+    if (scores.length < 2) return;
+    const total = scores.reduce((acc, s) => acc + s.score, 0);
+    scores.forEach(({ judgeId, score }) => {
+      if (!comparisons.has(judgeId)) comparisons.set(judgeId, { own: [], others: [] });
+      const comparison = comparisons.get(judgeId)!;
+      comparison.own.push(score);
+      comparison.others.push((total - score) / (scores.length - 1));
+    });
+  });
+
+  return Array.from(comparisons.entries()).map(([judgeId, { own, others }]) => {
+    const deviations = own.map((score, i) => score - others[i]);
+    const { mean: meanDeviation, stdev: deviationStdev } = getStats(deviations);
+    const correlation = own.length >= MIN_CORRELATION_PROJECTS ? correlate(own, others) : null;
+    const flags: JudgeFlag[] = [];
+    if (meanDeviation <= -BIAS_THRESHOLD) flags.push('harsh');
+    if (meanDeviation >= BIAS_THRESHOLD) flags.push('lenient');
+    if ((correlation !== null && correlation < CORRELATION_THRESHOLD) || deviationStdev >= ERRATIC_DEVIATION_THRESHOLD) flags.push('erratic');
+    return { judgeId, projectCount: own.length, meanDeviation, deviationStdev, correlation, flags };
+  }).sort((a, b) => b.flags.length - a.flags.length || Math.abs(b.meanDeviation) - Math.abs(a.meanDeviation));
+};
+
+const getTrackAgreements = (results: ProjectResult[], tracks: Track[]): TrackAgreement[] =>
+  tracks.map(track => {
+    const units = results
+      .filter(r => r.project.track === track.id)
+      .map(r => getJudgeScores(r).map(s => s.score));
+    return { track, projectCount: units.filter(u => u.length >= 2).length, alpha: krippendorffAlpha(units) };
+  });
+
+export const getAgreementAnalytics = (results: ProjectResult[], tracks: Track[]): AgreementAnalytics => ({
+  projects: getProjectSpreads(results),
+  judges: getJudgeAgreements(results),
+  tracks: getTrackAgreements(results, tracks),
+});
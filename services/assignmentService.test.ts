@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Conflict, Judge, Project, Score, ScoreStatus, UserRole } from '../types';
+import { autoAssign, getEligibleJudges, getJudgeLoads } from './assignmentService';
+
+const project = (id: string, track = 't1'): Project => ({ id, name: id, description: '', track, trl: 'b1' });
+const judge = (id: string, tracks = ['t1']): Judge => ({ id, name: id, tracks });
+const conflict = (judgeId: string, projectId: string): Conflict => ({ id: `${judgeId}-${projectId}`, judgeId, projectId, declaredBy: UserRole.JUDGE });
+const score = (judgeId: string, projectId: string): Score =>
+  ({ id: `${judgeId}-${projectId}`, judgeId, projectId, criteriaScores: {}, status: ScoreStatus.SUBMITTED });
+
+// The judges assigned to each project.
+const reviewersOf = (plan: ReturnType<typeof autoAssign>) => {
+  const reviewers: Record<string, string[]> = {};
+  plan.assignments.forEach(a => (reviewers[a.projectId] ??= []).push(a.judgeId));
+  Object.values(reviewers).forEach(judgeIds => judgeIds.sort());
+  return reviewers;
+};
+
+describe('getEligibleJudges', () => {
+  it('keeps judges of the track without a conflict', () => {
+    const judges = [judge('j1'), judge('j2', ['t2']), judge('j3')];
+    expect(getEligibleJudges(project('p1'), judges, [conflict('j3', 'p1')]).map(j => j.id)).toEqual(['j1']);
+  });
+});
+
+describe('autoAssign', () => {
+  it('gives every project its reviews and spreads the load evenly', () => {
+    const projects = ['p1', 'p2', 'p3', 'p4'].map(id => project(id));
+    const judges = ['j1', 'j2', 'j3', 'j4'].map(id => judge(id));
+    const plan = autoAssign(projects, judges, [], [], { reviewsPerProject: 2 });
+    expect(plan.shortfalls).toEqual([]);
+    expect(plan.assignments).toHaveLength(8);
+    expect([...getJudgeLoads(judges, plan.assignments).values()]).toEqual([2, 2, 2, 2]);
+  });
+
+  it('only assigns judges of the project track and never a conflicted judge', () => {
+    const plan = autoAssign(
+      [project('p1'), project('p2', 't2')],
+      [judge('j1'), judge('j2'), judge('j3', ['t2'])],
+      [conflict('j2', 'p1')],
+      [],
+      { reviewsPerProject: 1 }
+    );
+    expect(reviewersOf(plan)).toEqual({ p1: ['j1'], p2: ['j3'] });
+  });
+
+  it('serves the most constrained project first', () => {
+    // j1 is p1's only option; p2 could take either judge, so it must not take j1 when each judge reviews one project.
+    const plan = autoAssign(
+      [project('a'), project('p1')],
+      [judge('j1'), judge('j2')],
+      [conflict('j2', 'p1')],
+      [],
+      { reviewsPerProject: 1, maxLoadPerJudge: 1 }
+    );
+    expect(reviewersOf(plan)).toEqual({ a: ['j2'], p1: ['j1'] });
+  });
+
+  it('keeps scored pairs and counts them toward the target', () => {
+    const plan = autoAssign([project('p1')], [judge('j1'), judge('j2'), judge('j3')], [], [score('j3', 'p1')], { reviewsPerProject: 2 });
+    expect(reviewersOf(plan).p1).toContain('j3');
+    expect(plan.assignments).toHaveLength(2);
+  });
+
+  it('reports projects that cannot reach the target', () => {
+    const plan = autoAssign(
+      [project('p1'), project('p2')],
+      [judge('j1'), judge('j2')],
+      [],
+      [],
+      { reviewsPerProject: 2, maxLoadPerJudge: 1 }
+    );
+    expect(plan.assignments).toHaveLength(2);
+    expect(plan.shortfalls).toEqual([
+      { projectId: 'p1', assigned: 1, target: 2 },
+      { projectId: 'p2', assigned: 1, target: 2 },
+    ]);
+  });
+});
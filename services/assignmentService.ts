@@ -0,0 +1,96 @@
+import { Project, Judge, Score, Assignment, Conflict } from '../types';
+
+export type AssignmentPair = Pick<Assignment, 'judgeId' | 'projectId'>;
+
+export interface AssignmentSettings {
+  reviewsPerProject: number;
+  maxLoadPerJudge?: number | null;
+}
+
+export interface AssignmentShortfall {
+  projectId: string;
+  assigned: number;
+  target: number;
+}
+
+export interface AssignmentPlan {
+  assignments: AssignmentPair[];
+  shortfalls: AssignmentShortfall[];
+}
+
+export const pairKey = (judgeId: string, projectId: string) => `${judgeId}::${projectId}`;
+
+export const isConflicted = (conflicts: Conflict[], judgeId: string, projectId: string) =>
+  conflicts.some(c => c.judgeId === judgeId && c.projectId === projectId);
+
+// A judge can review a project in one of their tracks, unless they declared a conflict with it.
+export const getEligibleJudges = (project: Project, judges: Judge[], conflicts: Conflict[]): Judge[] =>
+  judges.filter(j => j.tracks.includes(project.track) && !isConflicted(conflicts, j.id, project.id));
+
+// Number of projects assigned to each judge.
+export const getJudgeLoads = (judges: Judge[], assignments: AssignmentPair[]): Map<string, number> => {
+  const loads = new Map<string, number>(judges.map(j => [j.id, 0]));
+  assignments.forEach(a => loads.set(a.judgeId, (loads.get(a.judgeId) ?? 0) + 1));
+  return loads;
+};
+
+export const getShortfalls = (projects: Project[], assignments: AssignmentPair[], target: number): AssignmentShortfall[] =>
+  projects
+    .map(p => ({ projectId: p.id, assigned: assignments.filter(a => a.projectId === p.id).length, target }))
+    .filter(s => s.assigned < target);
+
+/**
+ * Builds a fresh set of assignments that gives every project `reviewsPerProject` judges from its track
+ * while keeping judge loads as even as possible and never exceeding `maxLoadPerJudge`.
+ * Pairs that already have a score are always kept, so re-running never orphans submitted work.
+ * Projects that cannot reach the target (too few eligible judges, or every eligible judge is full) are reported as shortfalls.
+ */
+export const autoAssign = (
+  projects: Project[],
+  judges: Judge[],
+  conflicts: Conflict[],
+  scores: Score[],
+  settings: AssignmentSettings
+): AssignmentPlan => {
+  const target = settings.reviewsPerProject;
+  const maxLoad = settings.maxLoadPerJudge ?? Infinity;
+  const conflictKeys = new Set(conflicts.map(c => pairKey(c.judgeId, c.projectId)));
+  const loads = new Map<string, number>(judges.map(j => [j.id, 0]));
+  const reviewers = new Map<string, Set<string>>(projects.map(p => [p.id, new Set<string>()]));
+
+  scores.forEach(s => {
+    const assigned = reviewers.get(s.projectId);
+    if (!assigned || !loads.has(s.judgeId) || assigned.has(s.judgeId) || conflictKeys.has(pairKey(s.judgeId, s.projectId))) return;
+    assigned.add(s.judgeId);
+    loads.set(s.judgeId, loads.get(s.judgeId)! + 1);
+  });
+
+  const eligible = new Map<string, Judge[]>(projects.map(p => [
+    p.id,
+    judges.filter(j => j.tracks.includes(p.track) && !conflictKeys.has(pairKey(j.id, p.id))),
+  ]));
+
+  // Serve the most constrained projects first, so judges who are a project's only option are not used up elsewhere.
+  const order = [...projects].sort((a, b) =>
+    eligible.get(a.id)!.length - eligible.get(b.id)!.length || a.name.localeCompare(b.name)
+  );
+
+  // Hand out one reviewer per project per round, so scarce judges are spread across projects rather than
+  // letting early projects take all of them.
+  for (let round = 0; round < target; round++) {
+    for (const project of order) {
+      const assigned = reviewers.get(project.id)!;
+      if (assigned.size >= target) continue;
+      const candidate = eligible.get(project.id)!
+        .filter(j => !assigned.has(j.id) && loads.get(j.id)! < maxLoad)
+        .sort((a, b) => loads.get(a.id)! - loads.get(b.id)! || a.name.localeCompare(b.name))[0];
+      if (!candidate) continue;
+      assigned.add(candidate.id);
+      loads.set(candidate.id, loads.get(candidate.id)! + 1);
+    }
+  }
+
+  const assignments: AssignmentPair[] = [];
+  reviewers.forEach((judgeIds, projectId) => judgeIds.forEach(judgeId => assignments.push({ judgeId, projectId })));
+  return { assignments, shortfalls: getShortfalls(projects, assignments, target) };
+};
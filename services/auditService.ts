@@ -0,0 +1,69 @@
+import { AuditEntry, AuditEntity, AuditAction, Project, Judge } from '../types';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  events: 'Event',
+  projects: 'Project',
+  judges: 'Judge',
+  criteria: 'Criterion',
+  tracks: 'Track',
+  trlBands: 'TRL Band',
+  assignments: 'Assignment',
+  conflicts: 'Conflict of Interest',
+  scores: 'Score',
+  resultSnapshots: 'Published Results',
+  weightSets: 'Weight Set',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  replace: 'Replaced All',
+  invite: 'Invite Issued',
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+type AuditRow = Record<string, unknown>;
+
+const asRow = (value: unknown): AuditRow | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as AuditRow : null;
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Names the record an entry is about. Rows are described by the names they had at the time, so deleted
+ * projects and judges still read well; pairs fall back to the current project and judge names, then to ids.
+ */
+export const describeAuditRecord = (entry: AuditEntry, projects: Project[], judges: Judge[]): string => {
+  if (entry.action === 'replace') {
+    const count = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+    return `${count(entry.before)} → ${count(entry.after)} ${AUDIT_ENTITY_LABELS[entry.entity].toLowerCase()}s`;
+  }
+  const row = asRow(entry.after) || asRow(entry.before);
+  if (row && typeof row.name === 'string') return row.name;
+  if (entry.action === 'invite') return judges.find(j => j.id === entry.entityId)?.name || entry.entityId || '';
+  if (row && typeof row.judgeId === 'string' && typeof row.projectId === 'string') {
+    const judgeName = judges.find(j => j.id === row.judgeId)?.name || row.judgeId;
+    const projectName = projects.find(p => p.id === row.projectId)?.name || row.projectId;
+    return `${judgeName} → ${projectName}`;
+  }
+  return entry.entityId || '';
+};
+
+// The fields that differ between `before` and `after`. `version` is left out since every update changes it.
+export const getAuditFieldChanges = (entry: AuditEntry): AuditFieldChange[] => {
+  const before = asRow(entry.before) || {};
+  const after = asRow(entry.after) || {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(f => f !== 'version');
+  return fields
+    .map(field => ({ field, before: formatAuditValue(before[field]), after: formatAuditValue(after[field]) }))
+    .filter(change => change.before !== change.after);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { bootstrapInterval, formatRankRange, getRankRange, intervalsOverlap } from './confidenceService';
+
+describe('bootstrapInterval', () => {
+  it('is the same for the same values and seed', () => {
+    const values = [40, 55, 62, 70, 81];
+    expect(bootstrapInterval(values, 'p1', 0)).toEqual(bootstrapInterval(values, 'p1', 0));
+  });
+
+  it('lies around the mean and within the values', () => {
+    const { low, high } = bootstrapInterval([40, 55, 62, 70, 81], 'p1', 0);
+    expect(low).toBeGreaterThanOrEqual(40);
+    expect(low).toBeLessThan(61.6);
+    expect(high).toBeGreaterThan(61.6);
+    expect(high).toBeLessThanOrEqual(81);
+  });
+
+  it('has no width when every judge agrees', () => {
+    expect(bootstrapInterval([60, 60, 60], 'p1', 10)).toEqual({ low: 60, high: 60 });
+  });
+
+  it('gives a single value a normal interval from the fallback spread', () => {
+    const { low, high } = bootstrapInterval([60], 'p1', 10);
+    expect(low).toBeCloseTo(40.4, 1);
+    expect(high).toBeCloseTo(79.6, 1);
+  });
+
+  it('is empty without values', () => {
+    expect(bootstrapInterval([], 'p1', 10)).toEqual({ low: 0, high: 0 });
+  });
+});
+
+describe('intervalsOverlap', () => {
+  it('counts touching intervals as overlapping', () => {
+    expect(intervalsOverlap({ low: 1, high: 5 }, { low: 5, high: 9 })).toBe(true);
+    expect(intervalsOverlap({ low: 6, high: 9 }, { low: 1, high: 5 })).toBe(false);
+  });
+});
+
+describe('getRankRange', () => {
+  it('spans the ranks the overlapping intervals allow', () => {
+    const others = [{ low: 80, high: 90 }, { low: 50, high: 65 }, { low: 10, high: 20 }];
+    expect(getRankRange({ low: 60, high: 70 }, others)).toEqual({ low: 2, high: 3 });
+    expect(getRankRange({ low: 95, high: 99 }, others)).toEqual({ low: 1, high: 1 });
+  });
+});
+
+describe('formatRankRange', () => {
+  it('shows a single rank without a range', () => {
+    expect(formatRankRange({ low: 2, high: 2 })).toBe('2');
+    expect(formatRankRange({ low: 2, high: 4 })).toBe('2–4');
+  });
+});
@@ -0,0 +1,6 @@
+import { ScoreRange } from '../types';
+
+// The bootstrap intervals and rank ranges are part of the shared ranking calculation.
+export { BOOTSTRAP_SAMPLES, CONFIDENCE_LEVEL, bootstrapInterval, getRankRange, intervalsOverlap } from '../shared/ranking.js';
+
+export const formatRankRange = (range: ScoreRange) => (range.low === range.high ? String(range.low) : `${range.low}–${range.high}`);
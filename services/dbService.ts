@@ -1,115 +1,507 @@
 // services/dbService.ts
-import { Project, Judge, Criterion, Score } from '../types';
+import { Project, Judge, Criterion, Score, SessionUser, Track, TrlBand, HackathonEvent, Assignment, Conflict, AuditEntry, AuditEntity, AuditAction, UserRole, EventPhase, ResultSnapshot, RankingOptions, WeightSet } from '../types';
+import { toFieldErrors } from './validationService';
 
 const API_BASE_URL = 'http://localhost:3001/api';
+const SESSION_TOKEN_KEY = 'hah-session-token';
 
-interface DBState {
+export interface DBState {
   projects: Project[];
   judges: Judge[];
   criteria: Criterion[];
   scores: Score[];
+  tracks: Track[];
+  trlBands: TrlBand[];
+  assignments: Assignment[];
+  conflicts: Conflict[];
+  resultSnapshot: ResultSnapshot | null; // The published results; always null for judges
+  weightSets: WeightSet[]; // Always empty for judges
 }
 
-// --- Private Helper for API calls ---
+// `atomic` saves every row or none; `partial` saves the valid rows and reports the rest.
+export type BulkMode = 'atomic' | 'partial';
+
+export interface BulkRowError {
+  index: number; // Position of the row in the submitted array
+  message: string;
+  fields?: FieldErrorDetail[];
+}
+
+export interface BulkCreateResult<T> {
+  created: T[];
+  errors: BulkRowError[];
+}
+
+interface AuthResponse {
+  token: string;
+  user: SessionUser;
+}
+
+// Thrown for any non-2xx response so callers can tell an auth failure apart from a connection failure.
+// `body` holds the parsed JSON error response, for endpoints that report details beyond the message.
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// One entry of a 400 response's `errors`; `field` is a path into the request body such as `links[0].url`.
+export interface FieldErrorDetail {
+  field: string;
+  message: string;
+}
+
+// Field path -> message, ready to show next to the matching form input.
+export type FieldErrors = Record<string, string>;
+
+// Thrown when the backend rejects a request body; forms catch it to show each message next to its field.
+export class ValidationError extends ApiError {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, body: unknown, errors: FieldErrorDetail[]) {
+    super(message, 400, body);
+    this.name = 'ValidationError';
+    this.fieldErrors = toFieldErrors(errors);
+  }
+}
+
+// Thrown for a 409 that carries `current`, the row as the server has it now: someone else saved it after the
+// user loaded it. Edit forms catch it to let the user compare both versions before overwriting.
+export class VersionConflictError<T = unknown> extends ApiError {
+  constructor(message: string, body: unknown, public current: T) {
+    super(message, 409, body);
+    this.name = 'VersionConflictError';
+  }
+}
+
+// Thrown when a request never reached the server, e.g. because the device is offline.
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// --- Session Token ---
+let sessionToken: string | null = localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const hasSessionToken = () => sessionToken !== null;
+
+const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+};
+
+// --- Private Helpers for API calls ---
+// The backend reports errors as `{ message }`; fall back to a generic message for anything else.
+const parseErrorBody = (errorBody: string): { message?: unknown; errors?: unknown; current?: unknown } | null => {
+  try {
+    return JSON.parse(errorBody);
+  } catch {
+    return null;
+  }
+};
+
+// fetch only rejects when there is no response at all; anything thrown afterwards is not a connection problem.
+const sendRequest = async (endpoint: string, options: RequestInit) => {
+  try {
+    return await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
+        ...options.headers,
+      },
+    });
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : `Could not reach the server for ${endpoint}`);
+  }
+};
+
 const apiFetch = async (endpoint: string, options: RequestInit = {}) => {
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
+  const response = await sendRequest(endpoint, options);
   if (!response.ok) {
     const errorBody = await response.text();
     console.error(`API Error: ${response.status} ${response.statusText}`, errorBody);
-    throw new Error(`Failed to fetch from ${endpoint}. Status: ${response.status}`);
+    if (response.status === 401) setSessionToken(null);
+    const parsed = parseErrorBody(errorBody);
+    const message = typeof parsed?.message === 'string' ? parsed.message : `Failed to fetch from ${endpoint}. Status: ${response.status}`;
+    if (response.status === 400 && Array.isArray(parsed?.errors)) {
+      throw new ValidationError(message, parsed, parsed.errors as FieldErrorDetail[]);
+    }
+    if (response.status === 409 && parsed?.current) {
+      throw new VersionConflictError(message, parsed, parsed.current);
+    }
+    throw new ApiError(message, response.status, parsed ?? undefined);
   }
   return response.json();
 };
 
+export const isNetworkError = (error: unknown) => error instanceof NetworkError;
+
+// Updates send the version the user edited, so the server can refuse them if the row has changed since.
+const ifMatch = (version?: number): Record<string, string> => (version !== undefined ? { 'If-Match': `"${version}"` } : {});
+
+// --- Current Event ---
+// Projects, judges, criteria, tracks and scores live under the selected event's routes.
+let currentEventId: string | null = null;
+
+export const setCurrentEvent = (eventId: string | null) => {
+  currentEventId = eventId;
+};
+
+export const getCurrentEvent = () => currentEventId;
+
+const eventFetch = (endpoint: string, options: RequestInit = {}) => {
+  if (!currentEventId) {
+    return Promise.reject(new ApiError('No event selected', 400));
+  }
+  return apiFetch(`/events/${currentEventId}${endpoint}`, options);
+};
+
 // --- Public API ---
 
-export const getAllData = async (): Promise<DBState> => {
-  return apiFetch('/data');
+// Auth API
+export const loginAdmin = async (username: string, password: string): Promise<SessionUser> => {
+  const { token, user }: AuthResponse = await apiFetch('/auth/admin', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  setSessionToken(token);
+  return user;
 };
 
-// Project API
-export const createProjects = async (newProjectsData: Omit<Project, 'id'>[]): Promise<Project[]> => {
-  return apiFetch('/projects', {
+export const loginJudge = async (inviteCode: string): Promise<SessionUser> => {
+  const { token, user }: AuthResponse = await apiFetch('/auth/judge', {
     method: 'POST',
-    body: JSON.stringify(newProjectsData),
+    body: JSON.stringify({ inviteCode }),
   });
+  setSessionToken(token);
+  return user;
+};
+
+// Returns the user of the stored session, or null if there is none or it has expired.
+export const getSessionUser = async (): Promise<SessionUser | null> => {
+  if (!sessionToken) return null;
+  try {
+    const { user } = await apiFetch('/auth/me');
+    return user;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) return null;
+    throw error;
+  }
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    if (sessionToken) await apiFetch('/auth/logout', { method: 'POST' });
+  } finally {
+    setSessionToken(null);
+  }
+};
+
+// Event API
+export const getEvents = async (): Promise<HackathonEvent[]> => {
+  return apiFetch('/events');
+};
+
+// Creates an event; with `cloneFromEventId`, that event's tracks and criteria are copied into the new one.
+export const createEvent = async (name: string, cloneFromEventId?: string): Promise<HackathonEvent> => {
+  return apiFetch('/events', {
+    method: 'POST',
+    body: JSON.stringify({ name, cloneFromEventId }),
+  });
+};
+
+export const updateEvent = async (updatedEvent: HackathonEvent): Promise<HackathonEvent> => {
+  return apiFetch(`/events/${updatedEvent.id}`, {
+    method: 'PUT',
+    headers: ifMatch(updatedEvent.version),
+    body: JSON.stringify(updatedEvent),
+  });
+};
+
+// Moves the event to another phase. Publishing requires the rankings to save as the event's results.
+export const changeEventPhase = async (
+  event: HackathonEvent,
+  phase: EventPhase,
+  options?: RankingOptions
+): Promise<HackathonEvent> => {
+  return apiFetch(`/events/${event.id}/phase`, {
+    method: 'PUT',
+    headers: ifMatch(event.version),
+    body: JSON.stringify({ phase, options }),
+  });
+};
+
+export const getAllData = async (): Promise<DBState> => {
+  return eventFetch('/data');
+};
+
+// Project API
+export const createProjects = async (newProjectsData: Omit<Project, 'id'>[], mode: BulkMode = 'atomic'): Promise<BulkCreateResult<Project>> => {
+  try {
+    return await eventFetch(`/projects?mode=${mode}`, {
+      method: 'POST',
+      body: JSON.stringify(newProjectsData),
+    });
+  } catch (error) {
+    // A rejected atomic batch still reports which rows failed, so hand that back instead of throwing.
+    const body = error instanceof ApiError ? error.body as Partial<BulkCreateResult<Project>> | undefined : undefined;
+    if (error instanceof ApiError && error.status === 422 && Array.isArray(body?.errors)) {
+      return { created: [], errors: body.errors };
+    }
+    throw error;
+  }
 };
 
 export const updateProject = async (updatedProject: Project): Promise<Project> => {
-  return apiFetch(`/projects/${updatedProject.id}`, {
+  return eventFetch(`/projects/${updatedProject.id}`, {
     method: 'PUT',
+    headers: ifMatch(updatedProject.version),
     body: JSON.stringify(updatedProject),
   });
 };
 
 export const deleteProject = async (projectId: string): Promise<{ success: boolean }> => {
-  return apiFetch(`/projects/${projectId}`, {
+  return eventFetch(`/projects/${projectId}`, {
     method: 'DELETE',
   });
 };
 
 // Judge API
 export const createJudge = async (newJudgeData: Omit<Judge, 'id'>): Promise<Judge> => {
-  return apiFetch('/judges', {
+  return eventFetch('/judges', {
     method: 'POST',
     body: JSON.stringify(newJudgeData),
   });
 };
 
 export const updateJudge = async (updatedJudge: Judge): Promise<Judge> => {
-  return apiFetch(`/judges/${updatedJudge.id}`, {
+  return eventFetch(`/judges/${updatedJudge.id}`, {
     method: 'PUT',
+    headers: ifMatch(updatedJudge.version),
     body: JSON.stringify(updatedJudge),
   });
 };
 
+// Lets the judge keep scoring during deliberation, or takes that back.
+export const setJudgeScoringUnlocked = async (judgeId: string, unlocked: boolean): Promise<Judge> => {
+  return eventFetch(`/judges/${judgeId}/scoring-unlock`, {
+    method: 'PUT',
+    body: JSON.stringify({ unlocked }),
+  });
+};
+
 export const deleteJudge = async (judgeId: string): Promise<{ success: boolean }> => {
-  return apiFetch(`/judges/${judgeId}`, {
+  return eventFetch(`/judges/${judgeId}`, {
     method: 'DELETE',
   });
 };
 
+export const createJudgeInvite = async (judgeId: string): Promise<{ inviteCode: string }> => {
+  return eventFetch(`/judges/${judgeId}/invite`, {
+    method: 'POST',
+  });
+};
+
 // Criterion API
 export const createCriterion = async (newCriterionData: Omit<Criterion, 'id'>): Promise<Criterion> => {
-  return apiFetch('/criteria', {
+  return eventFetch('/criteria', {
     method: 'POST',
     body: JSON.stringify(newCriterionData),
   });
 };
 
 export const updateCriterion = async (updatedCriterion: Criterion): Promise<Criterion> => {
-  return apiFetch(`/criteria/${updatedCriterion.id}`, {
+  return eventFetch(`/criteria/${updatedCriterion.id}`, {
     method: 'PUT',
+    headers: ifMatch(updatedCriterion.version),
     body: JSON.stringify(updatedCriterion),
   });
 };
 
 export const deleteCriterion = async (criterionId: string): Promise<{ success: boolean }> => {
-  return apiFetch(`/criteria/${criterionId}`, {
+  return eventFetch(`/criteria/${criterionId}`, {
+    method: 'DELETE',
+  });
+};
+
+// Weight Set API
+// Saves the criteria's current weights as a new set and makes it the active one.
+export const createWeightSet = async (name: string): Promise<WeightSet> => {
+  return eventFetch('/weight-sets', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+};
+
+export const activateWeightSet = async (weightSetId: string): Promise<WeightSet> => {
+  return eventFetch(`/weight-sets/${weightSetId}/activate`, {
+    method: 'PUT',
+  });
+};
+
+// Track API
+export const createTrack = async (newTrackData: Omit<Track, 'id'>): Promise<Track> => {
+  return eventFetch('/tracks', {
+    method: 'POST',
+    body: JSON.stringify(newTrackData),
+  });
+};
+
+export const updateTrack = async (updatedTrack: Track): Promise<Track> => {
+  return eventFetch(`/tracks/${updatedTrack.id}`, {
+    method: 'PUT',
+    headers: ifMatch(updatedTrack.version),
+    body: JSON.stringify(updatedTrack),
+  });
+};
+
+export const deleteTrack = async (trackId: string): Promise<{ success: boolean }> => {
+  return eventFetch(`/tracks/${trackId}`, {
+    method: 'DELETE',
+  });
+};
+
+// TRL Band API
+export const createTrlBand = async (newBandData: Omit<TrlBand, 'id'>): Promise<TrlBand> => {
+  return apiFetch('/trl-bands', {
+    method: 'POST',
+    body: JSON.stringify(newBandData),
+  });
+};
+
+export const updateTrlBand = async (updatedBand: TrlBand): Promise<TrlBand> => {
+  return apiFetch(`/trl-bands/${updatedBand.id}`, {
+    method: 'PUT',
+    headers: ifMatch(updatedBand.version),
+    body: JSON.stringify(updatedBand),
+  });
+};
+
+export const deleteTrlBand = async (bandId: string): Promise<{ success: boolean }> => {
+  return apiFetch(`/trl-bands/${bandId}`, {
+    method: 'DELETE',
+  });
+};
+
+// Assignment API
+export const createAssignment = async (pair: Omit<Assignment, 'id'>): Promise<Assignment> => {
+  return eventFetch('/assignments', {
+    method: 'POST',
+    body: JSON.stringify(pair),
+  });
+};
+
+// Replaces every assignment of the current event, e.g. with an auto-assign plan.
+export const replaceAssignments = async (pairs: Omit<Assignment, 'id'>[]): Promise<Assignment[]> => {
+  return eventFetch('/assignments', {
+    method: 'PUT',
+    body: JSON.stringify(pairs),
+  });
+};
+
+export const deleteAssignment = async (assignmentId: string): Promise<{ success: boolean }> => {
+  return eventFetch(`/assignments/${assignmentId}`, {
+    method: 'DELETE',
+  });
+};
+
+// Conflict of Interest API
+export const declareConflict = async (conflict: Pick<Conflict, 'judgeId' | 'projectId' | 'reason'>): Promise<Conflict> => {
+  return eventFetch('/conflicts', {
+    method: 'POST',
+    body: JSON.stringify(conflict),
+  });
+};
+
+export const deleteConflict = async (conflictId: string): Promise<{ success: boolean }> => {
+  return eventFetch(`/conflicts/${conflictId}`, {
     method: 'DELETE',
   });
 };
 
 // Score API
-export const createOrUpdateScore = async (score: Score): Promise<Score> => {
-  // Generate a client-side ID if it's a new score
-  if (!score.id) {
-    score.id = `s_${score.projectId}_${score.judgeId}_${Date.now()}`;
-  }
-  return apiFetch('/scores', {
-    method: 'POST', // The backend uses POST for upserting scores
+// A judge has one score per project, so the pair addresses it: the first save creates it, later saves update it.
+// Saves replayed from the offline queue pass `baseVersion`, the version they were edited from (0 for a new score).
+export const saveScore = async (score: Omit<Score, 'id'>, baseVersion?: number): Promise<Score> => {
+  return eventFetch(`/projects/${score.projectId}/scores/${score.judgeId}`, {
+    method: 'PUT',
+    headers: ifMatch(baseVersion),
     body: JSON.stringify(score),
   });
 };
 
 export const deleteScore = async (scoreId: string): Promise<{ success: boolean }> => {
-  return apiFetch(`/scores/${scoreId}`, {
+  return eventFetch(`/scores/${scoreId}`, {
     method: 'DELETE',
   });
 };
+
+// Audit Log API
+// Every filter is optional. `from` and `to` are ISO dates; `to` is exclusive.
+export interface AuditFilters {
+  entity?: AuditEntity;
+  action?: AuditAction;
+  actorRole?: UserRole;
+  actorId?: string;
+  from?: string;
+  to?: string;
+}
+
+export const getAuditLog = async (filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  const params = new URLSearchParams();
+  (Object.keys(filters) as (keyof AuditFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (value) params.set(key, value);
+  });
+  const queryString = params.toString();
+  return eventFetch(`/audit${queryString ? `?${queryString}` : ''}`);
+};
+
+// --- Live Updates ---
+// A change pushed by the server for the current event. `upsert` and `delete` carry the affected row;
+// `replace` carries the complete list, as when auto-assign replaces every assignment at once.
+export type EntityChange =
+  | { entity: 'events'; action: 'upsert'; data: HackathonEvent }
+  | { entity: 'projects'; action: 'upsert' | 'delete'; data: Project }
+  | { entity: 'judges'; action: 'upsert' | 'delete'; data: Judge }
+  | { entity: 'criteria'; action: 'upsert' | 'delete'; data: Criterion }
+  | { entity: 'tracks'; action: 'upsert' | 'delete'; data: Track }
+  | { entity: 'trlBands'; action: 'upsert' | 'delete'; data: TrlBand }
+  | { entity: 'assignments'; action: 'upsert' | 'delete'; data: Assignment }
+  | { entity: 'assignments'; action: 'replace'; data: Assignment[] }
+  | { entity: 'conflicts'; action: 'upsert' | 'delete'; data: Conflict }
+  | { entity: 'scores'; action: 'upsert' | 'delete'; data: Score }
+  | { entity: 'resultSnapshots'; action: 'upsert'; data: ResultSnapshot }
+  | { entity: 'weightSets'; action: 'upsert'; data: WeightSet };
+
+/**
+ * Opens the event's live update stream and calls `onChange` for each change. The browser reconnects a dropped
+ * stream by itself; `onReconnect` then fires because changes made in the meantime are not replayed.
+ * Returns a function that closes the stream.
+ */
+export const subscribeToChanges = (
+  eventId: string,
+  onChange: (change: EntityChange) => void,
+  onReconnect: () => void
+): (() => void) => {
+  if (!sessionToken) return () => {};
+  // EventSource cannot send an Authorization header, so the token goes in the query string.
+  const source = new EventSource(`${API_BASE_URL}/events/${eventId}/stream?token=${encodeURIComponent(sessionToken)}`);
+  let hasConnected = false;
+  source.addEventListener('open', () => {
+    if (hasConnected) onReconnect();
+    hasConnected = true;
+  });
+  source.addEventListener('change', (event) => {
+    onChange(JSON.parse((event as MessageEvent).data));
+  });
+  return () => source.close();
+};
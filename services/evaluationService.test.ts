@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import { Conflict, Criterion, NormalizationMethod, Project, RankingOptions, Score, ScoreStatus, TieBreakerKind, TrlPolicy, UserRole } from '../types';
+import { DEFAULT_RANKING_OPTIONS, calculateFinalRankings, getAwards, getJuryTrlAssessment } from './evaluationService';
+
+// Raw normalization keeps the arithmetic readable: a score of 7 on the only criterion is a final score of 70.
+const RAW: RankingOptions = { ...DEFAULT_RANKING_OPTIONS, normalization: NormalizationMethod.RAW };
+
+const quality: Criterion = { id: 'quality', name: 'Quality', weight: { b1: 100, b2: 50 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] };
+const demo: Criterion = { id: 'demo', name: 'Demo', weight: { b1: 0, b2: 50 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] };
+const gate: Criterion = { id: 'eligible', name: 'Eligible', weight: { b1: 0 }, scaleMin: 0, scaleMax: 1, scaleStep: 1, isGate: true, trackIds: [] };
+
+const project = (id: string, track = 't1'): Project => ({ id, name: id, description: '', track, trl: 'b1' });
+
+let nextScoreId = 1;
+const score = (projectId: string, judgeId: string, criteriaScores: Score['criteriaScores'], changes: Partial<Score> = {}): Score => ({
+  id: `s${nextScoreId++}`,
+  projectId,
+  judgeId,
+  criteriaScores,
+  status: ScoreStatus.SUBMITTED,
+  ...changes,
+});
+
+// One submitted score per value, from judges j1, j2, ...
+const scoresFor = (projectId: string, values: number[]) => values.map((value, i) => score(projectId, `j${i + 1}`, { quality: value }));
+
+const byId = (results: ReturnType<typeof calculateFinalRankings>) => new Map(results.map(r => [r.project.id, r]));
+
+describe('calculateFinalRankings', () => {
+  it('returns nothing without submitted scores', () => {
+    expect(calculateFinalRankings([project('p1')], [], [quality], RAW)).toEqual([]);
+    expect(calculateFinalRankings([project('p1')], [score('p1', 'j1', { quality: 9 }, { status: ScoreStatus.DRAFT })], [quality], RAW)).toEqual([]);
+  });
+
+  it('leaves out drafts', () => {
+    const scores = [...scoresFor('p1', [6]), score('p1', 'j2', { quality: 10 }, { status: ScoreStatus.DRAFT })];
+    const [result] = calculateFinalRankings([project('p1')], scores, [quality], RAW);
+    expect(result.finalScore).toBe(60);
+    expect(result.scores).toHaveLength(1);
+  });
+
+  it('ranks by the mean weighted score', () => {
+    const results = calculateFinalRankings(
+      [project('p1'), project('p2'), project('p3')],
+      [...scoresFor('p1', [5, 5]), ...scoresFor('p2', [9, 9]), ...scoresFor('p3', [1, 1])],
+      [quality],
+      RAW
+    );
+    expect(results.map(r => [r.project.id, r.rank, r.finalScore])).toEqual([['p2', 1, 90], ['p1', 2, 50], ['p3', 3, 10]]);
+  });
+
+  it('leaves out scores of recused judges', () => {
+    const conflicts: Conflict[] = [{ id: 'c1', judgeId: 'j2', projectId: 'p1', declaredBy: UserRole.JUDGE }];
+    const [result] = calculateFinalRankings([project('p1')], scoresFor('p1', [8, 2]), [quality], RAW, conflicts);
+    expect(result.finalScore).toBe(80);
+    expect(result.recusedJudgeIds).toEqual(['j2']);
+    expect(result.recusedScoreCount).toBe(1);
+  });
+
+  it('ranks a project that most judges failed at a gate below every other', () => {
+    const results = calculateFinalRankings(
+      [project('p1'), project('p2')],
+      [
+        score('p1', 'j1', { quality: 10, eligible: 0 }),
+        score('p1', 'j2', { quality: 10, eligible: 0 }),
+        score('p1', 'j3', { quality: 10, eligible: 1 }),
+        ...scoresFor('p2', [2, 2, 2]),
+      ],
+      [quality, gate],
+      RAW
+    );
+    expect(results.map(r => r.project.id)).toEqual(['p2', 'p1']);
+    expect(results[1].disqualifiedBy).toEqual(['eligible']);
+    expect(results[1].rankRange).toBeUndefined();
+  });
+
+  it('only counts the criteria of the project\'s track and rescales their weights', () => {
+    const trackOnly: Criterion = { ...demo, weight: { b1: 100 }, trackIds: ['t2'] };
+    const results = byId(calculateFinalRankings(
+      [project('p1', 't1'), project('p2', 't2')],
+      [score('p1', 'j1', { quality: 6, demo: 0 }), score('p2', 'j1', { quality: 6, demo: 10 })],
+      [quality, trackOnly],
+      RAW
+    ));
+    expect(results.get('p1')!.finalScore).toBe(60);
+    expect(results.get('p2')!.finalScore).toBe(80);
+  });
+});
+
+describe('z-score normalization', () => {
+  it('ranks a project whose only judge reviewed nothing else by how that score compares with the rest', () => {
+    // j9 reviewed only p3 and scored it above every other score given.
+    const results = calculateFinalRankings(
+      [project('p1'), project('p2'), project('p3')],
+      [...scoresFor('p1', [4, 6]), ...scoresFor('p2', [6, 4]), score('p3', 'j9', { quality: 9 })],
+      [quality]
+    );
+    expect(results[0].project.id).toBe('p3');
+    expect(results[0].finalScore).toBeGreaterThan(0);
+  });
+});
+
+describe('TRL policies', () => {
+  // The admin put the project in b1, where only quality counts; two of three judges think it belongs in b2,
+  // where quality and demo count half each.
+  const scores = [
+    score('p1', 'j1', { quality: 10, demo: 0 }, { juryTrl: 'b2' }),
+    score('p1', 'j2', { quality: 10, demo: 0 }, { juryTrl: 'b2' }),
+    score('p1', 'j3', { quality: 10, demo: 0 }, { juryTrl: 'b1' }),
+  ];
+  const rank = (trlPolicy: TrlPolicy) => calculateFinalRankings([project('p1')], scores, [quality, demo], { ...RAW, trlPolicy })[0];
+
+  it('uses the admin TRL by default', () => {
+    expect(rank(TrlPolicy.ADMIN)).toMatchObject({ finalScore: 100, resolvedTrl: 'b1', juryMajorityTrl: 'b2', trlDisagreement: true });
+  });
+
+  it('uses the jury majority', () => {
+    expect(rank(TrlPolicy.JURY_MAJORITY)).toMatchObject({ finalScore: 50, resolvedTrl: 'b2' });
+  });
+
+  it("weights each judge's score by their own assessment", () => {
+    const result = rank(TrlPolicy.PER_JUDGE);
+    expect(result.resolvedTrl).toBeUndefined();
+    expect(Object.values(result.judgeStats).map(s => [s.trl, s.weighted])).toEqual([['b2', 50], ['b2', 50], ['b1', 100]]);
+  });
+});
+
+describe('rank ranges', () => {
+  it('gives a single rank to a project clearly apart from the rest', () => {
+    const results = byId(calculateFinalRankings(
+      [project('p1'), project('p2'), project('p3')],
+      [...scoresFor('p1', [9, 9, 9]), ...scoresFor('p2', [5, 5, 5]), ...scoresFor('p3', [1, 1, 1])],
+      [quality],
+      RAW
+    ));
+    expect(results.get('p1')!.rankRange).toEqual({ low: 1, high: 1 });
+    expect(results.get('p2')!.rankRange).toEqual({ low: 2, high: 2 });
+    expect(results.get('p1')!.tiedWith).toEqual([]);
+  });
+
+  it('spans the ranks of projects whose intervals overlap', () => {
+    const results = byId(calculateFinalRankings(
+      [project('p1'), project('p2'), project('p3')],
+      [...scoresFor('p1', [9, 5]), ...scoresFor('p2', [6, 6, 6]), ...scoresFor('p3', [1, 1, 1])],
+      [quality],
+      RAW
+    ));
+    expect(results.get('p1')!.rankRange).toEqual({ low: 1, high: 2 });
+    expect(results.get('p2')!.rankRange).toEqual({ low: 1, high: 2 });
+    expect(results.get('p3')!.rankRange).toEqual({ low: 3, high: 3 });
+    expect(results.get('p1')!.tiedWith).toEqual(['p2']);
+    expect(results.get('p3')!.tiedWith).toEqual([]);
+  });
+
+  it('is the same on every run', () => {
+    const run = () => calculateFinalRankings(
+      [project('p1'), project('p2')],
+      [...scoresFor('p1', [9, 4, 7, 6]), ...scoresFor('p2', [8, 5, 6, 7])],
+      [quality],
+      RAW
+    ).map(r => r.confidenceInterval);
+    expect(run()).toEqual(run());
+  });
+
+  it('gives a project with one review an interval from the other projects\' spread', () => {
+    const results = byId(calculateFinalRankings(
+      [project('p1'), project('p2')],
+      [...scoresFor('p1', [8, 4]), ...scoresFor('p2', [6])],
+      [quality],
+      RAW
+    ));
+    const interval = results.get('p2')!.confidenceInterval!;
+    expect(interval.low).toBeLessThan(60);
+    expect(interval.high).toBeGreaterThan(60);
+  });
+
+  it('counts track ties only within the track', () => {
+    const results = byId(calculateFinalRankings(
+      [project('p1', 't1'), project('p2', 't2'), project('p3', 't1')],
+      [...scoresFor('p1', [9, 5]), ...scoresFor('p2', [6, 6, 6]), ...scoresFor('p3', [1, 1, 1])],
+      [quality],
+      RAW
+    ));
+    expect(results.get('p1')!.tiedWith).toEqual(['p2']);
+    expect(results.get('p1')!.trackTiedWith).toEqual([]);
+    expect(results.get('p1')!.trackRankRange).toEqual({ low: 1, high: 1 });
+  });
+});
+
+describe('tie-breakers', () => {
+  const projects = [project('p1'), project('p2'), project('p3')];
+  const scores = [...scoresFor('p1', [9, 5]), ...scoresFor('p2', [6, 6, 6]), ...scoresFor('p3', [3, 3, 3, 3])];
+
+  it('keep the score order when none are chosen', () => {
+    expect(calculateFinalRankings(projects, scores, [quality], RAW).map(r => r.project.id)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('reorder projects that are statistically tied', () => {
+    const options = { ...RAW, tieBreakers: [{ kind: TieBreakerKind.REVIEWS }] };
+    const results = calculateFinalRankings(projects, scores, [quality], options);
+    // p2 has more reviews than p1 and overlaps it; p3 has the most reviews but lies wholly below both.
+    expect(results.map(r => [r.project.id, r.rank])).toEqual([['p2', 1], ['p1', 2], ['p3', 3]]);
+  });
+
+  it('compare a criterion on the common scale, falling through when it does not decide', () => {
+    const tiedScores = [
+      score('p1', 'j1', { quality: 9, demo: 2 }),
+      score('p1', 'j2', { quality: 5, demo: 2 }),
+      score('p2', 'j1', { quality: 6, demo: 8 }),
+      score('p2', 'j2', { quality: 6, demo: 8 }),
+    ];
+    const byDemo = { ...RAW, tieBreakers: [{ kind: TieBreakerKind.REVIEWS }, { kind: TieBreakerKind.CRITERION, criterionId: 'demo' }] };
+    expect(calculateFinalRankings(projects.slice(0, 2), tiedScores, [quality, demo], byDemo).map(r => r.project.id)).toEqual(['p2', 'p1']);
+  });
+});
+
+describe('getJuryTrlAssessment', () => {
+  it('reports the majority and no majority on a tie', () => {
+    const withTrl = (juryTrl: string) => score('p1', 'j1', {}, { juryTrl });
+    expect(getJuryTrlAssessment([withTrl('b1'), withTrl('b2'), withTrl('b2')])).toEqual({ votes: { b1: 1, b2: 2 }, majority: 'b2' });
+    expect(getJuryTrlAssessment([withTrl('b1'), withTrl('b2')]).majority).toBeUndefined();
+  });
+});
+
+describe('getAwards', () => {
+  it('picks track winners and the best of them overall', () => {
+    const results = calculateFinalRankings(
+      [project('p1', 't1'), project('p2', 't1'), project('p3', 't2')],
+      [...scoresFor('p1', [7]), ...scoresFor('p2', [4]), ...scoresFor('p3', [9])],
+      [quality],
+      RAW
+    );
+    const awards = getAwards(results, [{ id: 't1', name: 'One' }, { id: 't2', name: 'Two' }]);
+    expect(awards.tracks.map(t => [t.winner?.project.id, t.runnerUp?.project.id])).toEqual([['p1', 'p2'], ['p3', undefined]]);
+    expect(awards.overallWinner?.project.id).toBe('p3');
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Conflict, Criterion, Judge, NormalizationMethod, Project, Score, ScoreStatus, Track, TrlBand, UserRole } from '../types';
+import { DEFAULT_RANKING_OPTIONS, calculateFinalRankings } from './evaluationService';
+import { ResultsExportInput, exportResults } from './exportService';
+
+interface WrittenFile {
+  fileName: string;
+  options?: { bookType: string };
+  sheets: { name: string; rows: Record<string, unknown>[] }[];
+}
+
+// Stands in for the SheetJS global: sheets are the rows they were built from, and written files are kept.
+let written: WrittenFile[];
+beforeEach(() => {
+  written = [];
+  vi.stubGlobal('XLSX', {
+    utils: {
+      book_new: () => ({ sheets: [] }),
+      json_to_sheet: (rows: Record<string, unknown>[]) => rows,
+      book_append_sheet: (workbook: WrittenFile, rows: Record<string, unknown>[], name: string) => workbook.sheets.push({ name, rows }),
+    },
+    writeFile: (workbook: WrittenFile, fileName: string, options?: { bookType: string }) =>
+      written.push({ fileName, options, sheets: workbook.sheets }),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const tracks: Track[] = [{ id: 't1', name: 'Health: Care & Cure' }, { id: 't2', name: 'Health? Care & Cure' }];
+const trlBands: TrlBand[] = [{ id: 'b1', name: 'Prototype', position: 1 }];
+const criteria: Criterion[] = [{ id: 'c1', name: 'Impact', weight: { b1: 100 }, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [] }];
+const projects: Project[] = [
+  { id: 'p1', name: 'Pulse', description: '', track: 't1', trl: 'b1' },
+  { id: 'p2', name: 'Grid', description: '', track: 't2', trl: 'b1' },
+];
+const judges: Judge[] = [{ id: 'j1', name: 'Ada', tracks: ['t1', 't2'] }, { id: 'j2', name: 'Bo', tracks: ['t1', 't2'] }];
+const scores: Score[] = [
+  { id: 's1', projectId: 'p1', judgeId: 'j1', criteriaScores: { c1: 8 }, status: ScoreStatus.SUBMITTED },
+  { id: 's2', projectId: 'p2', judgeId: 'j1', criteriaScores: { c1: 4 }, status: ScoreStatus.SUBMITTED },
+  { id: 's3', projectId: 'p1', judgeId: 'j2', criteriaScores: { c1: 2 }, status: ScoreStatus.SUBMITTED },
+  { id: 's4', projectId: 'p2', judgeId: 'j2', criteriaScores: { c1: 6 }, status: ScoreStatus.DRAFT },
+];
+const conflicts: Conflict[] = [{ id: 'coi1', judgeId: 'j2', projectId: 'p1', declaredBy: UserRole.JUDGE }];
+const options = { ...DEFAULT_RANKING_OPTIONS, normalization: NormalizationMethod.RAW };
+
+const input: ResultsExportInput = {
+  eventName: 'Spring Hack 2026!',
+  results: calculateFinalRankings(projects, scores, criteria, options, conflicts),
+  projects,
+  judges,
+  criteria,
+  scores,
+  tracks,
+  trlBands,
+  conflicts,
+  weightSets: [],
+  options,
+};
+
+const sheet = (file: WrittenFile, name: string) => file.sheets.find(s => s.name === name)!.rows;
+
+describe('exportResults', () => {
+  it('writes the rankings, a sheet per track and the data behind them', () => {
+    exportResults(input);
+    const [file] = written;
+    expect(file.fileName).toMatch(/^spring-hack-2026-results-\d{4}-\d{2}-\d{2}\.xlsx$/);
+    // Sheet names lose the characters Excel forbids and stay unique.
+    expect(file.sheets.map(s => s.name)).toEqual([
+      'Overall', 'Health  Care & Cure', 'Health  Care & Cure (2)', 'Raw Scores', 'Normalized Scores', 'Criteria Weights', 'Settings',
+    ]);
+    expect(sheet(file, 'Overall').map(row => [row['Rank'], row['Project'], row['Final Score'], row['Recused Judges']])).toEqual([
+      [1, 'Pulse', 80, 1],
+      [2, 'Grid', 40, 0],
+    ]);
+    expect(sheet(file, 'Criteria Weights')).toEqual([{ 'Criterion': 'Impact', 'Tracks': 'All', 'Scale': '0–10', 'Prototype (%)': 100 }]);
+  });
+
+  it('keeps recused scores in the raw scores, flagged, and leaves drafts out', () => {
+    exportResults(input);
+    const rows = sheet(written[0], 'Raw Scores');
+    expect(rows.map(row => [row['Judge'], row['Project'], row['Score'], row['Recused']])).toEqual([
+      ['Ada', 'Pulse', 8, false],
+      ['Ada', 'Grid', 4, false],
+      ['Bo', 'Pulse', 2, true],
+    ]);
+  });
+
+  it('writes only the overall rankings to CSV', () => {
+    exportResults(input, 'csv');
+    const [file] = written;
+    expect(file.fileName).toMatch(/\.csv$/);
+    expect(file.options).toEqual({ bookType: 'csv' });
+    expect(file.sheets.map(s => s.name)).toEqual(['Rankings']);
+  });
+});
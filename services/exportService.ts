@@ -0,0 +1,212 @@
+import { ProjectResult, Project, Judge, Criterion, Score, Track, TrlBand, Conflict, RankingOptions, AuditEntry, ScoreStatus, WeightSet, TieBreakerKind } from '../types';
+import { NORMALIZATION_STRATEGIES } from './normalization';
+import { pairKey } from './assignmentService';
+import { formatWeightSetName } from './weightService';
+import { formatScale } from './scaleService';
+import { getApplicableCriteria } from './evaluationService';
+import { BOOTSTRAP_SAMPLES, CONFIDENCE_LEVEL, formatRankRange } from './confidenceService';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditRecord, formatAuditValue } from './auditService';
+
+// SheetJS is loaded from the CDN in index.html
+declare var XLSX: any;
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+export interface ResultsExportInput {
+  eventName: string;
+  results: ProjectResult[];
+  projects: Project[];
+  judges: Judge[];
+  criteria: Criterion[];
+  scores: Score[];
+  tracks: Track[];
+  trlBands: TrlBand[];
+  conflicts: Conflict[];
+  weightSets: WeightSet[];
+  options: RankingOptions;
+}
+
+type SheetRow = Record<string, string | number | boolean>;
+
+// Excel limits sheet names to 31 characters and forbids a few symbols; names must also be unique.
+const toSheetName = (name: string, usedNames: Set<string>) => {
+  const base = name.replace(/[\[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let i = 2; usedNames.has(sheetName.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    sheetName = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+const toFileName = (eventName: string, contents: string, extension: string) => {
+  const slug = eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+  return `${slug}-${contents}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const buildRankingRows = (results: ProjectResult[], input: ResultsExportInput, useTrackRank: boolean): SheetRow[] => {
+  const trackNames = new Map(input.tracks.map(t => [t.id, t.name]));
+  const bandNames = new Map(input.trlBands.map(b => [b.id, b.name]));
+  const criterionNames = new Map(input.criteria.map(c => [c.id, c.name]));
+  const projectNames = new Map(results.map(r => [r.project.id, r.project.name]));
+  return results.map(r => {
+    const rankRange = useTrackRank ? r.trackRankRange : r.rankRange;
+    return {
+      'Rank': useTrackRank ? r.trackRank : r.rank,
+      'Rank Range': rankRange ? formatRankRange(rankRange) : '',
+      'Project': r.project.name,
+      'Track': trackNames.get(r.project.track) || r.project.track,
+      'Admin TRL': bandNames.get(r.project.trl) || r.project.trl,
+      'Jury Majority TRL': r.juryMajorityTrl ? bandNames.get(r.juryMajorityTrl) || r.juryMajorityTrl : '',
+      'TRL Used': r.resolvedTrl ? bandNames.get(r.resolvedTrl) || r.resolvedTrl : 'Per judge',
+      'Reviews': r.scores.length,
+      'Recused Judges': r.recusedJudgeIds.length,
+      'Disqualified By': (r.disqualifiedBy || []).map(id => criterionNames.get(id) || id).join(', '),
+      'Avg. Weighted Score': Number(r.avgWeightedScore.toFixed(4)),
+      'Final Score': Number(r.finalScore.toFixed(6)),
+      'CI Low': r.confidenceInterval ? Number(r.confidenceInterval.low.toFixed(6)) : '',
+      'CI High': r.confidenceInterval ? Number(r.confidenceInterval.high.toFixed(6)) : '',
+      'Statistically Tied With': ((useTrackRank ? r.trackTiedWith : r.tiedWith) || []).map(id => projectNames.get(id) || id).join(', '),
+    };
+  });
+};
+
+// One row per judge, project and criterion of the project's track. Recused scores are included and flagged, since audits need to see them;
+// drafts are left out, as in the rankings.
+const buildRawScoreRows = (input: ResultsExportInput): SheetRow[] => {
+  const projectsMap = new Map(input.projects.map(p => [p.id, p]));
+  const judgeNames = new Map(input.judges.map(j => [j.id, j.name]));
+  const trackNames = new Map(input.tracks.map(t => [t.id, t.name]));
+  const bandNames = new Map(input.trlBands.map(b => [b.id, b.name]));
+  const conflictKeys = new Set(input.conflicts.map(c => pairKey(c.judgeId, c.projectId)));
+  const weightSetsMap = new Map(input.weightSets.map(w => [w.id, w]));
+  const rows: SheetRow[] = [];
+  input.scores.filter(score => score.status === ScoreStatus.SUBMITTED).forEach(score => {
+    const project = projectsMap.get(score.projectId);
+    if (!project) return;
+    getApplicableCriteria(input.criteria, project.track).forEach(criterion => {
+      rows.push({
+        'Judge': judgeNames.get(score.judgeId) || score.judgeId,
+        'Project': project.name,
+        'Track': trackNames.get(project.track) || project.track,
+        'Criterion': criterion.name,
+        'Scale': formatScale(criterion),
+        'Score': score.criteriaScores[criterion.id] ?? '',
+        'Jury TRL': score.juryTrl ? bandNames.get(score.juryTrl) || score.juryTrl : '',
+        'Weight Set': score.weightSetId && weightSetsMap.has(score.weightSetId) ? formatWeightSetName(weightSetsMap.get(score.weightSetId)!) : '',
+        'Recused': conflictKeys.has(pairKey(score.judgeId, score.projectId)),
+      });
+    });
+  });
+  return rows;
+};
+
+const buildNormalizedRows = (input: ResultsExportInput): SheetRow[] => {
+  const judgeNames = new Map(input.judges.map(j => [j.id, j.name]));
+  const bandNames = new Map(input.trlBands.map(b => [b.id, b.name]));
+  const rows: SheetRow[] = [];
+  input.results.forEach(r => {
+    Object.keys(r.judgeStats).forEach(judgeId => {
+      const stats = r.judgeStats[judgeId];
+      rows.push({
+        'Project': r.project.name,
+        'Judge': judgeNames.get(judgeId) || judgeId,
+        'TRL Used': bandNames.get(stats.trl) || stats.trl,
+        'Raw Average': Number(stats.raw.toFixed(4)),
+        'Weighted Score': Number(stats.weighted.toFixed(4)),
+        'Normalized Score': Number(stats.normalized.toFixed(6)),
+      });
+    });
+  });
+  return rows;
+};
+
+const buildWeightRows = (input: ResultsExportInput): SheetRow[] =>
+  input.criteria.map(c => {
+    const row: SheetRow = {
+      'Criterion': c.name,
+      'Tracks': c.trackIds.length > 0 ? c.trackIds.map(id => input.tracks.find(t => t.id === id)?.name || id).join(', ') : 'All',
+      'Scale': formatScale(c),
+    };
+    input.trlBands.forEach(band => {
+      row[`${band.name} (%)`] = c.weight[band.id] ?? 0;
+    });
+    return row;
+  });
+
+const buildSettingsRows = (input: ResultsExportInput): SheetRow[] => [
+  { 'Setting': 'Event', 'Value': input.eventName },
+  { 'Setting': 'Exported At', 'Value': new Date().toISOString() },
+  { 'Setting': 'Normalization', 'Value': NORMALIZATION_STRATEGIES[input.options.normalization].label },
+  { 'Setting': 'Normalization Scope', 'Value': input.options.normalizationScope },
+  { 'Setting': 'TRL Policy', 'Value': input.options.trlPolicy },
+  { 'Setting': 'Weighting', 'Value': input.options.weighting ?? '' },
+  { 'Setting': 'Confidence Level', 'Value': `${CONFIDENCE_LEVEL * 100}% (${BOOTSTRAP_SAMPLES} bootstrap samples)` },
+  {
+    'Setting': 'Tie-Breakers',
+    'Value': (input.options.tieBreakers || [])
+      .map(t => t.kind === TieBreakerKind.CRITERION ? input.criteria.find(c => c.id === t.criterionId)?.name || t.criterionId || '' : 'Number of reviews')
+      .join(', ') || 'None',
+  },
+];
+
+/**
+ * Downloads the results of an event. The workbook holds a rankings sheet per track, the raw scores,
+ * each judge's normalized scores, the criteria weights and the ranking settings that produced them.
+ * CSV can only hold one sheet, so it contains the overall rankings.
+ */
+export const exportResults = (input: ResultsExportInput, format: ExportFormat = 'xlsx') => {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const addSheet = (name: string, rows: SheetRow[]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), toSheetName(name, usedNames));
+  };
+
+  if (format === 'csv') {
+    addSheet('Rankings', buildRankingRows(input.results, input, false));
+    XLSX.writeFile(workbook, toFileName(input.eventName, 'results', 'csv'), { bookType: 'csv' });
+    return;
+  }
+
+  addSheet('Overall', buildRankingRows(input.results, input, false));
+  input.tracks.forEach(track => {
+    const trackResults = input.results
+      .filter(r => r.project.track === track.id)
+      .sort((a, b) => a.trackRank - b.trackRank);
+    addSheet(track.name, buildRankingRows(trackResults, input, true));
+  });
+  addSheet('Raw Scores', buildRawScoreRows(input));
+  addSheet('Normalized Scores', buildNormalizedRows(input));
+  addSheet('Criteria Weights', buildWeightRows(input));
+  addSheet('Settings', buildSettingsRows(input));
+  XLSX.writeFile(workbook, toFileName(input.eventName, 'results', 'xlsx'));
+};
+
+export interface AuditExportInput {
+  eventName: string;
+  entries: AuditEntry[];
+  projects: Project[];
+  judges: Judge[];
+}
+
+/**
+ * Downloads audit log entries, one row each, with the full before and after rows as JSON
+ * so the file holds everything needed to settle a dispute.
+ */
+export const exportAuditLog = (input: AuditExportInput, format: ExportFormat = 'xlsx') => {
+  const rows: SheetRow[] = input.entries.map(entry => ({
+    'Time': entry.createdAt,
+    'Actor': entry.actorName || entry.actorId,
+    'Role': entry.actorRole,
+    'Action': AUDIT_ACTION_LABELS[entry.action],
+    'Entity': AUDIT_ENTITY_LABELS[entry.entity],
+    'Record': describeAuditRecord(entry, input.projects, input.judges),
+    'Record ID': entry.entityId || '',
+    'Before': formatAuditValue(entry.before),
+    'After': formatAuditValue(entry.after),
+  }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Activity');
+  XLSX.writeFile(workbook, toFileName(input.eventName, 'activity', format), format === 'csv' ? { bookType: 'csv' } : undefined);
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '../types';
+import { ImportRowAction, ImportSettings, buildImportPreview, guessMapping, matchTrack, matchTrlBand, parseLinks } from './importService';
+
+const tracks = [{ id: 't1', name: 'DeFi' }, { id: 't2', name: 'Gaming' }];
+const trlBands = [
+  { id: 'b1', name: 'Ideation (TRL 1-3)', position: 1 },
+  { id: 'b2', name: 'Prototype (TRL 4-6)', position: 2 },
+];
+
+const settings: ImportSettings = {
+  mapping: { name: 'Project', track: 'Track', trl: 'TRL', links: 'Links', externalKey: 'Team ID' },
+  defaultTrackId: '',
+  duplicateKey: 'name',
+  duplicateStrategy: 'skip',
+};
+
+const existing: Project = { id: 'p1', name: 'Ledger Lens', description: '', track: 't1', trl: 'b1', externalKey: 'T-7' };
+
+describe('guessMapping', () => {
+  it('recognises headers by name or alias, ignoring case and separators', () => {
+    expect(guessMapping(['Project Name', 'CATEGORY', 'trl_band', 'Team ID', 'Notes'])).toEqual({
+      name: 'Project Name',
+      track: 'CATEGORY',
+      trl: 'trl_band',
+      externalKey: 'Team ID',
+    });
+  });
+
+  it('uses each header once', () => {
+    expect(guessMapping(['Project ID'])).toEqual({ externalKey: 'Project ID' });
+    expect(guessMapping(['Name', 'ID'])).toEqual({ name: 'Name', externalKey: 'ID' });
+  });
+});
+
+describe('parseLinks', () => {
+  it('reads labelled and bare links', () => {
+    expect(parseLinks('Repo|https://git.example/x, https://demo.example')).toEqual([
+      { label: 'Repo', url: 'https://git.example/x' },
+      { label: 'Link', url: 'https://demo.example' },
+    ]);
+  });
+
+  it('drops empty entries', () => {
+    expect(parseLinks('')).toEqual([]);
+    expect(parseLinks('Repo|, ,')).toEqual([]);
+  });
+});
+
+describe('matching', () => {
+  it('matches a track by id or name, ignoring case', () => {
+    expect(matchTrack('defi', tracks)?.id).toBe('t1');
+    expect(matchTrack('T2', tracks)?.id).toBe('t2');
+    expect(matchTrack('Health', tracks)).toBeUndefined();
+  });
+
+  it('matches a TRL band by a distinctive word of its name', () => {
+    expect(matchTrlBand('b2', trlBands)?.id).toBe('b2');
+    expect(matchTrlBand('prototype', trlBands)?.id).toBe('b2');
+    expect(matchTrlBand('TRL 1-3', trlBands)?.id).toBe('b1');
+    expect(matchTrlBand('Production', trlBands)).toBeUndefined();
+  });
+});
+
+describe('buildImportPreview', () => {
+  const preview = (rows: Record<string, unknown>[], changes: Partial<ImportSettings> = {}) =>
+    buildImportPreview(rows, { ...settings, ...changes }, [existing], tracks, trlBands);
+
+  it('builds a new project from a valid row', () => {
+    const [row] = preview([{ Project: ' Chain Quest ', Track: 'Gaming', TRL: 'Prototype', Links: 'Repo|https://git.example/cq' }]);
+    expect(row).toMatchObject({ rowNumber: 2, action: ImportRowAction.CREATE, messages: [] });
+    expect(row.project).toEqual({
+      name: 'Chain Quest',
+      description: 'No description provided.',
+      track: 't2',
+      trl: 'b2',
+      links: [{ label: 'Repo', url: 'https://git.example/cq' }],
+      externalKey: undefined,
+    });
+  });
+
+  it('reports every problem of an invalid row', () => {
+    const [row] = preview([{ Project: '', Track: 'Health', TRL: 'Production' }]);
+    expect(row.action).toBe(ImportRowAction.ERROR);
+    expect(row.messages).toEqual(['Project name is empty.', 'Unknown track "Health".', 'Unknown TRL "Production".']);
+  });
+
+  it('falls back to the default track', () => {
+    expect(preview([{ Project: 'A', TRL: 'b1' }])[0].messages).toEqual(['No track given and no default track selected.']);
+    expect(preview([{ Project: 'A', TRL: 'b1' }], { defaultTrackId: 't2' })[0].project?.track).toBe('t2');
+  });
+
+  it('skips or updates a project that already exists', () => {
+    const row = { Project: 'ledger lens', Track: 't1', TRL: 'b1' };
+    expect(preview([row])[0]).toMatchObject({ action: ImportRowAction.SKIP, matchedProjectId: 'p1' });
+    expect(preview([row], { duplicateStrategy: 'update' })[0]).toMatchObject({ action: ImportRowAction.UPDATE, matchedProjectId: 'p1' });
+  });
+
+  it('skips a key repeated within the file', () => {
+    const rows = [{ Project: 'New', Track: 't1', TRL: 'b1' }, { Project: 'NEW', Track: 't2', TRL: 'b2' }];
+    expect(preview(rows).map(r => [r.action, r.messages])).toEqual([
+      [ImportRowAction.CREATE, []],
+      [ImportRowAction.SKIP, ['Duplicate of row 2 in this file.']],
+    ]);
+  });
+
+  it('creates rows without a key when matching on the team key', () => {
+    const [withKey, withoutKey] = preview(
+      [{ Project: 'Renamed', Track: 't1', TRL: 'b1', 'Team ID': 't-7' }, { Project: 'Other', Track: 't1', TRL: 'b1' }],
+      { duplicateKey: 'externalKey', duplicateStrategy: 'update' }
+    );
+    expect(withKey).toMatchObject({ action: ImportRowAction.UPDATE, matchedProjectId: 'p1' });
+    expect(withoutKey).toMatchObject({ action: ImportRowAction.CREATE, messages: ['No key to check for duplicates.'] });
+  });
+});
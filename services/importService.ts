@@ -0,0 +1,171 @@
+import { Project, ProjectLink, Track, TrlBand } from '../types';
+
+export type ImportField = 'name' | 'description' | 'track' | 'trl' | 'links' | 'externalKey';
+
+// Maps each project field to the spreadsheet header it is read from.
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Lower-case header names recognised automatically.
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Project Name', required: true, aliases: ['project name', 'project', 'name', 'title'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'summary', 'pitch'] },
+  { field: 'track', label: 'Track', required: false, aliases: ['track', 'category', 'challenge'] },
+  { field: 'trl', label: 'TRL', required: false, aliases: ['trl', 'maturity', 'stage', 'trl band'] },
+  { field: 'links', label: 'Links', required: false, aliases: ['links', 'link', 'urls', 'url'] },
+  { field: 'externalKey', label: 'Team / Project Key', required: false, aliases: ['team id', 'team key', 'project id', 'project key', 'key', 'id', 'team'] },
+];
+
+export type DuplicateKey = 'name' | 'externalKey';
+export type DuplicateStrategy = 'skip' | 'update';
+
+export interface ImportSettings {
+  mapping: ColumnMapping;
+  // Used for rows without a mapped or filled-in Track cell.
+  defaultTrackId: string;
+  duplicateKey: DuplicateKey;
+  duplicateStrategy: DuplicateStrategy;
+}
+
+export enum ImportRowAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  SKIP = 'skip',
+  ERROR = 'error',
+}
+
+export interface ImportRowPreview {
+  rowNumber: number; // As shown in the spreadsheet, counting the header row
+  action: ImportRowAction;
+  project?: Omit<Project, 'id'>;
+  matchedProjectId?: string;
+  messages: string[];
+}
+
+export type ImportRow = Record<string, unknown>;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+const getCell = (row: ImportRow, header?: string): string => {
+  if (!header) return '';
+  const value = row[header];
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+// Picks a header for every field whose name or alias appears in the file; each header is used at most once.
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const header = headers.find(h => !used.has(h) && aliases.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+// Links are written as "Label1|URL1, Label2|URL2"; a bare URL is labelled "Link".
+export const parseLinks = (value: string): ProjectLink[] =>
+  value.split(',')
+    .map(pair => {
+      const parts = pair.split('|').map(s => s.trim());
+      return parts.length > 1 ? { label: parts[0], url: parts[1] } : { label: 'Link', url: parts[0] };
+    })
+    .filter(l => l.label && l.url);
+
+export const matchTrack = (value: string, tracks: Track[]): Track | undefined => {
+  const lower = value.toLowerCase();
+  return tracks.find(t => t.id.toLowerCase() === lower || t.name.toLowerCase() === lower);
+};
+
+// Matches a band by id or name, or by a distinctive word of its name such as "prototype" or "4-6".
+export const matchTrlBand = (value: string, trlBands: TrlBand[]): TrlBand | undefined => {
+  const lower = value.toLowerCase();
+  return trlBands.find(b => b.id.toLowerCase() === lower || b.name.toLowerCase() === lower)
+    || trlBands.find(b => b.name.toLowerCase().split(/[\s()]+/).some(token => token && token !== 'trl' && lower.includes(token)));
+};
+
+const getDuplicateKey = (project: Pick<Project, 'name' | 'externalKey'>, key: DuplicateKey) =>
+  (key === 'externalKey' ? project.externalKey : project.name)?.trim().toLowerCase() || '';
+
+/**
+ * Validates every row against the mapping and decides what importing it would do. Nothing is saved here.
+ * Rows that match an existing project on the duplicate key are updated or skipped depending on the strategy;
+ * a repeated key within the file is always skipped after its first row.
+ */
+export const buildImportPreview = (
+  rows: ImportRow[],
+  settings: ImportSettings,
+  projects: Project[],
+  tracks: Track[],
+  trlBands: TrlBand[]
+): ImportRowPreview[] => {
+  const { mapping, defaultTrackId, duplicateKey, duplicateStrategy } = settings;
+  const existingByKey = new Map<string, Project>();
+  projects.forEach(p => {
+    const key = getDuplicateKey(p, duplicateKey);
+    if (key) existingByKey.set(key, p);
+  });
+  const seenInFile = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const messages: string[] = [];
+
+    const name = getCell(row, mapping.name);
+    if (!name) messages.push('Project name is empty.');
+
+    const trackValue = getCell(row, mapping.track);
+    const track = trackValue ? matchTrack(trackValue, tracks) : tracks.find(t => t.id === defaultTrackId);
+    if (!track) {
+      messages.push(trackValue ? `Unknown track "${trackValue}".` : 'No track given and no default track selected.');
+    }
+
+    const trlValue = getCell(row, mapping.trl);
+    const trlBand = trlValue ? matchTrlBand(trlValue, trlBands) : undefined;
+    if (!trlValue) messages.push('TRL is empty.');
+    else if (!trlBand) messages.push(`Unknown TRL "${trlValue}".`);
+
+    if (messages.length > 0 || !track || !trlBand) {
+      return { rowNumber, action: ImportRowAction.ERROR, messages };
+    }
+
+    const links = parseLinks(getCell(row, mapping.links));
+    const project: Omit<Project, 'id'> = {
+      name,
+      description: getCell(row, mapping.description) || 'No description provided.',
+      track: track.id,
+      trl: trlBand.id,
+      links: links.length > 0 ? links : undefined,
+      externalKey: getCell(row, mapping.externalKey) || undefined,
+    };
+
+    const key = getDuplicateKey(project, duplicateKey);
+    if (!key) {
+      // Without a key the row cannot be matched, so it is always new.
+      return { rowNumber, action: ImportRowAction.CREATE, project, messages: ['No key to check for duplicates.'] };
+    }
+    const firstRow = seenInFile.get(key);
+    if (firstRow !== undefined) {
+      return { rowNumber, action: ImportRowAction.SKIP, project, messages: [`Duplicate of row ${firstRow} in this file.`] };
+    }
+    seenInFile.set(key, rowNumber);
+
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      return { rowNumber, action: ImportRowAction.CREATE, project, messages };
+    }
+    if (duplicateStrategy === 'update') {
+      return { rowNumber, action: ImportRowAction.UPDATE, project, matchedProjectId: existing.id, messages: [`Updates existing project "${existing.name}".`] };
+    }
+    return { rowNumber, action: ImportRowAction.SKIP, project, matchedProjectId: existing.id, messages: [`Already exists as "${existing.name}".`] };
+  });
+};
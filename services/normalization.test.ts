@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizationMethod } from '../types';
+import { NORMALIZATION_STRATEGIES, SHRINKAGE_PRIOR_WEIGHT, getStats } from './normalization';
+
+const population = { mean: 50, variance: 100 };
+const normalize = (method: NormalizationMethod, scores: number[]) => NORMALIZATION_STRATEGIES[method].normalize(scores, population);
+
+describe('getStats', () => {
+  it('returns the mean and population standard deviation', () => {
+    expect(getStats([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({ mean: 5, stdev: 2 });
+    expect(getStats([])).toEqual({ mean: 0, stdev: 0 });
+  });
+});
+
+describe('normalization strategies', () => {
+  it('raw keeps the scores', () => {
+    expect(normalize(NormalizationMethod.RAW, [30, 70])).toEqual([30, 70]);
+  });
+
+  it('z-score standardizes each judge', () => {
+    expect(normalize(NormalizationMethod.Z_SCORE, [2, 4, 4, 4, 5, 5, 7, 9])).toEqual([-1.5, -0.5, -0.5, -0.5, 0, 0, 1, 2]);
+  });
+
+  it('z-score measures a judge without spread against the population', () => {
+    // A single review, and two equal ones, are judged as the shrinkage z-score judges them, not put at 0.
+    const [single] = normalize(NormalizationMethod.Z_SCORE, [80]);
+    expect(single).toBeGreaterThan(0);
+    expect(single).toBe(normalize(NormalizationMethod.SHRINKAGE_Z_SCORE, [80])[0]);
+    expect(normalize(NormalizationMethod.Z_SCORE, [30, 30])).toEqual(normalize(NormalizationMethod.SHRINKAGE_Z_SCORE, [30, 30]));
+    expect(normalize(NormalizationMethod.Z_SCORE, [30, 30])[0]).toBeLessThan(0);
+  });
+
+  it('min-max maps the lowest to 0 and the highest to 1', () => {
+    expect(normalize(NormalizationMethod.MIN_MAX, [20, 40, 60])).toEqual([0, 0.5, 1]);
+    expect(normalize(NormalizationMethod.MIN_MAX, [60, 60])).toEqual([0.5, 0.5]);
+  });
+
+  it('borda uses only the order, sharing positions between ties', () => {
+    expect(normalize(NormalizationMethod.BORDA, [10, 90, 50])).toEqual([0, 1, 0.5]);
+    expect(normalize(NormalizationMethod.BORDA, [10, 50, 50])).toEqual([0, 0.75, 0.75]);
+    expect(normalize(NormalizationMethod.BORDA, [70])).toEqual([0.5]);
+  });
+
+  it('shrinkage z-score pulls a judge with few scores toward the population', () => {
+    const [single] = normalize(NormalizationMethod.SHRINKAGE_Z_SCORE, [80]);
+    // One score: mean (80 + 3 * 50) / 4 = 57.5, variance 3 * 100 / 4 = 75.
+    const shrunkMean = (80 + SHRINKAGE_PRIOR_WEIGHT * population.mean) / (1 + SHRINKAGE_PRIOR_WEIGHT);
+    const shrunkStdev = Math.sqrt((SHRINKAGE_PRIOR_WEIGHT * population.variance) / (1 + SHRINKAGE_PRIOR_WEIGHT));
+    expect(single).toBeCloseTo((80 - shrunkMean) / shrunkStdev);
+    expect(single).toBeGreaterThan(0);
+  });
+
+  it('shrinkage z-score comes close to the z-score for a judge with many scores', () => {
+    const scores = Array.from({ length: 200 }, (_, i) => 20 + (i % 5) * 10);
+    const shrunk = normalize(NormalizationMethod.SHRINKAGE_Z_SCORE, scores);
+    const plain = normalize(NormalizationMethod.Z_SCORE, scores);
+    shrunk.forEach((value, i) => expect(value).toBeCloseTo(plain[i], 1));
+  });
+});
@@ -0,0 +1,61 @@
+import { NormalizationMethod } from '../types';
+import { NORMALIZERS, SHRINKAGE_PRIOR_WEIGHT, getStats } from '../shared/ranking.js';
+
+export { SHRINKAGE_PRIOR_WEIGHT, getStats };
+
+export interface PopulationStats {
+  mean: number;
+  variance: number;
+}
+
+// A normalization strategy turns one judge's weighted scores into comparable values, with the shared calculation
+// of its method. `population` describes every weighted score in the ranking, for strategies that borrow strength from it.
+export interface NormalizationStrategy {
+  method: NormalizationMethod;
+  label: string;
+  description: string;
+  normalize: (judgeScores: number[], population: PopulationStats) => number[];
+}
+
+const rawStrategy: NormalizationStrategy = {
+  method: NormalizationMethod.RAW,
+  label: 'Raw Weighted Average',
+  description: 'No normalization; averages the weighted scores as given.',
+  normalize: NORMALIZERS[NormalizationMethod.RAW],
+};
+
+const zScoreStrategy: NormalizationStrategy = {
+  method: NormalizationMethod.Z_SCORE,
+  label: 'Z-Score',
+  description: "Standardizes each judge's scores to mean 0 and standard deviation 1. A judge whose scores do not vary, such as one with a single review, is measured with the shrinkage z-score instead.",
+  normalize: NORMALIZERS[NormalizationMethod.Z_SCORE],
+};
+
+const minMaxStrategy: NormalizationStrategy = {
+  method: NormalizationMethod.MIN_MAX,
+  label: 'Min-Max',
+  description: "Rescales each judge's scores so their lowest becomes 0 and their highest 1.",
+  normalize: NORMALIZERS[NormalizationMethod.MIN_MAX],
+};
+
+const bordaStrategy: NormalizationStrategy = {
+  method: NormalizationMethod.BORDA,
+  label: 'Rank-Based (Borda)',
+  description: "Uses only the order of each judge's scores: their top project gets 1, their bottom project 0.",
+  normalize: NORMALIZERS[NormalizationMethod.BORDA],
+};
+
+const shrinkageZScoreStrategy: NormalizationStrategy = {
+  method: NormalizationMethod.SHRINKAGE_Z_SCORE,
+  label: 'Shrinkage Z-Score',
+  description: "Z-score against a judge's mean and spread pulled toward the global ones; judges with few reviews are pulled hardest.",
+  normalize: NORMALIZERS[NormalizationMethod.SHRINKAGE_Z_SCORE],
+};
+
+export const NORMALIZATION_STRATEGIES: Record<NormalizationMethod, NormalizationStrategy> = {
+  [NormalizationMethod.RAW]: rawStrategy,
+  [NormalizationMethod.Z_SCORE]: zScoreStrategy,
+  [NormalizationMethod.MIN_MAX]: minMaxStrategy,
+  [NormalizationMethod.BORDA]: bordaStrategy,
+  [NormalizationMethod.SHRINKAGE_Z_SCORE]: shrinkageZScoreStrategy,
+};
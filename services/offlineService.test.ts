@@ -0,0 +1,115 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Score, ScoreStatus } from '../types';
+import * as dbService from './dbService';
+import { applyQueuedScores, clearScoreQueue, getQueuedScores, isLocalOnly, queueScore, replayScoreQueue, toLocalScore } from './offlineService';
+
+// dbService reads the stored session when it loads.
+vi.hoisted(() => vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} }));
+
+const draft = (projectId: string, criteriaScores: Score['criteriaScores'] = { c1: 5 }): Omit<Score, 'id'> =>
+  ({ projectId, judgeId: 'j1', criteriaScores, status: ScoreStatus.DRAFT });
+const serverScore = (projectId: string, changes: Partial<Score> = {}): Score =>
+  ({ ...draft(projectId), id: `s-${projectId}`, version: 1, ...changes });
+
+const respond = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  await clearScoreQueue();
+  dbService.setCurrentEvent('e1');
+  fetchMock = vi.fn();
+  vi.spyOn(globalThis, 'fetch').mockImplementation(fetchMock);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('queueScore', () => {
+  it('replaces a queued save but keeps the version the judge started from', async () => {
+    await queueScore('e1', draft('p1', { c1: 3 }), serverScore('p1', { version: 4 }));
+    await queueScore('e1', draft('p1', { c1: 6 }));
+    await queueScore('e2', draft('p1'));
+    const queue = await getQueuedScores('e1');
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ key: 'e1:p1:j1', baseVersion: 4, status: 'pending', score: { criteriaScores: { c1: 6 } } });
+  });
+});
+
+describe('replayScoreQueue', () => {
+  it('sends each save against its base version and drops it once saved', async () => {
+    await queueScore('e1', draft('p1'), serverScore('p1', { version: 2 }));
+    fetchMock.mockResolvedValue(respond(200, serverScore('p1', { version: 3 })));
+    const saved = await replayScoreQueue('e1', () => {});
+    expect(saved.map(s => s.version)).toEqual([3]);
+    const [url, request] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/events\/e1\/projects\/p1\/scores\/j1$/);
+    expect(request.headers['If-Match']).toBe('"2"');
+    expect(await getQueuedScores('e1')).toEqual([]);
+  });
+
+  it('keeps a save that lost to a newer one for the judge to resolve', async () => {
+    await queueScore('e1', draft('p1', { c1: 3 }), serverScore('p1'));
+    const current = serverScore('p1', { criteriaScores: { c1: 9 }, version: 2 });
+    fetchMock.mockResolvedValue(respond(409, { message: 'Changed elsewhere', current }));
+    expect(await replayScoreQueue('e1', () => {})).toEqual([]);
+    expect(await getQueuedScores('e1')).toMatchObject([{ status: 'conflict', serverScore: current }]);
+  });
+
+  it('settles a conflict when the server already has the same content', async () => {
+    await queueScore('e1', draft('p1'), serverScore('p1'));
+    const current = serverScore('p1', { version: 2 });
+    fetchMock.mockResolvedValue(respond(409, { message: 'Changed elsewhere', current }));
+    expect(await replayScoreQueue('e1', () => {})).toEqual([current]);
+    expect(await getQueuedScores('e1')).toEqual([]);
+  });
+
+  it('marks a refused save as failed and moves on', async () => {
+    await queueScore('e1', draft('p1'));
+    await queueScore('e1', draft('p2'));
+    fetchMock
+      .mockResolvedValueOnce(respond(409, { message: 'Scoring is closed.' }))
+      .mockResolvedValueOnce(respond(200, serverScore('p2')));
+    expect(await replayScoreQueue('e1', () => {})).toHaveLength(1);
+    expect(await getQueuedScores('e1')).toMatchObject([{ key: 'e1:p1:j1', status: 'failed', error: 'Scoring is closed.' }]);
+  });
+
+  it('stops at the first save that cannot reach the server', async () => {
+    await queueScore('e1', draft('p1'));
+    await queueScore('e1', draft('p2'));
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const error = await replayScoreQueue('e1', () => {}).catch(e => e);
+    expect(dbService.isNetworkError(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await getQueuedScores('e1')).map(item => item.status)).toEqual(['pending', 'pending']);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('only holds when the request got no response', async () => {
+    fetchMock.mockResolvedValue(new Response('not json', { status: 200 }));
+    const error = await dbService.saveScore(draft('p1')).catch(e => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(dbService.isNetworkError(error)).toBe(false);
+    expect(dbService.isNetworkError(new TypeError('x is undefined'))).toBe(false);
+  });
+});
+
+describe('applyQueuedScores', () => {
+  it('shows queued saves in place of the server scores', async () => {
+    await queueScore('e1', draft('p1', { c1: 8 }), serverScore('p1'));
+    await queueScore('e1', draft('p2'));
+    const scores = applyQueuedScores([serverScore('p1'), serverScore('p3')], await getQueuedScores('e1'));
+    expect(scores.map(s => [s.id, s.criteriaScores.c1, isLocalOnly(s)])).toEqual([
+      ['s-p1', 8, false],
+      ['s-p3', 5, false],
+      ['queued-p2', 5, true],
+    ]);
+  });
+
+  it('keeps the id and version of the score a stand-in replaces', () => {
+    expect(toLocalScore(draft('p1'), serverScore('p1', { version: 3 }))).toMatchObject({ id: 's-p1', version: 3 });
+  });
+});
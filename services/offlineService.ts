@@ -0,0 +1,179 @@
+// services/offlineService.ts
+// Keeps the judge view usable without a connection. The last data a judge loaded is cached in IndexedDB so the
+// app can start offline, and score saves that cannot reach the server are queued there and replayed later.
+import { Score, SessionUser, HackathonEvent, ScoreStatus } from '../types';
+import * as dbService from './dbService';
+
+const DB_NAME = 'hah-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshot';
+const QUEUE_STORE = 'scoreQueue';
+const SNAPSHOT_KEY = 'judge';
+
+// `pending` waits for the connection, `syncing` is being sent, `conflict` lost to a newer save made elsewhere
+// and `failed` was refused by the server, e.g. because judging closed. The last two wait for the judge.
+export type SyncStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+export interface QueuedScore {
+  key: string; // One entry per event, project and judge; a newer save replaces the queued one
+  eventId: string;
+  score: Omit<Score, 'id'>;
+  baseVersion: number; // Version of the server's score when the judge started editing offline; 0 if it had none
+  status: SyncStatus;
+  error?: string;
+  serverScore?: Score; // The server's copy, for a conflict
+  queuedAt: string;
+}
+
+// What a judge needs to open the app offline: who they are, their events and the current event's data.
+export interface OfflineSnapshot {
+  user: SessionUser;
+  events: HackathonEvent[];
+  eventId: string;
+  data: dbService.DBState;
+  savedAt: string;
+}
+
+// --- IndexedDB Helpers ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE);
+        request.result.createObjectStore(QUEUE_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result once the transaction has committed.
+const runRequest = async <T,>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// --- Cached Data ---
+export const saveSnapshot = (snapshot: OfflineSnapshot) =>
+  runRequest<IDBValidKey>(SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot, SNAPSHOT_KEY));
+
+export const loadSnapshot = async (): Promise<OfflineSnapshot | null> =>
+  (await runRequest<OfflineSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(SNAPSHOT_KEY))) ?? null;
+
+export const clearSnapshot = () => runRequest<undefined>(SNAPSHOT_STORE, 'readwrite', store => store.delete(SNAPSHOT_KEY));
+
+// --- Score Queue ---
+const queueKey = (eventId: string, score: Pick<Score, 'projectId' | 'judgeId'>) => `${eventId}:${score.projectId}:${score.judgeId}`;
+
+// The queued saves of an event, oldest first.
+export const getQueuedScores = async (eventId: string): Promise<QueuedScore[]> => {
+  const items = await runRequest<QueuedScore[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return items.filter(item => item.eventId === eventId).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+const putQueuedScore = (item: QueuedScore) => runRequest<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.put(item));
+
+export const deleteQueuedScore = (key: string) => runRequest<undefined>(QUEUE_STORE, 'readwrite', store => store.delete(key));
+
+export const clearScoreQueue = () => runRequest<undefined>(QUEUE_STORE, 'readwrite', store => store.clear());
+
+/**
+ * Queues a save that could not reach the server. `serverScore` is the copy the judge was editing, if any.
+ * When the pair already has a queued save, the new one replaces it but keeps its base version, so a conflict
+ * is still detected against the copy the judge originally edited.
+ */
+export const queueScore = async (eventId: string, score: Omit<Score, 'id'>, serverScore?: Score): Promise<void> => {
+  const key = queueKey(eventId, score);
+  const existing = await runRequest<QueuedScore | undefined>(QUEUE_STORE, 'readonly', store => store.get(key));
+  await putQueuedScore(existing
+    ? { ...existing, score, status: existing.status === 'conflict' ? 'conflict' : 'pending' }
+    : { key, eventId, score, baseVersion: serverScore?.version ?? 0, status: 'pending', queuedAt: new Date().toISOString() });
+};
+
+// A save made online supersedes anything still queued for the same pair.
+export const discardQueuedScore = (eventId: string, score: Pick<Score, 'projectId' | 'judgeId'>) =>
+  deleteQueuedScore(queueKey(eventId, score));
+
+// Sends a conflicting save again over the server's copy.
+export const overwriteServerScore = (item: QueuedScore) =>
+  putQueuedScore({ ...item, baseVersion: item.serverScore?.version ?? 0, status: 'pending', error: undefined, serverScore: undefined });
+
+// Puts a refused save back in line, e.g. after an admin has unlocked the judge.
+export const retryQueuedScore = (item: QueuedScore) =>
+  putQueuedScore({ ...item, status: 'pending', error: undefined });
+
+const hasSameContent = (saved: Score, queued: Omit<Score, 'id'>) =>
+  saved.status === queued.status &&
+  (saved.juryTrl ?? null) === (queued.juryTrl ?? null) &&
+  (saved.notes ?? '') === (queued.notes ?? '') &&
+  JSON.stringify(saved.criteriaScores) === JSON.stringify(queued.criteriaScores);
+
+/**
+ * Replays the event's queued saves, oldest first, and returns the scores the server holds for the ones that
+ * went through. A conflict resolves itself when the server already has the same content (the earlier attempt
+ * arrived but its response was lost) or when the queued save is a draft of an evaluation that has since been
+ * submitted; any other conflict waits for the judge. Replay stops at the first save that cannot reach the
+ * server. `onProgress` fires whenever an entry changes so its status can be shown while the replay runs.
+ */
+export const replayScoreQueue = async (eventId: string, onProgress: () => void): Promise<Score[]> => {
+  const saved: Score[] = [];
+  const items = (await getQueuedScores(eventId)).filter(item => item.status === 'pending' || item.status === 'syncing');
+  for (const item of items) {
+    await putQueuedScore({ ...item, status: 'syncing' });
+    onProgress();
+    try {
+      saved.push(await dbService.saveScore(item.score, item.baseVersion));
+      await deleteQueuedScore(item.key);
+    } catch (error) {
+      if (error instanceof dbService.VersionConflictError) {
+        const current = error.current as Score;
+        if (hasSameContent(current, item.score) || (current.status === ScoreStatus.SUBMITTED && item.score.status === ScoreStatus.DRAFT)) {
+          saved.push(current);
+          await deleteQueuedScore(item.key);
+        } else {
+          await putQueuedScore({ ...item, status: 'conflict', error: error.message, serverScore: current });
+        }
+      } else if (error instanceof dbService.ApiError && error.status < 500 && error.status !== 401) {
+        await putQueuedScore({ ...item, status: 'failed', error: error.message });
+      } else {
+        // Offline, a server error or an expired session: keep it for the next attempt.
+        await putQueuedScore({ ...item, status: 'pending' });
+        onProgress();
+        throw error;
+      }
+    }
+    onProgress();
+  }
+  return saved;
+};
+
+const LOCAL_ID_PREFIX = 'queued-';
+
+// The local stand-in for a queued save. It keeps the id and version of the score it replaces, if any.
+export const toLocalScore = (score: Omit<Score, 'id'>, existing?: Score): Score =>
+  ({ ...score, id: existing?.id ?? `${LOCAL_ID_PREFIX}${score.projectId}`, version: existing?.version });
+
+// True for a stand-in whose score has never reached the server, so it only exists in the queue.
+export const isLocalOnly = (score: Score) => score.id.startsWith(LOCAL_ID_PREFIX);
+
+// Shows queued saves in place of the server's scores, so the judge sees their work until it is synced.
+export const applyQueuedScores = (scores: Score[], queue: QueuedScore[]): Score[] =>
+  queue.reduce((result, item) => {
+    const existing = result.find(s => s.projectId === item.score.projectId && s.judgeId === item.score.judgeId);
+    const local = toLocalScore(item.score, existing);
+    return existing ? result.map(s => (s === existing ? local : s)) : [...result, local];
+  }, scores);
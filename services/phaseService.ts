@@ -0,0 +1,35 @@
+import { EventPhase, HackathonEvent, Judge } from '../types';
+
+export const PHASE_ORDER: EventPhase[] = [EventPhase.SETUP, EventPhase.JUDGING, EventPhase.DELIBERATION, EventPhase.PUBLISHED];
+
+export const PHASE_LABELS: Record<EventPhase, string> = {
+  [EventPhase.SETUP]: 'Setup',
+  [EventPhase.JUDGING]: 'Judging',
+  [EventPhase.DELIBERATION]: 'Deliberation',
+  [EventPhase.PUBLISHED]: 'Published',
+};
+
+export interface PhaseTransition {
+  to: EventPhase;
+  label: string;
+  confirmation: string;
+}
+
+// The moves the admin can make from each phase; the server enforces the same ones.
+export const PHASE_TRANSITIONS: Record<EventPhase, PhaseTransition[]> = {
+  [EventPhase.SETUP]: [
+    { to: EventPhase.JUDGING, label: 'Open Judging', confirmation: 'Open judging? Judges will be able to submit scores.' },
+  ],
+  [EventPhase.JUDGING]: [
+    { to: EventPhase.DELIBERATION, label: 'Close Judging', confirmation: 'Close judging? Judges will no longer be able to change their scores unless you unlock them.' },
+  ],
+  [EventPhase.DELIBERATION]: [
+    { to: EventPhase.JUDGING, label: 'Reopen Judging', confirmation: 'Reopen judging for every judge?' },
+    { to: EventPhase.PUBLISHED, label: 'Publish Results', confirmation: 'Publish the results? The current rankings will be saved permanently and no scores can be changed afterwards.' },
+  ],
+  [EventPhase.PUBLISHED]: [],
+};
+
+// Mirrors the server's check: scores can be written while judging, or during deliberation by an unlocked judge.
+export const canJudgeScore = (event: HackathonEvent, judge: Judge) =>
+  event.phase === EventPhase.JUDGING || (event.phase === EventPhase.DELIBERATION && !!judge.scoringUnlocked);
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Assignment, Conflict, Judge, Project, Score, ScoreStatus, Track, UserRole } from '../types';
+import { pairKey } from './assignmentService';
+import { PairStatus, getCompletionRate, getEvaluationProgress } from './progressService';
+
+const tracks: Track[] = [{ id: 't1', name: 'Health' }, { id: 't2', name: 'Energy' }];
+const projects: Project[] = [
+  { id: 'p1', name: 'p1', description: '', track: 't1', trl: 'b1' },
+  { id: 'p2', name: 'p2', description: '', track: 't1', trl: 'b1' },
+  { id: 'p3', name: 'p3', description: '', track: 't2', trl: 'b1' },
+];
+const judges: Judge[] = [{ id: 'j1', name: 'Ada', tracks: ['t1', 't2'] }, { id: 'j2', name: 'Bo', tracks: ['t1'] }];
+
+const assignment = (judgeId: string, projectId: string): Assignment => ({ id: pairKey(judgeId, projectId), judgeId, projectId });
+const score = (judgeId: string, projectId: string, status = ScoreStatus.SUBMITTED): Score =>
+  ({ id: pairKey(judgeId, projectId), judgeId, projectId, criteriaScores: {}, status });
+
+const assignments = [assignment('j1', 'p1'), assignment('j1', 'p3'), assignment('j2', 'p1'), assignment('j2', 'p2')];
+
+describe('getEvaluationProgress', () => {
+  it('counts each assignment once and completes it with a submitted score', () => {
+    const progress = getEvaluationProgress(projects, judges, tracks, assignments, [score('j1', 'p1'), score('j2', 'p2', ScoreStatus.DRAFT)], []);
+    expect(progress.overall).toEqual({ expected: 4, completed: 1 });
+    expect(progress.byTrack.map(t => [t.track.id, t.expected, t.completed])).toEqual([['t1', 3, 1], ['t2', 1, 0]]);
+    expect(progress.pairStatuses.get(pairKey('j1', 'p1'))).toBe(PairStatus.SCORED);
+    expect(progress.pairStatuses.get(pairKey('j2', 'p2'))).toBe(PairStatus.DRAFT);
+    expect(progress.pairStatuses.get(pairKey('j1', 'p3'))).toBe(PairStatus.PENDING);
+  });
+
+  it('puts the judges furthest behind first', () => {
+    const progress = getEvaluationProgress(projects, judges, tracks, assignments, [score('j1', 'p1'), score('j1', 'p3')], []);
+    expect(progress.byJudge.map(j => [j.judge.id, j.expected, j.completed])).toEqual([['j2', 2, 0], ['j1', 2, 2]]);
+  });
+
+  it('no longer expects a score from a recused judge', () => {
+    const conflicts: Conflict[] = [{ id: 'c1', judgeId: 'j2', projectId: 'p1', declaredBy: UserRole.ADMIN }];
+    const progress = getEvaluationProgress(projects, judges, tracks, assignments, [score('j2', 'p1')], conflicts);
+    expect(progress.overall).toEqual({ expected: 3, completed: 0 });
+    expect(progress.pairStatuses.get(pairKey('j2', 'p1'))).toBe(PairStatus.CONFLICTED);
+  });
+});
+
+describe('getCompletionRate', () => {
+  it('is 0 when nothing is expected', () => {
+    expect(getCompletionRate({ expected: 0, completed: 0 })).toBe(0);
+    expect(getCompletionRate({ expected: 4, completed: 1 })).toBe(0.25);
+  });
+});
@@ -0,0 +1,86 @@
+import { Project, Judge, Score, Track, Assignment, Conflict, ScoreStatus } from '../types';
+import { pairKey } from './assignmentService';
+
+export enum PairStatus {
+  SCORED = 'scored',
+  DRAFT = 'draft', // Started but not submitted, so not yet completed
+  PENDING = 'pending',
+  CONFLICTED = 'conflicted',
+}
+
+export interface ProgressCounts {
+  expected: number;
+  completed: number;
+}
+
+export interface JudgeProgress extends ProgressCounts {
+  judge: Judge;
+}
+
+export interface TrackProgress extends ProgressCounts {
+  track: Track;
+}
+
+export interface EvaluationProgress {
+  overall: ProgressCounts;
+  // Sorted with the judges furthest behind first.
+  byJudge: JudgeProgress[];
+  byTrack: TrackProgress[];
+  // Status of every (judge, project) pair that is assigned, scored or conflicted, keyed by `pairKey`.
+  pairStatuses: Map<string, PairStatus>;
+}
+
+export const getCompletionRate = ({ expected, completed }: ProgressCounts) =>
+  expected > 0 ? completed / expected : 0;
+
+/**
+ * Measures progress against the real workload: each assignment is one expected score,
+ * and it counts as completed once that judge has submitted a score for that project.
+ */
+export const getEvaluationProgress = (
+  projects: Project[],
+  judges: Judge[],
+  tracks: Track[],
+  assignments: Assignment[],
+  scores: Score[],
+  conflicts: Conflict[]
+): EvaluationProgress => {
+  const projectsMap = new Map(projects.map(p => [p.id, p]));
+  const scoreStatuses = new Map(scores.map(s => [pairKey(s.judgeId, s.projectId), s.status]));
+
+  const pairStatuses = new Map<string, PairStatus>();
+  assignments.forEach(a => {
+    const key = pairKey(a.judgeId, a.projectId);
+    const scoreStatus = scoreStatuses.get(key);
+    pairStatuses.set(key, scoreStatus === ScoreStatus.SUBMITTED ? PairStatus.SCORED : scoreStatus === ScoreStatus.DRAFT ? PairStatus.DRAFT : PairStatus.PENDING);
+  });
+  // A recusal overrides everything else: the pair is no longer expected and any score for it is excluded.
+  conflicts.forEach(c => pairStatuses.set(pairKey(c.judgeId, c.projectId), PairStatus.CONFLICTED));
+
+  const overall: ProgressCounts = { expected: 0, completed: 0 };
+  const judgeCounts = new Map<string, ProgressCounts>(judges.map(j => [j.id, { expected: 0, completed: 0 }]));
+  const trackCounts = new Map<string, ProgressCounts>(tracks.map(t => [t.id, { expected: 0, completed: 0 }]));
+
+  assignments.forEach(a => {
+    const status = pairStatuses.get(pairKey(a.judgeId, a.projectId));
+    if (status === PairStatus.CONFLICTED) return;
+    const project = projectsMap.get(a.projectId);
+    const buckets = [overall, judgeCounts.get(a.judgeId), project && trackCounts.get(project.track)];
+    buckets.forEach(counts => {
+      if (!counts) return;
+      counts.expected++;
+      if (status === PairStatus.SCORED) counts.completed++;
+    });
+  });
+
+  const byJudge = judges
+    .map(judge => ({ judge, ...judgeCounts.get(judge.id)! }))
+    .sort((a, b) =>
+      (b.expected - b.completed) - (a.expected - a.completed) ||
+      getCompletionRate(a) - getCompletionRate(b) ||
+      a.judge.name.localeCompare(b.judge.name)
+    );
+  const byTrack = tracks.map(track => ({ track, ...trackCounts.get(track.id)! }));
+
+  return { overall, byJudge, byTrack, pairStatuses };
+};
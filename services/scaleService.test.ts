@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Criterion } from '../types';
+import { GATE_SCALE, findRubricAnchor, formatGateScore, formatScale, getScaleValues, isOnScale, toResultScale } from './scaleService';
+
+const criterion = (changes: Partial<Criterion> = {}): Criterion => ({
+  id: 'c1', name: 'Quality', weight: {}, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds: [], ...changes,
+});
+
+describe('getScaleValues', () => {
+  it('lists every level of the scale', () => {
+    expect(getScaleValues({ scaleMin: 1, scaleMax: 5, scaleStep: 1 })).toEqual([1, 2, 3, 4, 5]);
+    expect(getScaleValues(GATE_SCALE)).toEqual([0, 1]);
+  });
+
+  it('rounds away floating point noise of fractional steps', () => {
+    expect(getScaleValues({ scaleMin: 0, scaleMax: 1, scaleStep: 0.1 })).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+  });
+});
+
+describe('isOnScale', () => {
+  const halves = { scaleMin: 1, scaleMax: 5, scaleStep: 0.5 };
+
+  it('accepts values on a step within the range', () => {
+    expect(isOnScale(1, halves)).toBe(true);
+    expect(isOnScale(3.5, halves)).toBe(true);
+    expect(isOnScale(5, halves)).toBe(true);
+    expect(isOnScale(0.3, { scaleMin: 0, scaleMax: 1, scaleStep: 0.1 })).toBe(true);
+  });
+
+  it('rejects values between steps or out of range', () => {
+    expect(isOnScale(3.25, halves)).toBe(false);
+    expect(isOnScale(0.5, halves)).toBe(false);
+    expect(isOnScale(5.5, halves)).toBe(false);
+  });
+});
+
+describe('toResultScale', () => {
+  it('rescales to 0-10 whatever the scale', () => {
+    expect(toResultScale(3, { scaleMin: 1, scaleMax: 5 })).toBe(5);
+    expect(toResultScale(100, { scaleMin: 0, scaleMax: 100 })).toBe(10);
+    expect(toResultScale(1, { scaleMin: 1, scaleMax: 5 })).toBe(0);
+  });
+
+  it('is 0 on a scale without range', () => {
+    expect(toResultScale(4, { scaleMin: 4, scaleMax: 4 })).toBe(0);
+  });
+});
+
+describe('formatScale', () => {
+  it('shows the range, and the step when it is not 1', () => {
+    expect(formatScale(criterion())).toBe('0–10');
+    expect(formatScale(criterion({ scaleMin: 1, scaleMax: 5, scaleStep: 0.5 }))).toBe('1–5 by 0.5');
+    expect(formatScale(criterion({ ...GATE_SCALE, isGate: true }))).toBe('Pass/fail');
+  });
+
+  it('names gate verdicts', () => {
+    expect(formatGateScore(1)).toBe('Pass');
+    expect(formatGateScore(0)).toBe('Fail');
+  });
+});
+
+describe('findRubricAnchor', () => {
+  const rubric = [
+    { score: 8, description: 'Production ready' },
+    { score: 0, description: 'Nothing works' },
+    { score: 4, description: 'Works in a demo' },
+  ];
+
+  it('picks the highest anchor at or below the score', () => {
+    expect(findRubricAnchor(criterion({ rubric }), 5)?.description).toBe('Works in a demo');
+    expect(findRubricAnchor(criterion({ rubric }), 8)?.description).toBe('Production ready');
+    expect(findRubricAnchor(criterion({ rubric }), 0)?.description).toBe('Nothing works');
+  });
+
+  it('finds nothing without a rubric', () => {
+    expect(findRubricAnchor(criterion(), 5)).toBeUndefined();
+    expect(findRubricAnchor(criterion({ rubric: [{ score: 3, description: 'Some' }] }), 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+import { Criterion, RubricAnchor } from '../types';
+import { GATE_PASS, RESULT_SCALE_MAX, toResultScale } from '../shared/ranking.js';
+
+// Results rescale every score to 0-RESULT_SCALE_MAX so criteria can be weighted against each other whatever their scales.
+export { GATE_PASS, RESULT_SCALE_MAX, toResultScale };
+
+// Above this many levels the scoring form shows a slider instead of one button per score.
+export const MAX_SCORE_BUTTONS = 11;
+
+// The scale of a new criterion, and of every criterion created before scales could be chosen.
+export const DEFAULT_SCALE = { scaleMin: 0, scaleMax: 10, scaleStep: 1 };
+
+export const GATE_SCALE = { scaleMin: 0, scaleMax: 1, scaleStep: 1 };
+
+type Scale = Pick<Criterion, 'scaleMin' | 'scaleMax' | 'scaleStep'>;
+
+// Rounds away the floating point noise of fractional steps, e.g. 0.1 + 0.2.
+const roundToStep = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const getScaleValues = ({ scaleMin, scaleMax, scaleStep }: Scale): number[] => {
+  const levels = Math.round((scaleMax - scaleMin) / scaleStep) + 1;
+  return Array.from({ length: levels }, (_, i) => roundToStep(scaleMin + i * scaleStep));
+};
+
+// Mirrors the server's check that a score lies on the scale.
+export const isOnScale = (value: number, { scaleMin, scaleMax, scaleStep }: Scale): boolean => {
+  const steps = (value - scaleMin) / scaleStep;
+  return value >= scaleMin && value <= scaleMax && Math.abs(steps - Math.round(steps)) < 1e-6;
+};
+
+export const formatScale = (criterion: Criterion): string =>
+  criterion.isGate
+    ? 'Pass/fail'
+    : `${criterion.scaleMin}–${criterion.scaleMax}${criterion.scaleStep !== 1 ? ` by ${criterion.scaleStep}` : ''}`;
+
+export const formatGateScore = (value: number) => (value === GATE_PASS ? 'Pass' : 'Fail');
+
+// The anchor describing a score: the highest one at or below it.
+export const findRubricAnchor = (criterion: Criterion, value: number): RubricAnchor | undefined =>
+  (criterion.rubric || [])
+    .filter(anchor => anchor.score <= value)
+    .sort((a, b) => b.score - a.score)[0];
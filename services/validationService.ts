@@ -0,0 +1,29 @@
+import { FieldErrorDetail, FieldErrors } from './dbService';
+import { SCHEMAS, validate } from '../shared/validation.js';
+
+export type SchemaName = keyof typeof SCHEMAS;
+
+// The id sets that `oneOf` and `keys` rules refer to, built from the current event's data.
+export interface IdSets {
+  trackIds?: Set<string>;
+  trlBandIds?: Set<string>;
+  criterionIds?: Set<string>;
+}
+
+export const toIdSet = (items: { id: string }[]) => new Set(items.map(item => item.id));
+
+// Keeps the first message per field; later ones usually repeat the same problem.
+export const toFieldErrors = (errors: FieldErrorDetail[]): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  errors.forEach(e => {
+    if (!(e.field in fieldErrors)) fieldErrors[e.field] = e.message;
+  });
+  return fieldErrors;
+};
+
+// Checks a form's data against the schema the server validates it with, so the form can show the same messages
+// without a round trip. An empty result means the data is valid.
+export const getFieldErrors = (schemaName: SchemaName, body: object, idSets: IdSets = {}): FieldErrors =>
+  toFieldErrors(validate(schemaName, body, idSets));
+
+export const hasFieldErrors = (fieldErrors: FieldErrors) => Object.keys(fieldErrors).length > 0;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Criterion, WeightSet } from '../types';
+import { differsFromWeightSet, formatWeightSetName, getWeightTotals } from './weightService';
+
+const bands = [{ id: 'b1', name: 'Ideation', position: 1 }, { id: 'b2', name: 'Prototype', position: 2 }];
+
+const criterion = (id: string, weight: Criterion['weight'], trackIds: string[] = []): Criterion => ({
+  id, name: id, weight, scaleMin: 0, scaleMax: 10, scaleStep: 1, trackIds,
+});
+
+const weightSet = (weights: WeightSet['weights']): WeightSet => ({
+  id: 'w1', eventId: 'e1', number: 2, name: 'Final', weights, isActive: true, createdAt: '2026-01-01T00:00:00Z',
+});
+
+describe('getWeightTotals', () => {
+  it('adds up the weights of each band', () => {
+    const totals = getWeightTotals([criterion('a', { b1: 60, b2: 30 }), criterion('b', { b1: 40, b2: 30 })], bands);
+    expect(totals.map(t => [t.band.id, t.total, t.isValid])).toEqual([['b1', 100, true], ['b2', 60, false]]);
+  });
+
+  it('leaves out criteria of individual tracks', () => {
+    const totals = getWeightTotals([criterion('a', { b1: 100, b2: 100 }), criterion('b', { b1: 50, b2: 50 }, ['t1'])], bands);
+    expect(totals.every(t => t.total === 100 && t.isValid)).toBe(true);
+  });
+
+  it('tolerates rounding in fractional weights', () => {
+    const thirds = ['a', 'b', 'c'].map(id => criterion(id, { b1: 100 / 3 }));
+    expect(getWeightTotals(thirds, bands.slice(0, 1))[0].isValid).toBe(true);
+  });
+
+  it('counts a missing band weight as 0', () => {
+    expect(getWeightTotals([criterion('a', { b1: 100 })], bands)[1]).toMatchObject({ total: 0, isValid: false });
+  });
+});
+
+describe('differsFromWeightSet', () => {
+  const criteria = [criterion('a', { b1: 60, b2: 50 }), criterion('b', { b1: 40, b2: 50 })];
+
+  it('is false when the weights match the set', () => {
+    expect(differsFromWeightSet(criteria, weightSet({ a: { b1: 60, b2: 50 }, b: { b1: 40, b2: 50 } }), bands)).toBe(false);
+  });
+
+  it('is true when a weight was edited', () => {
+    expect(differsFromWeightSet(criteria, weightSet({ a: { b1: 60, b2: 40 }, b: { b1: 40, b2: 50 } }), bands)).toBe(true);
+  });
+
+  it('is true when a criterion was added or removed', () => {
+    expect(differsFromWeightSet(criteria, weightSet({ a: { b1: 60, b2: 50 } }), bands)).toBe(true);
+    expect(differsFromWeightSet(criteria, weightSet({ a: { b1: 60, b2: 50 }, c: { b1: 40, b2: 50 } }), bands)).toBe(true);
+  });
+});
+
+describe('formatWeightSetName', () => {
+  it('shows the number and the name', () => {
+    expect(formatWeightSetName(weightSet({}))).toBe('v2 · Final');
+  });
+});
@@ -0,0 +1,28 @@
+import { Criterion, TrlBand, WeightSet } from '../types';
+
+// The criteria weights for each TRL band must add up to this, as the rankings assume.
+export const WEIGHT_TOTAL = 100;
+
+export interface WeightTotal {
+  band: TrlBand;
+  total: number;
+  isValid: boolean;
+}
+
+// Adds up the weights per TRL band of the criteria that apply to every track; the server refuses to save a weight
+// set unless all are valid. Track criteria come on top, and the rankings rescale each project's weights to 100.
+export const getWeightTotals = (criteria: Criterion[], trlBands: TrlBand[]): WeightTotal[] =>
+  trlBands.map(band => {
+    const total = criteria.filter(c => c.trackIds.length === 0).reduce((sum, c) => sum + (c.weight[band.id] ?? 0), 0);
+    return { band, total, isValid: Math.abs(total - WEIGHT_TOTAL) <= 0.001 };
+  });
+
+// True when the criteria have been edited since the set was saved, or were added or removed.
+export const differsFromWeightSet = (criteria: Criterion[], weightSet: WeightSet, trlBands: TrlBand[]): boolean =>
+  criteria.length !== Object.keys(weightSet.weights).length ||
+  criteria.some(c => {
+    const saved = weightSet.weights[c.id];
+    return !saved || trlBands.some(band => (saved[band.id] ?? 0) !== (c.weight[band.id] ?? 0));
+  });
+
+export const formatWeightSetName = (weightSet: WeightSet) => `v${weightSet.number} · ${weightSet.name}`;
@@ -0,0 +1,479 @@
+// shared/ranking.js
+// The ranking calculation. The results tab runs it live as the admin changes the ranking options, and the backend
+// runs it on the stored scores when results are published, so the published snapshot cannot differ from the data.
+// Plain ES module JavaScript, like `validation.js`; the JSDoc types let the TypeScript services use it as typed.
+
+/**
+ * @typedef {import('../types').Project} Project
+ * @typedef {import('../types').Score} Score
+ * @typedef {import('../types').Criterion} Criterion
+ * @typedef {import('../types').Conflict} Conflict
+ * @typedef {import('../types').WeightSet} WeightSet
+ * @typedef {import('../types').RankingOptions} RankingOptions
+ * @typedef {import('../types').ProjectResult} ProjectResult
+ * @typedef {import('../types').ScoreRange} ScoreRange
+ * @typedef {{ mean: number, variance: number }} PopulationStats
+ * @typedef {{ votes: { [trlBandId: string]: number }, majority?: string }} TrlAssessment
+ */
+
+/** @type {RankingOptions} */
+export const DEFAULT_RANKING_OPTIONS = {
+  trlPolicy: 'admin',
+  normalization: 'z-score',
+  normalizationScope: 'judge',
+  weighting: 'pinned',
+  tieBreakers: [],
+};
+
+// --- Scales ---
+// Each criterion is scored on its own scale. Results rescale every score to this range so criteria can be weighted
+// against each other whatever their scales.
+export const RESULT_SCALE_MAX = 10;
+
+export const GATE_PASS = 1;
+
+/**
+ * @param {number} value
+ * @param {Pick<Criterion, 'scaleMin' | 'scaleMax'>} scale
+ * @returns {number}
+ */
+export const toResultScale = (value, { scaleMin, scaleMax }) =>
+  scaleMax > scaleMin ? ((value - scaleMin) / (scaleMax - scaleMin)) * RESULT_SCALE_MAX : 0;
+
+// --- Normalization ---
+// Number of pseudo-observations of the global distribution blended into each judge's stats by the shrinkage strategy.
+export const SHRINKAGE_PRIOR_WEIGHT = 3;
+
+/**
+ * Mean and standard deviation of `values`.
+ * @param {number[]} values
+ * @returns {{ mean: number, stdev: number }}
+ */
+export const getStats = (values) => {
+  if (values.length === 0) return { mean: 0, stdev: 0 };
+  const mean = values.reduce((acc, val) => acc + val, 0) / values.length;
+  const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / values.length;
+  return { mean, stdev: Math.sqrt(variance) };
+};
+
+/** @type {(judgeScores: number[], population: PopulationStats) => number[]} */
+const shrinkageZScore = (judgeScores, population) => {
+  const n = judgeScores.length;
+  const { mean, stdev } = getStats(judgeScores);
+  const shrunkMean = (n * mean + SHRINKAGE_PRIOR_WEIGHT * population.mean) / (n + SHRINKAGE_PRIOR_WEIGHT);
+  const shrunkVariance = (n * stdev * stdev + SHRINKAGE_PRIOR_WEIGHT * population.variance) / (n + SHRINKAGE_PRIOR_WEIGHT);
+  const shrunkStdev = Math.sqrt(shrunkVariance);
+  return judgeScores.map(score => shrunkStdev === 0 ? 0 : (score - shrunkMean) / shrunkStdev);
+};
+
+/**
+ * Turns one judge's weighted scores into comparable values, by normalization method. `population` describes every
+ * weighted score in the ranking, for methods that borrow strength from it.
+ * @type {{ [method: string]: (judgeScores: number[], population: PopulationStats) => number[] }}
+ */
+export const NORMALIZERS = {
+  'raw': (judgeScores) => [...judgeScores],
+  'z-score': (judgeScores, population) => {
+    const { mean, stdev } = getStats(judgeScores);
+    // Without any spread, e.g. after a single review, the judge's own scores cannot say whether a project is good,
+    // and every score would land on 0. Pulling the judge's stats toward the global ones keeps the information.
+    if (stdev === 0) return shrinkageZScore(judgeScores, population);
+    return judgeScores.map(score => (score - mean) / stdev);
+  },
+  'min-max': (judgeScores) => {
+    const min = Math.min(...judgeScores);
+    const max = Math.max(...judgeScores);
+    // With no spread there is nothing to rescale; place every score mid-range.
+    return judgeScores.map(score => max === min ? 0.5 : (score - min) / (max - min));
+  },
+  'borda': (judgeScores) => {
+    const n = judgeScores.length;
+    if (n === 1) return [0.5];
+    return judgeScores.map(score => {
+      // Tied scores share the average of the positions they occupy.
+      const below = judgeScores.filter(other => other < score).length;
+      const ties = judgeScores.filter(other => other === score).length - 1;
+      return (below + ties / 2) / (n - 1);
+    });
+  },
+  'shrinkage-z-score': shrinkageZScore,
+};
+
+// --- Confidence ---
+// A project's final score is the mean of a handful of judges' normalized scores, so a different draw of judges
+// could well have ranked it differently. The bootstrap resamples those scores to show how far the mean could move.
+export const BOOTSTRAP_SAMPLES = 1000;
+export const CONFIDENCE_LEVEL = 0.95;
+const CONFIDENCE_Z = 1.959964; // The normal quantile for CONFIDENCE_LEVEL
+
+// A small seeded generator (mulberry32), so the same scores always give the same intervals and the rankings
+// do not shift between renders.
+/** @type {(seed: number) => () => number} */
+const createRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** @type {(key: string) => number} */
+const hashSeed = (key) => Array.from(key).reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 17);
+
+/**
+ * The percentile bootstrap interval of the mean of `values`. `seedKey` (e.g. the project id) fixes the resampling.
+ * A single value cannot be resampled, and says nothing about how much judges vary, so it gets a normal interval
+ * built from `fallbackStdev`, the typical spread of judges on the other projects.
+ * @param {number[]} values
+ * @param {string} seedKey
+ * @param {number} fallbackStdev
+ * @returns {ScoreRange}
+ */
+export const bootstrapInterval = (values, seedKey, fallbackStdev) => {
+  if (values.length === 0) return { low: 0, high: 0 };
+  if (values.length === 1) return { low: values[0] - CONFIDENCE_Z * fallbackStdev, high: values[0] + CONFIDENCE_Z * fallbackStdev };
+  const random = createRandom(hashSeed(seedKey));
+  const means = Array.from({ length: BOOTSTRAP_SAMPLES }, () => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[Math.floor(random() * values.length)];
+    return sum / values.length;
+  }).sort((a, b) => a - b);
+  const tail = (1 - CONFIDENCE_LEVEL) / 2;
+  return {
+    low: means[Math.floor(tail * BOOTSTRAP_SAMPLES)],
+    high: means[Math.ceil((1 - tail) * BOOTSTRAP_SAMPLES) - 1],
+  };
+};
+
+/** @type {(a: ScoreRange, b: ScoreRange) => boolean} */
+export const intervalsOverlap = (a, b) => a.low <= b.high && b.low <= a.high;
+
+/**
+ * The best and worst rank a project could hold: it is certainly behind every project whose whole interval lies
+ * above its own, and certainly ahead of every project whose whole interval lies below it.
+ * @param {ScoreRange} interval
+ * @param {ScoreRange[]} others
+ * @returns {ScoreRange}
+ */
+export const getRankRange = (interval, others) => ({
+  low: 1 + others.filter(other => other.low > interval.high).length,
+  high: 1 + others.filter(other => other.high >= interval.low).length,
+});
+
+// --- Rankings ---
+/** @type {(judgeId: string, projectId: string) => string} */
+const pairKey = (judgeId, projectId) => `${judgeId}::${projectId}`;
+
+/**
+ * Tallies the jury's TRL assessments for a project. The majority is undefined when nobody assessed
+ * the TRL or when the top assessments are tied.
+ * @param {Score[]} projectScores
+ * @returns {TrlAssessment}
+ */
+export const getJuryTrlAssessment = (projectScores) => {
+  /** @type {{ [trlBandId: string]: number }} */
+  const votes = {};
+  projectScores.forEach(score => {
+    if (score.juryTrl) votes[score.juryTrl] = (votes[score.juryTrl] || 0) + 1;
+  });
+
+  const ranked = Object.keys(votes).sort((a, b) => votes[b] - votes[a]);
+  const isTied = ranked.length > 1 && votes[ranked[0]] === votes[ranked[1]];
+  return { votes, majority: ranked.length > 0 && !isTied ? ranked[0] : undefined };
+};
+
+// Returns the TRL whose weights apply to one judge's score under the given policy.
+/** @type {(policy: string, project: Project, score: Score, assessment: TrlAssessment) => string} */
+const resolveTrl = (policy, project, score, assessment) => {
+  switch (policy) {
+    case 'jury-majority':
+      return assessment.majority || project.trl;
+    case 'per-judge':
+      return score.juryTrl || project.trl;
+    default:
+      return project.trl;
+  }
+};
+
+/**
+ * A criterion without tracks applies to every project.
+ * @param {Pick<Criterion, 'trackIds'>} criterion
+ * @param {string} trackId
+ * @returns {boolean}
+ */
+export const appliesToTrack = (criterion, trackId) =>
+  !criterion.trackIds || criterion.trackIds.length === 0 || criterion.trackIds.includes(trackId);
+
+/**
+ * @param {Criterion[]} criteria
+ * @param {string} trackId
+ * @returns {Criterion[]}
+ */
+export const getApplicableCriteria = (criteria, trackId) => criteria.filter(c => appliesToTrack(c, trackId));
+
+/**
+ * @param {Pick<ProjectResult, 'disqualifiedBy'>} result
+ * @returns {boolean}
+ */
+export const isDisqualified = (result) => (result.disqualifiedBy?.length ?? 0) > 0;
+
+// The gates a majority of the project's judges failed. A judge who left a gate unscored does not count towards it.
+/** @type {(projectScores: Score[], criteria: Criterion[], trackId: string) => string[]} */
+const getFailedGates = (projectScores, criteria, trackId) =>
+  getApplicableCriteria(criteria, trackId)
+    .filter(c => c.isGate)
+    .filter(gate => {
+      const verdicts = projectScores.map(s => s.criteriaScores[gate.id]).filter(value => value !== undefined);
+      const failures = verdicts.filter(value => value !== GATE_PASS).length;
+      return failures > verdicts.length / 2;
+    })
+    .map(gate => gate.id);
+
+/** @typedef {Omit<ProjectResult, 'rank' | 'trackRank'> & { confidenceInterval: ScoreRange }} UnrankedResult */
+
+// The value a tie-breaker compares, higher first; undefined when the project has none, e.g. for a criterion of
+// another track.
+/** @type {(result: UnrankedResult, tieBreaker: import('../types').TieBreaker, criteriaMap: Map<string, Criterion>) => number | undefined} */
+const getTieBreakValue = (result, tieBreaker, criteriaMap) => {
+  if (tieBreaker.kind === 'reviews') return result.scores.length;
+  const criterion = tieBreaker.criterionId ? criteriaMap.get(tieBreaker.criterionId) : undefined;
+  if (!criterion) return undefined;
+  const values = result.scores
+    .map(s => s.criteriaScores[criterion.id])
+    .filter(value => value !== undefined)
+    .map(value => toResultScale(value, criterion));
+  return values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : undefined;
+};
+
+/** @type {(a: UnrankedResult, b: UnrankedResult, tieBreakers: import('../types').TieBreaker[], criteriaMap: Map<string, Criterion>) => number} */
+const compareByTieBreakers = (a, b, tieBreakers, criteriaMap) => {
+  for (const tieBreaker of tieBreakers) {
+    const valueA = getTieBreakValue(a, tieBreaker, criteriaMap);
+    const valueB = getTieBreakValue(b, tieBreaker, criteriaMap);
+    if (valueA !== undefined && valueB !== undefined && valueA !== valueB) return valueB - valueA;
+  }
+  return 0;
+};
+
+// Reorders results sorted by final score with the tie-breakers. A project only ever moves past neighbours it is
+// statistically tied with, so it cannot overtake one whose interval lies wholly above its own.
+/** @type {(sorted: UnrankedResult[], tieBreakers: import('../types').TieBreaker[], criteriaMap: Map<string, Criterion>) => UnrankedResult[]} */
+const applyTieBreakers = (sorted, tieBreakers, criteriaMap) => {
+  const ordered = [...sorted];
+  for (let swapped = true; swapped;) {
+    swapped = false;
+    for (let i = 1; i < ordered.length; i++) {
+      const [ahead, behind] = [ordered[i - 1], ordered[i]];
+      if (
+        isDisqualified(ahead) === isDisqualified(behind) &&
+        intervalsOverlap(ahead.confidenceInterval, behind.confidenceInterval) &&
+        compareByTieBreakers(ahead, behind, tieBreakers, criteriaMap) > 0
+      ) {
+        [ordered[i - 1], ordered[i]] = [behind, ahead];
+        swapped = true;
+      }
+    }
+  }
+  return ordered;
+};
+
+/**
+ * Ranks the projects from their submitted scores.
+ * @param {Project[]} projects
+ * @param {Score[]} allScores
+ * @param {Criterion[]} criteria
+ * @param {RankingOptions} [options]
+ * @param {Conflict[]} [conflicts]
+ * @param {WeightSet[]} [weightSets]
+ * @returns {ProjectResult[]}
+ */
+export const calculateFinalRankings = (projects, allScores, criteria, options = DEFAULT_RANKING_OPTIONS, conflicts = [], weightSets = []) => {
+  // Drafts never count, and neither do scores from recused judges, even if they were submitted before the
+  // conflict was declared.
+  const conflictKeys = new Set(conflicts.map(c => pairKey(c.judgeId, c.projectId)));
+  const submittedScores = allScores.filter(s => s.status === 'submitted');
+  const scores = submittedScores.filter(s => !conflictKeys.has(pairKey(s.judgeId, s.projectId)));
+  if (scores.length === 0 || projects.length === 0) return [];
+
+  const criteriaMap = new Map(criteria.map(c => [c.id, c]));
+  const weightSetsMap = new Map(weightSets.map(w => [w.id, w]));
+  const projectsMap = new Map(projects.map(p => [p.id, p]));
+
+  /** @type {Map<string, TrlAssessment>} */
+  const trlAssessments = new Map();
+  projects.forEach(p => {
+    trlAssessments.set(p.id, getJuryTrlAssessment(scores.filter(s => s.projectId === p.id)));
+  });
+
+  // Step 1: Calculate weighted scores for every score entry
+  /** @type {{ judgeId: string, projectId: string, weightedScore: number, trl: string }[]} */
+  const allWeightedScores = [];
+
+  scores.forEach(score => {
+    const project = projectsMap.get(score.projectId);
+    if (!project) return;
+
+    const trl = resolveTrl(options.trlPolicy, project, score, trlAssessments.get(project.id));
+    // A pinned score uses the weights it was submitted under, as long as that set is known.
+    const weightSet = options.weighting !== 'current' && score.weightSetId ? weightSetsMap.get(score.weightSetId) : undefined;
+    /** @type {(criterion: Criterion) => number} */
+    const getWeight = (criterion) => (weightSet ? weightSet.weights[criterion.id]?.[trl] : criterion.weight[trl]) ?? 0;
+    // The weights of the criteria that apply to the project's track are rescaled to add up to 100, so projects
+    // with extra track criteria are scored out of the same total as the rest.
+    const applicable = getApplicableCriteria(criteria, project.track).filter(c => !c.isGate);
+    const weightTotal = applicable.reduce((sum, c) => sum + getWeight(c), 0);
+    let totalWeightedScore = 0;
+    applicable.forEach(criterion => {
+      const value = score.criteriaScores[criterion.id];
+      if (value !== undefined && weightTotal > 0) {
+        const weight = (getWeight(criterion) / weightTotal) * 100;
+        totalWeightedScore += toResultScale(value, criterion) * (weight / 10); // Out of 100
+      }
+    });
+    allWeightedScores.push({ judgeId: score.judgeId, projectId: score.projectId, weightedScore: totalWeightedScore, trl });
+  });
+
+  // Step 2: Normalize each judge's weighted scores with the selected method, either across
+  // everything the judge scored or separately within each track they covered
+  const normalize = NORMALIZERS[options.normalization];
+  const isPerTrack = options.normalizationScope === 'judge-track';
+
+  /** @type {(entries: typeof allWeightedScores) => PopulationStats} */
+  const getPopulation = (entries) => {
+    const { mean, stdev } = getStats(entries.map(e => e.weightedScore));
+    return { mean, variance: stdev * stdev };
+  };
+
+  /** @type {Map<string, typeof allWeightedScores>} */
+  const entriesByGroup = new Map();
+  /** @type {Map<string, typeof allWeightedScores>} */
+  const entriesByTrack = new Map();
+  allWeightedScores.forEach(s => {
+    const track = projectsMap.get(s.projectId).track;
+    const groupKey = isPerTrack ? `${s.judgeId}::${track}` : s.judgeId;
+    if (!entriesByGroup.has(groupKey)) {
+      entriesByGroup.set(groupKey, []);
+    }
+    entriesByGroup.get(groupKey).push(s);
+    if (!entriesByTrack.has(track)) {
+      entriesByTrack.set(track, []);
+    }
+    entriesByTrack.get(track).push(s);
+  });
+
+  const globalPopulation = getPopulation(allWeightedScores);
+  const trackPopulations = new Map(Array.from(entriesByTrack.entries()).map(([track, entries]) => [track, getPopulation(entries)]));
+
+  const normalizedScores = new Map();
+  entriesByGroup.forEach(entries => {
+    const population = isPerTrack ? trackPopulations.get(projectsMap.get(entries[0].projectId).track) : globalPopulation;
+    const normalized = normalize(entries.map(e => e.weightedScore), population);
+    entries.forEach((entry, i) => normalizedScores.set(entry, normalized[i]));
+  });
+
+  // Step 3: Calculate normalized score for each project and final average
+  /** @type {Map<string, { project: Project, normalizedScores: number[], weightedScores: number[], judgeStats: ProjectResult['judgeStats'] }>} */
+  const projectResultsMap = new Map();
+
+  allWeightedScores.forEach(s => {
+    const project = projectsMap.get(s.projectId);
+    if (!projectResultsMap.has(s.projectId)) {
+      projectResultsMap.set(s.projectId, { project, normalizedScores: [], weightedScores: [], judgeStats: {} });
+    }
+
+    const normalizedScore = normalizedScores.get(s);
+
+    const currentResult = projectResultsMap.get(s.projectId);
+    currentResult.normalizedScores.push(normalizedScore);
+    currentResult.weightedScores.push(s.weightedScore);
+
+    const rawScore = scores.find(sc => sc.projectId === s.projectId && sc.judgeId === s.judgeId);
+    // The average of the judge's scores on the common 0-10 scale; gates are pass/fail, so they are left out.
+    const criterionKeys = Object.keys(rawScore.criteriaScores).filter(key => {
+      const criterion = criteriaMap.get(key);
+      return criterion !== undefined && !criterion.isGate && appliesToTrack(criterion, project.track);
+    });
+    const rawTotal = criterionKeys.length > 0
+      ? criterionKeys.reduce((acc, key) => acc + toResultScale(rawScore.criteriaScores[key], criteriaMap.get(key)), 0) / criterionKeys.length
+      : 0;
+
+    currentResult.judgeStats[s.judgeId] = {
+        raw: rawTotal,
+        weighted: s.weightedScore,
+        normalized: normalizedScore,
+        trl: s.trl,
+    };
+  });
+
+  // How far one judge's normalized score typically strays from the project's mean, pooled over the projects with
+  // several reviews; it stands in for the spread of projects reviewed only once.
+  const spreads = Array.from(projectResultsMap.values()).filter(r => r.normalizedScores.length >= 2);
+  const pooledDegrees = spreads.reduce((acc, r) => acc + r.normalizedScores.length - 1, 0);
+  const typicalSpread = pooledDegrees > 0
+    ? Math.sqrt(spreads.reduce((acc, r) => acc + Math.pow(getStats(r.normalizedScores).stdev, 2) * r.normalizedScores.length, 0) / pooledDegrees)
+    : 0;
+
+  /** @type {UnrankedResult[]} */
+  const finalResults = Array.from(projectResultsMap.values()).map(
+    ({ project, normalizedScores, weightedScores, judgeStats }) => {
+      const finalScore = normalizedScores.length > 0
+        ? normalizedScores.reduce((acc, val) => acc + val, 0) / normalizedScores.length
+        : 0;
+
+      const avgWeightedScore = weightedScores.length > 0
+        ? weightedScores.reduce((acc, val) => acc + val, 0) / weightedScores.length
+        : 0;
+
+      const { votes, majority } = trlAssessments.get(project.id);
+      const resolvedTrl = options.trlPolicy === 'per-judge' ? undefined : (
+        options.trlPolicy === 'jury-majority' ? majority || project.trl : project.trl
+      );
+
+      const projectConflicts = conflicts.filter(c => c.projectId === project.id);
+      const projectScores = scores.filter(s => s.projectId === project.id);
+      return {
+        project,
+        scores: projectScores,
+        disqualifiedBy: getFailedGates(projectScores, criteria, project.track),
+        recusedJudgeIds: projectConflicts.map(c => c.judgeId),
+        recusedScoreCount: submittedScores.filter(s => s.projectId === project.id && conflictKeys.has(pairKey(s.judgeId, s.projectId))).length,
+        finalScore,
+        confidenceInterval: bootstrapInterval(normalizedScores, project.id, typicalSpread),
+        avgWeightedScore,
+        resolvedTrl,
+        juryTrlVotes: votes,
+        juryMajorityTrl: majority,
+        trlDisagreement: majority !== undefined && majority !== project.trl,
+        judgeStats,
+      };
+    }
+  );
+
+  // Step 4: Sort by final score, with disqualified projects below every other. Within a statistical tie the
+  // tie-breakers, if any, decide the order instead.
+  finalResults.sort((a, b) => Number(isDisqualified(a)) - Number(isDisqualified(b)) || b.finalScore - a.finalScore);
+  const ordered = applyTieBreakers(finalResults, options.tieBreakers || [], criteriaMap);
+
+  // Step 5: Rank, both overall and within each track. Alongside the position, each qualified project gets the
+  // range of ranks its confidence interval allows, and the projects it is statistically tied with.
+  const qualified = ordered.filter(r => !isDisqualified(r));
+  const trackPositions = new Map();
+  return ordered.map((result, index) => {
+    const trackRank = (trackPositions.get(result.project.track) || 0) + 1;
+    trackPositions.set(result.project.track, trackRank);
+    if (isDisqualified(result)) {
+      return { ...result, rank: index + 1, trackRank, tiedWith: [], trackTiedWith: [] };
+    }
+    const others = qualified.filter(other => other !== result);
+    const interval = result.confidenceInterval;
+    const tiedWith = others.filter(o => intervalsOverlap(o.confidenceInterval, interval));
+    return {
+      ...result,
+      rank: index + 1,
+      trackRank,
+      rankRange: getRankRange(interval, others.map(o => o.confidenceInterval)),
+      trackRankRange: getRankRange(interval, others.filter(o => o.project.track === result.project.track).map(o => o.confidenceInterval)),
+      tiedWith: tiedWith.map(o => o.project.id),
+      trackTiedWith: tiedWith.filter(o => o.project.track === result.project.track).map(o => o.project.id),
+    };
+  });
+};
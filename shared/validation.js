@@ -0,0 +1,220 @@
+// shared/validation.js
+// Request body schemas, one per entity in `types.ts`, and the checks that enforce them. The backend validates every
+// write against them, and the forms run the same checks before saving, so both reject a bad value the same way.
+// Plain ES module JavaScript, so Vite bundles it for the browser and the backend `require`s it (Node 20.19+).
+
+// --- Schemas ---
+// A field rule is `{ type, required, nullable, ... }`. `enum` lists the allowed values. `oneOf` and `keys` name an id set of the current
+// event that the caller passes in (see `validateBody`), e.g. only tracks of that event are valid `Project.track` values.
+const PHASES = ['setup', 'judging', 'deliberation', 'published'];
+const SCORE_STATUSES = ['draft', 'submitted'];
+const TRL_POLICIES = ['admin', 'jury-majority', 'per-judge'];
+const NORMALIZATION_METHODS = ['raw', 'z-score', 'min-max', 'borda', 'shrinkage-z-score'];
+const NORMALIZATION_SCOPES = ['judge', 'judge-track'];
+const WEIGHTING_POLICIES = ['pinned', 'current'];
+const TIE_BREAKER_KINDS = ['reviews', 'criterion'];
+
+const name = { type: 'string', required: true, minLength: 1, maxLength: 200 };
+
+export const SCHEMAS = {
+  newEvent: {
+    name,
+    cloneFromEventId: { type: 'string', nullable: true },
+  },
+  event: {
+    name,
+    reviewsPerProject: { type: 'integer', required: true, min: 1, max: 50 },
+    maxLoadPerJudge: { type: 'integer', nullable: true, min: 1 },
+  },
+  // Publishing takes the ranking options the admin chose; the server ranks the stored scores with them.
+  phaseChange: {
+    phase: { type: 'string', required: true, enum: PHASES },
+    options: {
+      type: 'object',
+      nullable: true,
+      fields: {
+        trlPolicy: { type: 'string', required: true, enum: TRL_POLICIES },
+        normalization: { type: 'string', required: true, enum: NORMALIZATION_METHODS },
+        normalizationScope: { type: 'string', required: true, enum: NORMALIZATION_SCOPES },
+        weighting: { type: 'string', required: true, enum: WEIGHTING_POLICIES },
+        tieBreakers: {
+          type: 'array',
+          required: true,
+          items: {
+            type: 'object',
+            fields: {
+              kind: { type: 'string', required: true, enum: TIE_BREAKER_KINDS },
+              criterionId: { type: 'string', nullable: true, oneOf: 'criterionIds' },
+            },
+          },
+        },
+      },
+    },
+  },
+  scoringUnlock: {
+    unlocked: { type: 'boolean', required: true },
+  },
+  trlBand: {
+    name,
+    position: { type: 'integer', required: true, min: 0 },
+  },
+  track: {
+    name,
+  },
+  project: {
+    name,
+    description: { type: 'string', nullable: true, maxLength: 5000 },
+    track: { type: 'string', required: true, oneOf: 'trackIds' },
+    trl: { type: 'string', required: true, oneOf: 'trlBandIds' },
+    links: {
+      type: 'array',
+      nullable: true,
+      items: {
+        type: 'object',
+        fields: {
+          label: { type: 'string', required: true, minLength: 1, maxLength: 200 },
+          url: { type: 'string', required: true, minLength: 1, maxLength: 2000 },
+        },
+      },
+    },
+    externalKey: { type: 'string', nullable: true, maxLength: 200 },
+  },
+  judge: {
+    name,
+    tracks: { type: 'array', required: true, items: { type: 'string', oneOf: 'trackIds' } },
+  },
+  // The route checks that the scale is well formed and that the rubric anchors lie on it.
+  criterion: {
+    name,
+    description: { type: 'string', nullable: true, maxLength: 2000 },
+    weight: { type: 'record', required: true, keys: 'trlBandIds', values: { type: 'number', min: 0, max: 100 } },
+    scaleMin: { type: 'number', required: true },
+    scaleMax: { type: 'number', required: true },
+    scaleStep: { type: 'number', required: true, min: 0.001 },
+    rubric: {
+      type: 'array',
+      nullable: true,
+      items: {
+        type: 'object',
+        fields: {
+          score: { type: 'number', required: true },
+          description: { type: 'string', required: true, minLength: 1, maxLength: 500 },
+        },
+      },
+    },
+    isGate: { type: 'boolean', nullable: true },
+    trackIds: { type: 'array', nullable: true, items: { type: 'string', oneOf: 'trackIds' } },
+  },
+  // The weights are copied from the event's criteria by the route.
+  weightSet: {
+    name,
+  },
+  // The project and judge of a score come from the route, not the body. A draft may leave criteria unscored;
+  // the route checks each score against its criterion's scale and that a submitted score covers every criterion.
+  score: {
+    status: { type: 'string', required: true, enum: SCORE_STATUSES },
+    criteriaScores: { type: 'record', required: true, keys: 'criterionIds', values: { type: 'number' } },
+    juryTrl: { type: 'string', nullable: true, oneOf: 'trlBandIds' },
+    notes: { type: 'string', nullable: true, maxLength: 5000 },
+  },
+  assignment: {
+    judgeId: { type: 'string', required: true },
+    projectId: { type: 'string', required: true },
+  },
+  conflict: {
+    judgeId: { type: 'string', required: true },
+    projectId: { type: 'string', required: true },
+    reason: { type: 'string', nullable: true, maxLength: 1000 },
+  },
+};
+
+// --- Checks ---
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TYPE_CHECKS = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  array: Array.isArray,
+  object: isPlainObject,
+  record: isPlainObject,
+};
+
+// How an id set is named in error messages.
+const ID_SET_NAMES = {
+  trackIds: 'track',
+  trlBandIds: 'TRL band',
+  criterionIds: 'criterion',
+};
+
+const TYPE_NAMES = {
+  string: 'text',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'an object',
+  record: 'an object',
+};
+
+// Appends `{ field, message }` for every problem with `value`; `field` is a path such as `links[0].url`.
+const checkValue = (rule, value, field, context, errors) => {
+  if (value === undefined || value === null || (rule.type === 'string' && rule.required && value.trim?.() === '')) {
+    if (rule.required) errors.push({ field, message: 'This field is required.' });
+    else if (value === null && !rule.nullable) errors.push({ field, message: 'This field cannot be empty.' });
+    return;
+  }
+  if (!TYPE_CHECKS[rule.type](value)) {
+    errors.push({ field, message: `Must be ${TYPE_NAMES[rule.type]}.` });
+    return;
+  }
+  if (rule.type === 'string') {
+    if (rule.minLength !== undefined && value.trim().length < rule.minLength) errors.push({ field, message: `Must be at least ${rule.minLength} characters.` });
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) errors.push({ field, message: `Must be at most ${rule.maxLength} characters.` });
+  }
+  if (rule.type === 'number' || rule.type === 'integer') {
+    if (rule.min !== undefined && rule.max !== undefined && (value < rule.min || value > rule.max)) {
+      errors.push({ field, message: `Must be between ${rule.min} and ${rule.max}.` });
+    } else if (rule.min !== undefined && value < rule.min) {
+      errors.push({ field, message: `Must be at least ${rule.min}.` });
+    } else if (rule.max !== undefined && value > rule.max) {
+      errors.push({ field, message: `Must be at most ${rule.max}.` });
+    }
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    errors.push({ field, message: `Must be one of: ${rule.enum.join(', ')}.` });
+  }
+  if (rule.oneOf && context[rule.oneOf] && !context[rule.oneOf].has(value)) {
+    errors.push({ field, message: `Unknown ${ID_SET_NAMES[rule.oneOf]} "${value}".` });
+  }
+  if (rule.type === 'array' && rule.items) {
+    value.forEach((item, index) => checkValue(rule.items, item, `${field}[${index}]`, context, errors));
+  }
+  if (rule.type === 'object' && rule.fields) {
+    checkFields(rule.fields, value, `${field}.`, context, errors);
+  }
+  if (rule.type === 'record') {
+    Object.keys(value).forEach(key => {
+      const path = `${field}.${key}`;
+      if (rule.keys && context[rule.keys] && !context[rule.keys].has(key)) {
+        errors.push({ field: path, message: `Unknown ${ID_SET_NAMES[rule.keys]} "${key}".` });
+        return;
+      }
+      checkValue({ ...rule.values, required: true }, value[key], path, context, errors);
+    });
+  }
+};
+
+const checkFields = (fields, body, prefix, context, errors) => {
+  Object.keys(fields).forEach(key => checkValue(fields[key], body[key], `${prefix}${key}`, context, errors));
+};
+
+// Returns the field-level errors of `body` against a named schema; an empty list means it is valid.
+// Fields the schema does not list, such as `id`, are ignored.
+export const validate = (schemaName, body, context = {}) => {
+  if (!isPlainObject(body)) return [{ field: '', message: 'Expected an object.' }];
+  const errors = [];
+  checkFields(SCHEMAS[schemaName], body, '', context, errors);
+  return errors;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { validate } from './validation.js';
+
+const tracks = { trackIds: new Set(['t1', 't2']), trlBandIds: new Set(['b1']) };
+
+const project = { name: 'Chain Quest', track: 't1', trl: 'b1' };
+
+describe('validate', () => {
+  it('accepts a valid body and ignores fields the schema does not list', () => {
+    expect(validate('project', { ...project, id: 'p1', version: 3 }, tracks)).toEqual([]);
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(validate('track', ['x'])).toEqual([{ field: '', message: 'Expected an object.' }]);
+    expect(validate('track', null)).toEqual([{ field: '', message: 'Expected an object.' }]);
+  });
+
+  it('requires required fields and treats a blank string as missing', () => {
+    expect(validate('track', {})).toEqual([{ field: 'name', message: 'This field is required.' }]);
+    expect(validate('track', { name: '   ' })).toEqual([{ field: 'name', message: 'This field is required.' }]);
+  });
+
+  it('only lets nullable fields be null', () => {
+    expect(validate('project', { ...project, description: null }, tracks)).toEqual([]);
+    expect(validate('judge', { name: 'Ada', tracks: null })).toEqual([{ field: 'tracks', message: 'This field is required.' }]);
+    expect(validate('score', { status: 'draft', criteriaScores: {}, juryTrl: undefined })).toEqual([]);
+  });
+
+  it('checks types', () => {
+    expect(validate('event', { name: 'Hack', reviewsPerProject: 2.5 })).toEqual([{ field: 'reviewsPerProject', message: 'Must be a whole number.' }]);
+    expect(validate('scoringUnlock', { unlocked: 'yes' })).toEqual([{ field: 'unlocked', message: 'Must be true or false.' }]);
+    expect(validate('track', { name: 7 })).toEqual([{ field: 'name', message: 'Must be text.' }]);
+    expect(validate('criterion', { name: 'Q', weight: {}, scaleMin: 0, scaleMax: Infinity, scaleStep: 1 })).toEqual([
+      { field: 'scaleMax', message: 'Must be a number.' },
+    ]);
+  });
+
+  it('checks lengths and ranges', () => {
+    expect(validate('track', { name: 'x'.repeat(201) })).toEqual([{ field: 'name', message: 'Must be at most 200 characters.' }]);
+    expect(validate('event', { name: 'Hack', reviewsPerProject: 0 })).toEqual([{ field: 'reviewsPerProject', message: 'Must be between 1 and 50.' }]);
+    expect(validate('event', { name: 'Hack', reviewsPerProject: 3, maxLoadPerJudge: 0 })).toEqual([{ field: 'maxLoadPerJudge', message: 'Must be at least 1.' }]);
+  });
+
+  it('checks enums', () => {
+    expect(validate('phaseChange', { phase: 'archived' })).toEqual([
+      { field: 'phase', message: 'Must be one of: setup, judging, deliberation, published.' },
+    ]);
+  });
+
+  it('checks ids against the sets passed in, and skips the check without them', () => {
+    expect(validate('project', { ...project, track: 't9' }, tracks)).toEqual([{ field: 'track', message: 'Unknown track "t9".' }]);
+    expect(validate('project', { ...project, track: 't9' })).toEqual([]);
+  });
+
+  it('reports array items and object fields by path', () => {
+    const links = [{ label: 'Repo', url: 'https://git.example' }, { label: '', url: 'https://demo.example' }];
+    expect(validate('project', { ...project, links }, tracks)).toEqual([{ field: 'links[1].label', message: 'This field is required.' }]);
+    expect(validate('judge', { name: 'Ada', tracks: ['t1', 't3'] }, tracks)).toEqual([{ field: 'tracks[1]', message: 'Unknown track "t3".' }]);
+  });
+
+  it('checks record keys and values', () => {
+    const criterion = { name: 'Q', scaleMin: 0, scaleMax: 10, scaleStep: 1 };
+    expect(validate('criterion', { ...criterion, weight: { b1: 120 } }, tracks)).toEqual([{ field: 'weight.b1', message: 'Must be between 0 and 100.' }]);
+    expect(validate('criterion', { ...criterion, weight: { b2: 10 } }, tracks)).toEqual([{ field: 'weight.b2', message: 'Unknown TRL band "b2".' }]);
+    expect(validate('criterion', { ...criterion, weight: { b1: null } }, tracks)).toEqual([{ field: 'weight.b1', message: 'This field is required.' }]);
+  });
+
+  it('checks nested object fields', () => {
+    const options = { trlPolicy: 'admin', normalization: 'z-score', normalizationScope: 'judge', weighting: 'pinned' };
+    expect(validate('phaseChange', { phase: 'published', options: { ...options, tieBreakers: [{ kind: 'votes' }] } })).toEqual([
+      { field: 'options.tieBreakers[0].kind', message: 'Must be one of: reviews, criterion.' },
+    ]);
+    expect(validate('phaseChange', { phase: 'published', options })).toEqual([
+      { field: 'options.tieBreakers', message: 'This field is required.' },
+    ]);
+  });
+});
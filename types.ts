@@ -1,24 +1,47 @@
-// FIX: Removed a circular import of `TRL` from this file, which was causing a conflict with the `TRL` enum defined below.
-
 export enum UserRole {
   ADMIN = 'admin',
   JUDGE = 'judge',
 }
 
-export enum TRL {
-  IDEATION = 'Ideation (TRL 1-3)',
-  PROTOTYPE = 'Prototype (TRL 4-6)',
+export interface SessionUser {
+  role: UserRole;
+  id?: string;
+}
+
+// Tracks and TRL bands are managed per hackathon in the database; other entities refer to them by id.
+// Editable entities carry a `version` that the server increments on every update; saves send it back so a
+// save based on a stale copy is refused instead of overwriting someone else's changes.
+// An event moves through these in order; judges can only score while it is in JUDGING.
+export enum EventPhase {
+  SETUP = 'setup',
+  JUDGING = 'judging',
+  DELIBERATION = 'deliberation',
+  PUBLISHED = 'published',
+}
+
+// A single hackathon. Named to avoid clashing with the DOM's global `Event`.
+export interface HackathonEvent {
+  id: string;
+  name: string;
+  phase: EventPhase;
+  reviewsPerProject: number; // Target number of judges per project
+  maxLoadPerJudge?: number | null; // Most projects one judge may be assigned; null means no limit
+  createdAt?: string;
+  version?: number;
 }
 
-export const TRACKS = [
-  'AI and Depin',
-  'Onchain Finance & RWA',
-  'DLT for Operations',
-  'Immersive Experiences',
-  'Cross-Chain Track',
-] as const;
+export interface Track {
+  id: string;
+  name: string;
+  version?: number;
+}
 
-export type Track = typeof TRACKS[number];
+export interface TrlBand {
+  id: string;
+  name: string;
+  position: number; // Ascending maturity, e.g. Ideation (1) < Prototype (2) < Production (3)
+  version?: number;
+}
 
 export interface ProjectLink {
   label: string;
@@ -29,24 +52,62 @@ export interface Project {
   id: string;
   name: string;
   description: string;
-  track: Track;
-  trl: TRL;
+  track: string; // Track id
+  trl: string;   // TRL band id
   links?: ProjectLink[];
+  externalKey?: string; // Team or project id from the organiser's own records, used to match re-imports
+  version?: number;
 }
 
 export interface Judge {
   id: string;
   name: string;
-  tracks: Track[];
+  tracks: string[]; // Track ids
+  scoringUnlocked?: boolean; // Set by an admin to let the judge keep scoring during deliberation
+  version?: number;
+}
+
+// Says what a particular score on a criterion's scale means, e.g. 0 = "No working code".
+export interface RubricAnchor {
+  score: number;
+  description: string;
 }
 
 export interface Criterion {
   id: string;
   name: string;
+  description?: string | null;
   weight: {
-    [TRL.IDEATION]: number;
-    [TRL.PROTOTYPE]: number;
+    [trlBandId: string]: number;
   };
+  // Judges score from `scaleMin` to `scaleMax` in steps of `scaleStep`; results rescale every criterion to 0-10.
+  scaleMin: number;
+  scaleMax: number;
+  scaleStep: number;
+  rubric?: RubricAnchor[] | null;
+  isGate?: boolean; // Scored 0 (fail) or 1 (pass) with no weight; a project most of its judges fail is disqualified
+  trackIds: string[]; // The tracks the criterion applies to; empty means every track
+  version?: number;
+}
+
+// A saved, numbered copy of every criterion's weights. Submitted scores are pinned to the set that was active.
+export interface WeightSet {
+  id: string;
+  eventId: string;
+  number: number; // 1, 2, 3... within the event
+  name: string;
+  weights: {
+    [criterionId: string]: { [trlBandId: string]: number };
+  };
+  isActive: boolean;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+// A draft is autosaved while the judge works and may leave criteria unscored; only submitted scores are ranked.
+export enum ScoreStatus {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
 }
 
 export interface Score {
@@ -54,10 +115,100 @@ export interface Score {
   projectId: string;
   judgeId: string;
   criteriaScores: {
-    [criterionId: string]: number;
+    [criterionId: string]: number; // Criteria the judge has not scored yet are left out
   };
-  juryTrl?: TRL;
+  juryTrl?: string; // TRL band id
   notes?: string;
+  status: ScoreStatus;
+  weightSetId?: string | null; // The weight set that was active when it was submitted; null for drafts
+  version?: number;
+}
+
+export interface Assignment {
+  id: string;
+  judgeId: string;
+  projectId: string;
+}
+
+// A judge's declared conflict of interest with a project; conflicted pairs are never assigned.
+export interface Conflict {
+  id: string;
+  judgeId: string;
+  projectId: string;
+  reason?: string;
+  declaredBy: UserRole;
+  createdAt?: string;
+}
+
+// The kinds of record the audit log covers, named like the lists in the app state.
+export type AuditEntity = 'events' | 'projects' | 'judges' | 'criteria' | 'tracks' | 'trlBands' | 'assignments' | 'conflicts' | 'scores' | 'resultSnapshots' | 'weightSets';
+export type AuditAction = 'create' | 'update' | 'delete' | 'replace' | 'invite';
+
+// One entry of the append-only audit log. `before` is null for a create and `after` is null for a delete;
+// a `replace` stores the whole list before and after and has no `entityId`.
+export interface AuditEntry {
+  id: string;
+  eventId: string | null; // null for TRL bands, which are shared by every event
+  actorRole: UserRole;
+  actorId: string;
+  actorName: string | null;
+  entity: AuditEntity;
+  entityId: string | null;
+  action: AuditAction;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+// Which TRL decides the criterion weights when ranking a project.
+export enum TrlPolicy {
+  ADMIN = 'admin',                 // The TRL set by the admin on the project
+  JURY_MAJORITY = 'jury-majority', // The TRL most judges assessed; ties fall back to the admin TRL
+  PER_JUDGE = 'per-judge',         // Each judge's own assessment weights that judge's score
+}
+
+export enum NormalizationMethod {
+  RAW = 'raw',
+  Z_SCORE = 'z-score',
+  MIN_MAX = 'min-max',
+  BORDA = 'borda',
+  SHRINKAGE_Z_SCORE = 'shrinkage-z-score',
+}
+
+// The set of scores a judge is normalized against: everything they scored, or each track separately.
+export enum NormalizationScope {
+  JUDGE = 'judge',
+  JUDGE_TRACK = 'judge-track',
+}
+
+// Which weights apply to a submitted score.
+export enum WeightingPolicy {
+  PINNED = 'pinned',   // The weight set that was active when it was submitted; the current weights if there was none
+  CURRENT = 'current', // The criteria's current weights, recomputing every score
+}
+
+// Decides the order of projects whose final scores are statistically tied.
+export enum TieBreakerKind {
+  REVIEWS = 'reviews',     // More reviews first
+  CRITERION = 'criterion', // A higher average on the criterion first
+}
+
+export interface TieBreaker {
+  kind: TieBreakerKind;
+  criterionId?: string; // For TieBreakerKind.CRITERION
+}
+
+export interface RankingOptions {
+  trlPolicy: TrlPolicy;
+  normalization: NormalizationMethod;
+  normalizationScope: NormalizationScope;
+  weighting?: WeightingPolicy; // Missing from results published before weight sets existed
+  tieBreakers?: TieBreaker[]; // Applied in order; missing from results published before tie detection existed
+}
+
+export interface ScoreRange {
+  low: number;
+  high: number;
 }
 
 export interface ProjectResult {
@@ -65,12 +216,53 @@ export interface ProjectResult {
     scores: Score[];
     finalScore: number;
     avgWeightedScore: number;
+    // The TRL used for weighting; undefined under TrlPolicy.PER_JUDGE, where each judge's own TRL is used.
+    resolvedTrl?: string;
+    juryTrlVotes: { [trlBandId: string]: number };
+    juryMajorityTrl?: string;
+    trlDisagreement: boolean;
+    // Judges with a declared conflict of interest, and how many of their already submitted scores were excluded.
+    recusedJudgeIds: string[];
+    recusedScoreCount: number;
+    // The pass/fail gates most of the project's judges failed. Absent from results published before gates existed.
+    disqualifiedBy?: string[];
+    // A bootstrap confidence interval for `finalScore`, the ranks the project could hold given every interval,
+    // and the projects whose intervals overlap its own, overall and within its track. Absent from results
+    // published before tie detection existed.
+    confidenceInterval?: ScoreRange;
+    rankRange?: ScoreRange;
+    trackRankRange?: ScoreRange;
+    tiedWith?: string[];
+    trackTiedWith?: string[];
     judgeStats: {
         [judgeId: string]: {
             raw: number;
             weighted: number;
             normalized: number;
+            trl: string;
         };
     };
     rank: number;
-}
\ No newline at end of file
+    trackRank: number;
+}
+
+export interface TrackAwards {
+    track: Track;
+    winner?: ProjectResult;
+    runnerUp?: ProjectResult;
+}
+
+export interface AwardsSummary {
+    tracks: TrackAwards[];
+    overallWinner?: ProjectResult;
+}
+
+// The rankings saved when an event's results were published. They never change afterwards, even if scores do.
+export interface ResultSnapshot {
+  id: string;
+  eventId: string;
+  results: ProjectResult[];
+  options: RankingOptions;
+  publishedBy: string;
+  publishedAt: string;
+}